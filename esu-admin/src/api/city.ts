@@ -0,0 +1,32 @@
+import { request } from './request';
+
+/** 后端区县（与 esu-types DistrictSchema 一致） */
+export interface BackendDistrict {
+  id: number;
+  cityId: number;
+  name: string;
+}
+
+/** 后端城市，含下属区县（与 esu-types CitySchema 一致） */
+export interface BackendCity {
+  id: number;
+  name: string;
+  districts: BackendDistrict[];
+}
+
+export function listCities(): Promise<BackendCity[]> {
+  return request<BackendCity[]>('/cities', { method: 'GET' });
+}
+
+/** 城市/区县ID转为名称，找不到时返回 null */
+export function cityName(cities: BackendCity[], cityId?: number | null): string | null {
+  return cities.find((c) => c.id === cityId)?.name ?? null;
+}
+
+export function districtName(cities: BackendCity[], districtId?: number | null): string | null {
+  for (const c of cities) {
+    const d = c.districts.find((d) => d.id === districtId);
+    if (d) return d.name;
+  }
+  return null;
+}
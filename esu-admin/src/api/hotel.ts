@@ -21,6 +21,8 @@ export interface BackendHotel {
   nameEn?: string | null;
   ownerId: number;
   address: string;
+  cityId?: number | null;
+  districtId?: number | null;
   latitude?: number | null;
   longitude?: number | null;
   starRating: number;
@@ -32,6 +34,7 @@ export interface BackendHotel {
   status: 'pending' | 'approved' | 'rejected' | 'offline';
   statusDescription?: string | null;
   roomTypes?: { id: number; hotelId: number; name: string; price: number; stock: number; capacity?: number | null; description?: string | null }[];
+  hasPendingRevision?: boolean;
 }
 
 function mapBackendToFrontend(h: BackendHotel): Hotel {
@@ -46,6 +49,7 @@ function mapBackendToFrontend(h: BackendHotel): Hotel {
     status: BACKEND_STATUS_MAP[h.status] ?? '审核中',
     rejectReason: h.statusDescription ?? undefined,
     merchantId: String(h.ownerId),
+    hasPendingRevision: h.hasPendingRevision ?? false,
   };
 }
 
@@ -77,6 +81,8 @@ export interface HotelCreateBody {
   nameEn: string | null;
   ownerId?: number;
   address: string;
+  cityId?: number | null;
+  districtId?: number | null;
   latitude: number | null;
   longitude: number | null;
   starRating: number;
@@ -99,6 +105,8 @@ export function createHotel(body: HotelCreateBody): Promise<BackendHotel> {
     nameZh: body.nameZh,
     nameEn: body.nameEn ?? null,
     address: body.address,
+    cityId: body.cityId ?? null,
+    districtId: body.districtId ?? null,
     latitude: body.latitude ?? null,
     longitude: body.longitude ?? null,
     starRating: body.starRating,
@@ -112,8 +120,64 @@ export function createHotel(body: HotelCreateBody): Promise<BackendHotel> {
   return request<BackendHotel>('/hotels', { method: 'POST', body: payload });
 }
 
-export function updateHotel(id: string, body: Partial<HotelCreateBody> & { status?: string; statusDescription?: string | null }): Promise<BackendHotel> {
-  return request<BackendHotel>(`/hotels/${id}`, { method: 'PUT', body });
+export interface BackendRevisionRoomType {
+  id: number;
+  name: string;
+  price: number;
+  stock: number;
+  capacity: number | null;
+  description: string | null;
+}
+
+/** 酒店修改稿：商户修改已上线的酒店时保存为修改稿，审核通过后才发布到线上 */
+export interface BackendHotelRevision {
+  id: number;
+  hotelId: number;
+  authorId: number;
+  status: 'pending' | 'approved' | 'rejected';
+  data: Omit<HotelCreateBody, 'ownerId'>;
+  roomTypes: BackendRevisionRoomType[] | null;
+  reviewerId: number | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+}
+
+/** 已上线酒店的商户修改返回修改稿，其余情况返回修改后的酒店 */
+export function updateHotel(id: string, body: Partial<HotelCreateBody>): Promise<BackendHotel | BackendHotelRevision> {
+  return request<BackendHotel | BackendHotelRevision>(`/hotels/${id}`, { method: 'PUT', body });
+}
+
+export function isHotelRevision(result: BackendHotel | BackendHotelRevision): result is BackendHotelRevision {
+  return 'data' in result && 'hotelId' in result;
+}
+
+/** 用于审核对比的酒店版本 */
+export interface BackendHotelVersion {
+  revisionId: number | null;
+  data: Omit<HotelCreateBody, 'ownerId'>;
+  roomTypes: BackendRevisionRoomType[];
+  updatedAt: string;
+}
+
+export interface HotelRevisionCompare {
+  submitted: BackendHotelVersion | null;
+  approved: BackendHotelVersion | null;
+  changedFields: string[];
+}
+
+/** 获取待审核版本与上一次审核通过的版本 */
+export function compareHotelRevision(id: string): Promise<HotelRevisionCompare> {
+  return request<HotelRevisionCompare>(`/hotels/${id}/revisions/compare`, { method: 'GET' });
+}
+
+/** 获取待审核的修改稿，没有时返回 null */
+export async function getHotelDraft(id: string): Promise<BackendHotelRevision | null> {
+  try {
+    return await request<BackendHotelRevision>(`/hotels/${id}/draft`, { method: 'GET' });
+  } catch (e) {
+    if ((e as { status?: number }).status === 404) return null;
+    throw e;
+  }
 }
 
 export function approveHotel(id: string): Promise<BackendHotel> {
@@ -124,16 +188,52 @@ export function rejectHotel(id: string, rejectReason: string): Promise<BackendHo
   return request<BackendHotel>(`/hotels/${id}/reject`, { method: 'PUT', body: { rejectReason } });
 }
 
-export function offlineHotel(id: string): Promise<BackendHotel> {
-  return request<BackendHotel>(`/hotels/${id}/offline`, { method: 'PUT', body: {} });
+export function offlineHotel(id: string, reason?: string): Promise<BackendHotel> {
+  return request<BackendHotel>(`/hotels/${id}/offline`, { method: 'PUT', body: reason ? { reason } : {} });
 }
 
-export function onlineHotel(id: string): Promise<BackendHotel> {
-  return request<BackendHotel>(`/hotels/${id}/online`, { method: 'PUT', body: {} });
+export function onlineHotel(id: string, reason?: string): Promise<BackendHotel> {
+  return request<BackendHotel>(`/hotels/${id}/online`, { method: 'PUT', body: reason ? { reason } : {} });
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'offline' | 'online' | 'delete';
+
+export interface HotelModerationLog {
+  id: number;
+  hotelId: number;
+  actorId: number;
+  action: ModerationAction;
+  reason: string | null;
+  fromStatus: BackendHotel['status'] | null;
+  toStatus: BackendHotel['status'] | null;
+  revisionId: number | null;
+  createdAt: string;
+  actor: { id: number; username: string } | null;
+}
+
+/** 酒店审核记录，按时间先后排列 */
+export function getModerationLog(id: string): Promise<HotelModerationLog[]> {
+  return request<HotelModerationLog[]>(`/hotels/${id}/moderation-log`, { method: 'GET' });
 }
 
 export function deleteHotel(id: string): Promise<{ message: 'Deleted' }> {
   return request<{ message: 'Deleted' }>(`/hotels/${id}`, { method: 'DELETE' });
 }
 
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+/** 上传酒店图片，返回的 url 可直接写入 images */
+export function uploadImage(file: File): Promise<UploadedImage> {
+  const body = new FormData();
+  body.append('file', file);
+  return request<UploadedImage>('/uploads/images', { method: 'POST', body });
+}
+
 export { mapBackendToFrontend, FRONTEND_STATUS_MAP };
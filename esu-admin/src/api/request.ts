@@ -53,10 +53,12 @@ export async function request<T>(
   const { body, ...init } = options;
   const url = path.startsWith('http') ? path : `${API_BASE}${path}`;
   const hasBody = body !== undefined && body !== null;
+  // FormData 由浏览器设置 multipart Content-Type（含 boundary）
+  const isFormData = body instanceof FormData;
   const headers: HeadersInit = {
     ...((init.headers as Record<string, string>) || {}),
   };
-  if (hasBody) {
+  if (hasBody && !isFormData) {
     (headers as Record<string, string>)['Content-Type'] = 'application/json';
   }
   const token = getToken();
@@ -68,7 +70,7 @@ export async function request<T>(
     res = await fetch(url, {
       ...init,
       headers,
-      body: hasBody ? JSON.stringify(body) : undefined,
+      body: isFormData ? body : hasBody ? JSON.stringify(body) : undefined,
     });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
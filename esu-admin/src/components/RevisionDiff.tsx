@@ -0,0 +1,142 @@
+import type { BackendHotelVersion, BackendRevisionRoomType } from '../api/hotel';
+import { cityName, districtName, type BackendCity } from '../api/city';
+import './RevisionDiff.css';
+
+type VersionData = BackendHotelVersion['data'];
+
+const FIELDS: { key: Exclude<keyof VersionData, 'images'>; label: string }[] = [
+  { key: 'nameZh', label: '酒店名称（中文）' },
+  { key: 'nameEn', label: '酒店名称（英文）' },
+  { key: 'cityId', label: '城市' },
+  { key: 'districtId', label: '区县' },
+  { key: 'address', label: '地址' },
+  { key: 'latitude', label: '纬度' },
+  { key: 'longitude', label: '经度' },
+  { key: 'starRating', label: '星级' },
+  { key: 'openingDate', label: '开业日期' },
+  { key: 'facilities', label: '设施' },
+  { key: 'tags', label: '标签' },
+  { key: 'nearbyAttractions', label: '附近景点' },
+];
+
+function formatValue(key: keyof VersionData, value: unknown, cities: BackendCity[]): string {
+  if (value == null || value === '') return '—';
+  if (key === 'cityId') return cityName(cities, value as number) ?? `#${value}`;
+  if (key === 'districtId') return districtName(cities, value as number) ?? `#${value}`;
+  if (Array.isArray(value)) return value.length ? value.join('、') : '—';
+  if (key === 'starRating') return `${value} 星`;
+  if (key === 'openingDate') return String(value).replace(/T.*$/, '');
+  return String(value);
+}
+
+function formatRoomType(r: BackendRevisionRoomType): string {
+  return `${r.name} — ¥${r.price}，库存 ${r.stock}${r.capacity ? `，可住 ${r.capacity} 人` : ''}`;
+}
+
+type RoomTypeChange = {
+  id: number;
+  before: BackendRevisionRoomType | null;
+  after: BackendRevisionRoomType | null;
+  changed: boolean;
+};
+
+/** 按房型ID对齐两个版本的房型 */
+function diffRoomTypes(before: BackendRevisionRoomType[], after: BackendRevisionRoomType[]): RoomTypeChange[] {
+  const ids = [...new Set([...before.map((r) => r.id), ...after.map((r) => r.id)])].sort((a, b) => a - b);
+  return ids.map((id) => {
+    const b = before.find((r) => r.id === id) ?? null;
+    const a = after.find((r) => r.id === id) ?? null;
+    return { id, before: b, after: a, changed: JSON.stringify(b) !== JSON.stringify(a) };
+  });
+}
+
+/**
+ * 审核对比：逐字段展示上一次审核通过的版本与待审核版本，高亮有变化的字段、房型和图片
+ * approved 为 null 表示酒店从未通过审核，所有内容都按新增展示
+ */
+export function RevisionDiff({
+  approved,
+  submitted,
+  changedFields,
+  cities = [],
+}: {
+  approved: BackendHotelVersion | null;
+  submitted: BackendHotelVersion;
+  changedFields: string[];
+  /** 用于把城市、区县ID显示为名称 */
+  cities?: BackendCity[];
+}) {
+  const changed = new Set(changedFields);
+  const beforeImages = approved?.data.images ?? [];
+  const afterImages = submitted.data.images ?? [];
+  const roomTypeChanges = diffRoomTypes(approved?.roomTypes ?? [], submitted.roomTypes);
+
+  return (
+    <div className="revision-diff">
+      <p className="revision-diff-summary">
+        {approved ? (changedFields.length ? `共 ${changedFields.length} 项变更，已高亮显示` : '与上次审核通过的版本相同') : '首次提交审核，暂无审核通过的版本'}
+      </p>
+      <table className="revision-diff-table">
+        <thead>
+          <tr>
+            <th>字段</th>
+            <th>上次审核通过</th>
+            <th>待审核</th>
+          </tr>
+        </thead>
+        <tbody>
+          {FIELDS.map(({ key, label }) => (
+            <tr key={key} className={changed.has(key) ? 'revision-diff-row--changed' : ''}>
+              <td className="revision-diff-label">{label}</td>
+              <td>{approved ? formatValue(key, approved.data[key], cities) : '—'}</td>
+              <td>{formatValue(key, submitted.data[key], cities)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className={`revision-diff-section ${changed.has('images') ? 'revision-diff-section--changed' : ''}`}>
+        <h4>图片</h4>
+        <div className="revision-diff-columns">
+          <div>
+            <p className="revision-diff-column-title">上次审核通过</p>
+            <div className="revision-diff-images">
+              {beforeImages.length === 0 && <span className="revision-diff-empty">无图片</span>}
+              {beforeImages.map((url) => (
+                <img key={url} src={url} alt="" className={afterImages.includes(url) ? '' : 'revision-diff-image--removed'} />
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="revision-diff-column-title">待审核</p>
+            <div className="revision-diff-images">
+              {afterImages.length === 0 && <span className="revision-diff-empty">无图片</span>}
+              {afterImages.map((url) => (
+                <img key={url} src={url} alt="" className={beforeImages.includes(url) ? '' : 'revision-diff-image--added'} />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className={`revision-diff-section ${changed.has('roomTypes') ? 'revision-diff-section--changed' : ''}`}>
+        <h4>房型</h4>
+        {roomTypeChanges.length === 0 ? (
+          <span className="revision-diff-empty">无房型</span>
+        ) : (
+          <ul className="revision-diff-room-types">
+            {roomTypeChanges.map((c) => (
+              <li key={c.id} className={c.changed ? 'revision-diff-row--changed' : ''}>
+                {!c.before && c.after && <span className="revision-diff-badge revision-diff-badge--added">新增</span>}
+                {c.before && !c.after && <span className="revision-diff-badge revision-diff-badge--removed">删除</span>}
+                {c.before && c.after && c.changed && <span className="revision-diff-badge">修改</span>}
+                {c.before && c.changed && <del>{formatRoomType(c.before)}</del>}
+                {c.after && <span>{formatRoomType(c.after)}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,9 +8,16 @@ import {
   rejectHotel,
   offlineHotel,
   onlineHotel,
+  compareHotelRevision,
+  getModerationLog,
   mapBackendToFrontend,
   type BackendHotel,
+  type HotelModerationLog,
+  type HotelRevisionCompare,
+  type ModerationAction,
 } from '../api/hotel';
+import { listCities, type BackendCity } from '../api/city';
+import { RevisionDiff } from '../components/RevisionDiff';
 import './AuditList.css';
 
 const STATUS_MAP: Record<string, string> = {
@@ -20,12 +27,29 @@ const STATUS_MAP: Record<string, string> = {
   offline: '已下线',
 };
 
+const ACTION_MAP: Record<ModerationAction, string> = {
+  approve: '审核通过',
+  reject: '驳回',
+  offline: '下线',
+  online: '恢复上线',
+  delete: '删除',
+};
+
+function describeLog(log: HotelModerationLog): string {
+  const action = log.revisionId != null && log.fromStatus === log.toStatus ? `${ACTION_MAP[log.action]}修改` : ACTION_MAP[log.action];
+  const change = log.fromStatus && log.toStatus && log.fromStatus !== log.toStatus ? `（${STATUS_MAP[log.fromStatus]} → ${STATUS_MAP[log.toStatus]}）` : '';
+  return `${action}${change}`;
+}
+
 export default function AuditList() {
   const [loading, setLoading] = useState(true);
   const [modalId, setModalId] = useState<string | null>(null);
   const [modalDetail, setModalDetail] = useState<BackendHotel | null>(null);
+  const [comparison, setComparison] = useState<HotelRevisionCompare | null>(null);
+  const [moderationLog, setModerationLog] = useState<HotelModerationLog[]>([]);
   const [modalLoading, setModalLoading] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
+  const [cities, setCities] = useState<BackendCity[]>([]);
 
   const load = () => {
     if (!getToken()) {
@@ -46,16 +70,24 @@ export default function AuditList() {
 
   useEffect(() => {
     load();
+    // 城市列表只用于审核对比中显示城市、区县名称，加载失败不影响审核
+    listCities()
+      .then(setCities)
+      .catch(() => setCities([]));
   }, []);
 
   const openModal = (id: string) => {
     setModalId(id);
     setModalDetail(null);
+    setComparison(null);
+    setModerationLog([]);
     setRejectReason('');
     setModalLoading(true);
-    getHotel(id)
-      .then((h) => {
+    Promise.all([getHotel(id), compareHotelRevision(id), getModerationLog(id)])
+      .then(([h, c, logs]) => {
         setModalDetail(h);
+        setComparison(c);
+        setModerationLog(logs);
         setRejectReason(h.statusDescription ?? '');
       })
       .catch((e) => {
@@ -68,14 +100,18 @@ export default function AuditList() {
   const closeModal = () => {
     setModalId(null);
     setModalDetail(null);
+    setComparison(null);
+    setModerationLog([]);
     setRejectReason('');
   };
 
   const refreshModal = () => {
     if (!modalId) return;
-    getHotel(modalId)
-      .then((h) => {
+    Promise.all([getHotel(modalId), compareHotelRevision(modalId), getModerationLog(modalId)])
+      .then(([h, c, logs]) => {
         setModalDetail(h);
+        setComparison(c);
+        setModerationLog(logs);
         setRejectReason(h.statusDescription ?? '');
       })
       .catch(() => {});
@@ -83,8 +119,10 @@ export default function AuditList() {
 
   const handleApprove = async (id: string) => {
     try {
-      await approveHotel(id);
-      hotels.value = hotels.value.map((h) => (h.id === id ? { ...h, status: '通过' as const } : h));
+      const updated = await approveHotel(id);
+      // 发布修改稿时酒店状态不变（如已下线的酒店仍保持下线）
+      const status = mapBackendToFrontend(updated).status;
+      hotels.value = hotels.value.map((h) => (h.id === id ? { ...h, status, hasPendingRevision: false } : h));
       if (modalId === id) refreshModal();
       showToast('已通过');
     } catch (e) {
@@ -100,8 +138,9 @@ export default function AuditList() {
     }
     try {
       await rejectHotel(id, reason);
+      // 有待审核修改稿时只驳回修改稿，线上版本保持不变
       hotels.value = hotels.value.map((h) =>
-        h.id === id ? { ...h, status: '不通过' as const, rejectReason: reason } : h
+        h.id !== id ? h : h.hasPendingRevision ? { ...h, hasPendingRevision: false } : { ...h, status: '不通过' as const, rejectReason: reason }
       );
       if (modalId === id) refreshModal();
       showToast('已驳回');
@@ -182,9 +221,10 @@ export default function AuditList() {
                     </td>
                     <td>
                       <span className={`audit-status ${auditStatusClass(h.status)}`}>{h.status}</span>
+                      {h.hasPendingRevision && <span className="audit-status audit-status--pending audit-status--revision">修改待审</span>}
                     </td>
                     <td className="audit-td-actions" onClick={(e) => e.stopPropagation()}>
-                      {h.status === '审核中' ? (
+                      {h.status === '审核中' || h.hasPendingRevision ? (
                         <div className="audit-actions-row">
                           <button
                             type="button"
@@ -201,7 +241,7 @@ export default function AuditList() {
                             驳回
                           </button>
                         </div>
-                      ) : (
+                      ) : h.status === '通过' || h.status === '已下线' ? (
                         <button
                           type="button"
                           onClick={() => (h.status === '已下线' ? handleOnline(h.id) : handleOffline(h.id))}
@@ -209,7 +249,7 @@ export default function AuditList() {
                         >
                           {h.status === '已下线' ? '恢复上线' : '一键下线'}
                         </button>
-                      )}
+                      ) : null}
                     </td>
                   </tr>
                 ))
@@ -221,9 +261,9 @@ export default function AuditList() {
 
       {modalId && (
         <div className="audit-modal-overlay" onClick={closeModal}>
-          <div className="audit-modal" onClick={(e) => e.stopPropagation()}>
+          <div className={`audit-modal ${comparison?.submitted ? 'audit-modal--wide' : ''}`} onClick={(e) => e.stopPropagation()}>
             <div className="audit-modal-header">
-              <h3 className="audit-modal-title">酒店详情</h3>
+              <h3 className="audit-modal-title">{comparison?.submitted ? '审核对比' : '酒店详情'}</h3>
               <button type="button" className="audit-modal-close" onClick={closeModal} aria-label="关闭">×</button>
             </div>
             {modalLoading ? (
@@ -234,7 +274,10 @@ export default function AuditList() {
                   <span className={`audit-status ${auditStatusClass(STATUS_MAP[modalDetail.status] ?? modalDetail.status)}`}>
                     {STATUS_MAP[modalDetail.status] ?? modalDetail.status}
                   </span>
-                  {(modalDetail.status === 'pending' || modalDetail.status === 'rejected') && (
+                  {comparison?.submitted?.revisionId != null && modalDetail.status !== 'pending' && (
+                    <span className="audit-status audit-status--pending">修改待审</span>
+                  )}
+                  {(modalDetail.status === 'pending' || modalDetail.status === 'rejected' || comparison?.submitted) && (
                     <div className="audit-modal-reject-reason">
                       <label>驳回理由（驳回时必填）</label>
                       <input
@@ -247,66 +290,84 @@ export default function AuditList() {
                     </div>
                   )}
                 </div>
-                <div className="audit-modal-form">
-                  <div className="audit-modal-field">
-                    <label>酒店名称（中文）</label>
-                    <p className="audit-modal-value">{modalDetail.nameZh || '—'}</p>
-                  </div>
-                  <div className="audit-modal-field">
-                    <label>酒店名称（英文）</label>
-                    <p className="audit-modal-value">{modalDetail.nameEn || '—'}</p>
-                  </div>
-                  <div className="audit-modal-field">
-                    <label>地址</label>
-                    <p className="audit-modal-value">{modalDetail.address || '—'}</p>
-                  </div>
-                  <div className="audit-modal-field-row">
+                {comparison?.submitted ? (
+                  <RevisionDiff approved={comparison.approved} submitted={comparison.submitted} changedFields={comparison.changedFields} cities={cities} />
+                ) : (
+                  <div className="audit-modal-form">
                     <div className="audit-modal-field">
-                      <label>开业日期</label>
-                      <p className="audit-modal-value">{(modalDetail.openingDate ?? '').replace(/T.*$/, '') || '—'}</p>
+                      <label>酒店名称（中文）</label>
+                      <p className="audit-modal-value">{modalDetail.nameZh || '—'}</p>
                     </div>
                     <div className="audit-modal-field">
-                      <label>星级</label>
-                      <p className="audit-modal-value">{modalDetail.starRating ?? '—'} 星</p>
+                      <label>酒店名称（英文）</label>
+                      <p className="audit-modal-value">{modalDetail.nameEn || '—'}</p>
                     </div>
-                  </div>
-                  <div className="audit-modal-field">
-                    <label>设施</label>
-                    <p className="audit-modal-value">{(modalDetail.facilities ?? []).length ? (modalDetail.facilities ?? []).join('、') : '—'}</p>
-                  </div>
-                  <div className="audit-modal-field">
-                    <label>标签</label>
-                    <p className="audit-modal-value">{(modalDetail.tags ?? []).length ? (modalDetail.tags ?? []).join('、') : '—'}</p>
-                  </div>
-                  <div className="audit-modal-field">
-                    <label>附近景点</label>
-                    <p className="audit-modal-value">{(modalDetail.nearbyAttractions ?? []).length ? (modalDetail.nearbyAttractions ?? []).join('、') : '—'}</p>
-                  </div>
-                  {(modalDetail.images ?? []).length > 0 && (
                     <div className="audit-modal-field">
-                      <label>图片</label>
-                      <p className="audit-modal-value audit-modal-value--pre">{(modalDetail.images ?? []).join('\n')}</p>
+                      <label>地址</label>
+                      <p className="audit-modal-value">{modalDetail.address || '—'}</p>
+                    </div>
+                    <div className="audit-modal-field-row">
+                      <div className="audit-modal-field">
+                        <label>开业日期</label>
+                        <p className="audit-modal-value">{(modalDetail.openingDate ?? '').replace(/T.*$/, '') || '—'}</p>
+                      </div>
+                      <div className="audit-modal-field">
+                        <label>星级</label>
+                        <p className="audit-modal-value">{modalDetail.starRating ?? '—'} 星</p>
+                      </div>
                     </div>
-                  )}
-                  {modalDetail.roomTypes && modalDetail.roomTypes.length > 0 && (
                     <div className="audit-modal-field">
-                      <label>房型</label>
-                      <ul className="audit-modal-room-types">
-                        {modalDetail.roomTypes.map((r) => (
-                          <li key={r.id}>{r.name} — ¥{r.price}，库存 {r.stock}</li>
-                        ))}
-                      </ul>
+                      <label>设施</label>
+                      <p className="audit-modal-value">{(modalDetail.facilities ?? []).length ? (modalDetail.facilities ?? []).join('、') : '—'}</p>
                     </div>
-                  )}
-                </div>
+                    <div className="audit-modal-field">
+                      <label>标签</label>
+                      <p className="audit-modal-value">{(modalDetail.tags ?? []).length ? (modalDetail.tags ?? []).join('、') : '—'}</p>
+                    </div>
+                    <div className="audit-modal-field">
+                      <label>附近景点</label>
+                      <p className="audit-modal-value">{(modalDetail.nearbyAttractions ?? []).length ? (modalDetail.nearbyAttractions ?? []).join('、') : '—'}</p>
+                    </div>
+                    {(modalDetail.images ?? []).length > 0 && (
+                      <div className="audit-modal-field">
+                        <label>图片</label>
+                        <p className="audit-modal-value audit-modal-value--pre">{(modalDetail.images ?? []).join('\n')}</p>
+                      </div>
+                    )}
+                    {modalDetail.roomTypes && modalDetail.roomTypes.length > 0 && (
+                      <div className="audit-modal-field">
+                        <label>房型</label>
+                        <ul className="audit-modal-room-types">
+                          {modalDetail.roomTypes.map((r) => (
+                            <li key={r.id}>{r.name} — ¥{r.price}，库存 {r.stock}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {moderationLog.length > 0 && (
+                  <div className="audit-modal-log">
+                    <label>审核记录</label>
+                    <ul>
+                      {moderationLog.map((log) => (
+                        <li key={log.id}>
+                          <span className="audit-modal-log-time">{new Date(log.createdAt).toLocaleString()}</span>
+                          <span>{log.actor?.username ?? `#${log.actorId}`} {describeLog(log)}</span>
+                          {log.reason && <span className="audit-modal-log-reason">原因：{log.reason}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div className="audit-modal-actions">
-                  {modalDetail.status === 'pending' && (
+                  {(modalDetail.status === 'pending' || comparison?.submitted) && (
                     <>
                       <button type="button" className="audit-modal-btn audit-modal-btn-approve" onClick={() => handleApprove(modalId)}>批准</button>
                       <button type="button" className="audit-modal-btn audit-modal-btn-reject" onClick={() => handleReject(modalId, rejectReason.trim())}>驳回</button>
                     </>
                   )}
-                  {(modalDetail.status === 'approved' || modalDetail.status === 'rejected' || modalDetail.status === 'offline') && (
+                  {(modalDetail.status === 'approved' || modalDetail.status === 'offline') && (
                     <button
                       type="button"
                       className="audit-modal-btn audit-modal-btn-toggle"
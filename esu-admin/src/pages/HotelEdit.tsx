@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'preact/hooks';
 import { useLocation } from 'preact-iso';
 import { currentUser, showToast } from '../store';
-import { createHotel, updateHotel, getHotel, type HotelCreateBody, type BackendHotel } from '../api/hotel';
-import { FRONTEND_STATUS_MAP } from '../api/hotel';
+import { createHotel, updateHotel, getHotel, getHotelDraft, isHotelRevision, uploadImage, type HotelCreateBody, type BackendHotel } from '../api/hotel';
+import { listCities, type BackendCity } from '../api/city';
 import { createRoomType, updateRoomType, deleteRoomType, type BackendRoomType } from '../api/roomType';
 import { showConfirm } from '../store';
 import './HotelEdit.css';
@@ -23,6 +23,8 @@ const emptyForm = () => ({
   nameZh: '',
   nameEn: '',
   address: '',
+  cityId: null as number | null,
+  districtId: null as number | null,
   starRating: 3,
   openingDate: defaultOpeningDate(),
   nearbyAttractions: [] as string[],
@@ -31,11 +33,13 @@ const emptyForm = () => ({
   tags: [] as string[],
 });
 
-function backendToForm(h: BackendHotel) {
+function backendToForm(h: Omit<BackendHotel, 'id' | 'ownerId' | 'status'>) {
   return {
     nameZh: h.nameZh ?? '',
     nameEn: h.nameEn ?? '',
     address: h.address ?? '',
+    cityId: h.cityId ?? null,
+    districtId: h.districtId ?? null,
     starRating: h.starRating ?? 3,
     openingDate: (h.openingDate ?? defaultOpeningDate()).replace(/T.*$/, ''),
     nearbyAttractions: h.nearbyAttractions ?? [],
@@ -53,18 +57,27 @@ export default function HotelEdit({ id }: { id?: string }) {
   const [roomTypes, setRoomTypes] = useState<RoomTypeRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(!!(isEdit && id));
+  const [uploading, setUploading] = useState(false);
+  const [cities, setCities] = useState<BackendCity[]>([]);
   const [roomTypeAdding, setRoomTypeAdding] = useState(false);
   const [roomTypeEditId, setRoomTypeEditId] = useState<number | null>(null);
   const [roomTypeForm, setRoomTypeForm] = useState({ name: '', price: '', stock: '', capacity: '', description: '' });
 
   const loadHotel = (): Promise<void> => {
     if (!id || !isEdit) return Promise.resolve();
-    return getHotel(id).then((h) => {
-      setForm(backendToForm(h));
+    // 有待审核的修改稿时，在修改稿基础上继续编辑
+    return Promise.all([getHotel(id), getHotelDraft(id)]).then(([h, draft]) => {
+      setForm(backendToForm(draft ? draft.data : h));
       setRoomTypes((h.roomTypes ?? []).map((r) => ({ id: r.id, name: r.name, price: r.price, stock: r.stock, capacity: r.capacity ?? null, description: r.description ?? null })));
     });
   };
 
+  useEffect(() => {
+    listCities()
+      .then(setCities)
+      .catch(() => showToast('加载城市列表失败'));
+  }, []);
+
   useEffect(() => {
     if (!isEdit || !id) return;
     setFetching(true);
@@ -96,6 +109,8 @@ export default function HotelEdit({ id }: { id?: string }) {
       nameZh,
       nameEn,
       address,
+      cityId: form.cityId,
+      districtId: form.districtId,
       latitude: null,
       longitude: null,
       starRating,
@@ -111,10 +126,9 @@ export default function HotelEdit({ id }: { id?: string }) {
     try {
       if (isEdit && id) {
         const { ownerId: _o, ...updateBody } = body;
-        await updateHotel(id, {
-          ...updateBody,
-          status: FRONTEND_STATUS_MAP['审核中'],
-        });
+        // 酒店状态由后端维护：审核未通过的酒店修改后自动重新提交审核
+        const result = await updateHotel(id, updateBody);
+        if (isHotelRevision(result)) showToast('修改已提交审核，审核通过前线上展示原信息');
       } else {
         await createHotel(body);
       }
@@ -126,6 +140,26 @@ export default function HotelEdit({ id }: { id?: string }) {
     }
   };
 
+  /** 逐个上传选中的图片，成功的追加到图片列表 */
+  const handleUploadImages = async (input: HTMLInputElement) => {
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (!files.length) return;
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const uploaded = await uploadImage(file);
+        setForm((f) => ({ ...f, images: [...f.images, uploaded.url] }));
+      }
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : '图片上传失败');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const selectedCity = cities.find((c) => c.id === form.cityId);
+
   const setList = (key: 'nearbyAttractions' | 'images' | 'facilities' | 'tags', value: string) => {
     setForm((f) => ({ ...f, [key]: parseList(value) }));
   };
@@ -238,6 +272,40 @@ export default function HotelEdit({ id }: { id?: string }) {
                 placeholder="如：XX Hotel"
               />
             </div>
+            <div className="hotel-edit-field">
+              <label>所在城市</label>
+              <select
+                className="hotel-edit-input"
+                value={form.cityId ?? ''}
+                onChange={(e) => {
+                  const value = e.currentTarget.value;
+                  // 更换城市后原区县不再适用
+                  setForm((f) => ({ ...f, cityId: value ? Number(value) : null, districtId: null }));
+                }}
+              >
+                <option value="">请选择城市</option>
+                {cities.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="hotel-edit-field">
+              <label>所在区县</label>
+              <select
+                className="hotel-edit-input"
+                value={form.districtId ?? ''}
+                disabled={!selectedCity?.districts.length}
+                onChange={(e) => {
+                  const value = e.currentTarget.value;
+                  setForm((f) => ({ ...f, districtId: value ? Number(value) : null }));
+                }}
+              >
+                <option value="">{form.cityId ? '请选择区县' : '请先选择城市'}</option>
+                {(selectedCity?.districts ?? []).map((d) => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+            </div>
             <div className="hotel-edit-field hotel-edit-field-full">
               <label>详细地址<span className="hotel-edit-required">*</span></label>
               <textarea
@@ -405,11 +473,32 @@ export default function HotelEdit({ id }: { id?: string }) {
             <textarea
               className="hotel-edit-input"
               value={form.images.join('\n')}
-              onInput={(e) => setForm((f) => ({ ...f, images: parseList(e.currentTarget.value.replace(/\n/g, ',')) }))}
+              onInput={(e) => setForm((f) => ({ ...f, images: parseList(e.currentTarget.value.replace(/\n/g, ','), 500) }))}
               rows={3}
               placeholder="https://example.com/1.jpg"
             />
           </div>
+          <div className="hotel-edit-field hotel-edit-field-full">
+            <label className="hotel-edit-upload-btn">
+              {uploading ? '上传中…' : '+ 上传图片'}
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                hidden
+                disabled={uploading}
+                onChange={(e) => handleUploadImages(e.currentTarget)}
+              />
+            </label>
+            <span className="hotel-edit-upload-hint">支持 JPG、PNG、WebP，单张不超过 5MB</span>
+          </div>
+          {form.images.length > 0 && (
+            <div className="hotel-edit-images">
+              {form.images.map((url) => (
+                <img key={url} src={url} alt="" />
+              ))}
+            </div>
+          )}
         </section>
 
         <div className="hotel-edit-actions">
@@ -12,6 +12,7 @@ export interface Hotel {
   status: HotelStatus;
   rejectReason?: string; // 审核不通过原因
   merchantId: string;
+  hasPendingRevision?: boolean; // 已上线酒店有待审核的修改
 }
 
 // 全局响应式状态（与后端同步时由各页面拉取后写入 hotels）
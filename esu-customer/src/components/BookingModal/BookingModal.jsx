@@ -1,13 +1,47 @@
-import { View, Text, Button } from '@tarojs/components'
+import { View, Text, Button, Input, Picker, Textarea } from '@tarojs/components'
 import Taro from '@tarojs/taro'
-import { useState } from 'react'
-import { createOrder } from '../../un/api'
+import { useState, useRef } from 'react'
+import { createOrder, joinWaitlist } from '../../un/api'
 import './BookingModal.scss'
 
 export default function BookingModal({ visible, onClose, room, hotelName, hotelId, hotelImage, checkIn, checkOut, nights, roomCount, adultCount, childCount }) {
   const [loading, setLoading] = useState(false)
+  const [guest, setGuest] = useState({ name: '', phone: '', arrivalTime: '', specialRequests: '' })
+  // 同一房型、日期和人数的重复提交使用同一个幂等键，下单成功后重新生成
+  const idempotencyRef = useRef({ signature: '', key: '' })
   if (!visible) return null
 
+  const getIdempotencyKey = () => {
+    const signature = [hotelId, room?.id, checkIn, checkOut, roomCount, adultCount, childCount, JSON.stringify(guest)].join('|')
+    if (idempotencyRef.current.signature !== signature) {
+      idempotencyRef.current = { signature, key: `${Date.now()}-${Math.random().toString(36).slice(2)}` }
+    }
+    return idempotencyRef.current.key
+  }
+
+  const handleSoldOut = async () => {
+    const { confirm } = await Taro.showModal({
+      title: '该房型已满房',
+      content: '是否加入候补？有房时将为您保留并通知您',
+      confirmText: '加入候补',
+    })
+    if (!confirm) return
+    try {
+      await joinWaitlist({
+        roomTypeId: room?.id,
+        checkIn,
+        checkOut,
+        rooms: roomCount || 1,
+        adults: adultCount || 1,
+        childs: childCount || 0,
+      })
+      Taro.showToast({ title: '已加入候补', icon: 'success' })
+      onClose()
+    } catch (err) {
+      // 错误提示已由 request 统一展示
+    }
+  }
+
   const handleBook = async () => {
     setLoading(true)
     try {
@@ -20,14 +54,27 @@ export default function BookingModal({ visible, onClose, room, hotelName, hotelI
         checkIn: checkIn,
         checkOut: checkOut,
         nights: nights || 1,
-        totalPrice: (room?.price || 0) * (nights || 1),
+        rooms: roomCount || 1,
+        adults: adultCount || 1,
+        childs: childCount || 0,
+        totalPrice: (room?.price || 0) * (nights || 1) * (roomCount || 1),
+        guestName: guest.name.trim(),
+        guestPhone: guest.phone.trim(),
+        arrivalTime: guest.arrivalTime,
+        specialRequests: guest.specialRequests.trim(),
+        idempotencyKey: getIdempotencyKey(),
       }
       await createOrder(orderData)
+      idempotencyRef.current = { signature: '', key: '' }
       Taro.showToast({ title: '预订成功', icon: 'success' })
       onClose()
       Taro.reLaunch({ url: '/pages/op16/op16' })
     } catch (err) {
-      Taro.showToast({ title: '预订失败', icon: 'none' })
+      if (err?.message === '库存不足') {
+        handleSoldOut()
+      } else {
+        Taro.showToast({ title: '预订失败', icon: 'none' })
+      }
     } finally {
       setLoading(false)
     }
@@ -71,6 +118,47 @@ export default function BookingModal({ visible, onClose, room, hotelName, hotelI
             <Text className='label'>入住日期</Text>
             <Text className='value'>{checkIn} 至 {checkOut} ({nights || 1}晚)</Text>
           </View>
+          <View className='detail-item'>
+            <Text className='label'>入住信息</Text>
+            <Text className='value'>{roomCount || 1}间 {adultCount || 1}成人 {childCount || 0}儿童</Text>
+          </View>
+          <View className='guest-form'>
+            <View className='form-item'>
+              <Text className='label'>入住人</Text>
+              <Input
+                className='input'
+                placeholder='默认使用账号用户名'
+                value={guest.name}
+                onInput={e => setGuest({ ...guest, name: e.detail.value })}
+              />
+            </View>
+            <View className='form-item'>
+              <Text className='label'>联系电话</Text>
+              <Input
+                className='input'
+                type='number'
+                placeholder='默认使用账号手机号'
+                value={guest.phone}
+                onInput={e => setGuest({ ...guest, phone: e.detail.value })}
+              />
+            </View>
+            <View className='form-item'>
+              <Text className='label'>预计到店</Text>
+              <Picker mode='time' value={guest.arrivalTime || '14:00'} onChange={e => setGuest({ ...guest, arrivalTime: e.detail.value })}>
+                <Text className='input'>{guest.arrivalTime || '请选择'}</Text>
+              </Picker>
+            </View>
+            <View className='form-item'>
+              <Text className='label'>特殊要求</Text>
+              <Textarea
+                className='textarea'
+                placeholder='如高楼层、无烟房（酒店会尽量安排）'
+                maxlength={500}
+                value={guest.specialRequests}
+                onInput={e => setGuest({ ...guest, specialRequests: e.detail.value })}
+              />
+            </View>
+          </View>
           <View className='price-info'>
             <Text className='price'>¥{room?.price}</Text>
             <Text className='unit'>/晚</Text>
@@ -262,7 +262,8 @@ export default function FilterModal({
   visible = false,
   onClose = () => {},
   onConfirm = () => {},
-  initialFilters = {}
+  initialFilters = {},
+  facets = null
 }) {
   // 初始展开状态
   const initialExpanded = useMemo(() => {
@@ -277,6 +278,17 @@ export default function FilterModal({
   // 存储每个分类选中的选项值（数组），格式: { sectionId: ['value1','value2'], ... }
   const [selected, setSelected] = useState({})
 
+  // 设施选项的酒店数（来自分面统计），其他分类暂无统计
+  const facilityCounts = useMemo(() => {
+    if (!facets?.facilities) return null
+    return new Map(facets.facilities.map(item => [item.value, item.count]))
+  }, [facets])
+
+  const optionCount = (sectionId, value) => {
+    if (sectionId !== 'facility' || !facilityCounts) return undefined
+    return facilityCounts.get(value) ?? 0
+  }
+
   // 当模态打开时（或 initialFilters 变化）重置 selected 和展开状态
   useEffect(() => {
     if (visible) {
@@ -440,15 +452,17 @@ export default function FilterModal({
                 <View className='section-options'>
                   {section.options.map(opt => {
                     const isSelected = (selected[section.id] || []).includes(opt.value)
+                    const count = optionCount(section.id, opt.value)
                     return (
                       <View
                         key={String(opt.value)}
-                        className={`option-item ${isSelected ? 'selected' : ''}`}
+                        className={`option-item ${isSelected ? 'selected' : ''} ${count === 0 ? 'empty' : ''}`}
                         onClick={() => handleOptionClick(section, opt.value)}
                         role='button'
                         aria-pressed={isSelected}
                       >
                         <Text>{opt.label}</Text>
+                        {count !== undefined && <Text className='count'>{count}</Text>}
                       </View>
                     )
                   })}
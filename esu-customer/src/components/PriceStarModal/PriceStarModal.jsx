@@ -24,12 +24,25 @@ const priceTags = [
   { label: '¥400以上', min: 400, max: 1300 }, // 上限与滑块一致
 ]
 
+// 分面数量：价格区间按下限匹配，"2星及以下"合计1、2星，金钻/铂钻暂无数据
+const priceTagCount = (facets, tag) =>
+  facets?.price?.find(bucket => bucket.min === tag.min)?.count
+
+const starOptionCount = (facets, key) => {
+  const counts = facets?.starRating
+  if (!counts) return undefined
+  const stars = key === '2' ? [1, 2] : [Number(key)]
+  const matched = counts.filter(item => stars.includes(item.value))
+  return matched.length ? matched.reduce((sum, item) => sum + item.count, 0) : undefined
+}
+
 export default function PriceStarModal({
   visible,
   onClose,
   onConfirm,
   initialPrice = [0, 1300],
-  initialStars = []
+  initialStars = [],
+  facets = null
 }) {
   const [priceMin, setPriceMin] = useState(initialPrice[0])
   const [priceMax, setPriceMax] = useState(initialPrice[1])
@@ -184,15 +197,19 @@ export default function PriceStarModal({
 
           {/* 新增：快捷价格标签 */}
           <View className='price-tags'>
-            {priceTags.map(tag => (
-              <Text
-                key={tag.label}
-                className={`price-tag ${activePriceTag === tag.label ? 'active' : ''}`}
-                onClick={() => handlePriceTagClick(tag)}
-              >
-                {tag.label}
-              </Text>
-            ))}
+            {priceTags.map(tag => {
+              const count = priceTagCount(facets, tag)
+              return (
+                <Text
+                  key={tag.label}
+                  className={`price-tag ${activePriceTag === tag.label ? 'active' : ''} ${count === 0 ? 'empty' : ''}`}
+                  onClick={() => handlePriceTagClick(tag)}
+                >
+                  {tag.label}
+                  {count !== undefined && <Text className='count'>({count})</Text>}
+                </Text>
+              )
+            })}
           </View>
         </View>
 
@@ -203,16 +220,19 @@ export default function PriceStarModal({
             <Text className='section-link'>国内星级/钻级说明 &gt;</Text>
           </View>
           <View className='star-options'>
-            {starOptions.map(star => (
-              <View
-                key={star.key}
-                className={`star-option ${selectedStars.includes(star.key) ? 'active' : ''}`}
-                onClick={() => handleStarClick(star.key)}
-              >
-                <Text className='label'>{star.label}</Text>
-                <Text className='sub'>{star.sub}</Text>
-              </View>
-            ))}
+            {starOptions.map(star => {
+              const count = starOptionCount(facets, star.key)
+              return (
+                <View
+                  key={star.key}
+                  className={`star-option ${selectedStars.includes(star.key) ? 'active' : ''} ${count === 0 ? 'empty' : ''}`}
+                  onClick={() => handleStarClick(star.key)}
+                >
+                  <Text className='label'>{star.label}</Text>
+                  <Text className='sub'>{count !== undefined ? `${star.sub} · ${count}家` : star.sub}</Text>
+                </View>
+              )
+            })}
           </View>
           <Text className='footnote'>钻级由携程评定，综合考虑酒店设施和服务水平得出，仅供参考</Text>
         </View>
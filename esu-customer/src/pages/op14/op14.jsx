@@ -1,7 +1,7 @@
 import { View, Text, ScrollView } from '@tarojs/components'
 import Taro, { useRouter } from '@tarojs/taro'
 import { useState, useEffect } from 'react'
-import { fetchHotelList } from '../../un/api'
+import { fetchHotelList, fetchHotelFacets } from '../../un/api'
 import HotelCard from '../../components/HotelCard/HotelCard.jsx'
 import HotelSkeleton from '../../components/Skeleton/HotelSkeleton'
 import EmptyState from '../../components/EmptyState/EmptyState'
@@ -22,7 +22,9 @@ export default function Op14() {
   const [loading, setLoading] = useState(false)
   const [hasMore, setHasMore] = useState(true)
   const [page, setPage] = useState(1)
+  const [nextCursor, setNextCursor] = useState(null)
   const [filters, setFilters] = useState({})
+  const [facets, setFacets] = useState(null)
   const [sortType, setSortType] = useState('smart')
   const [showFilterModal, setShowFilterModal] = useState(false)
   const [showSortModal, setShowSortModal] = useState(false)
@@ -74,6 +76,7 @@ export default function Op14() {
         ...filters,
         city: filters.city ? decodeURIComponent(filters.city) : undefined,
         page: pageNum,
+        cursor: pageNum > 1 ? nextCursor : undefined,
         pageSize: 10,
         sort: sortType,
       }
@@ -84,9 +87,10 @@ export default function Op14() {
       const total = result?.total ?? 0
       
       console.log('API返回:', { total, newHotelsLength: newHotels.length, page: pageNum })
-      console.log('hasMore计算:', pageNum * 10, '<', total, '=', pageNum * 10 < total)
-      
-      setHasMore(pageNum * 10 < total)
+
+      // 后续页使用接口返回的游标，没有游标即已到最后一页
+      setNextCursor(result?.nextCursor ?? null)
+      setHasMore(!!result?.nextCursor)
       if (pageNum === 1) {
         setHotels(newHotels)
       } else {
@@ -104,6 +108,18 @@ export default function Op14() {
     loadHotels(1)
   }, [filters, sortType])
 
+  // 分面数量只随筛选条件变化，与排序无关
+  useEffect(() => {
+    let cancelled = false
+    fetchHotelFacets({
+      ...filters,
+      city: filters.city ? decodeURIComponent(filters.city) : undefined,
+    }).then(result => {
+      if (!cancelled) setFacets(result)
+    })
+    return () => { cancelled = true }
+  }, [filters])
+
   const onScrollToLower = () => {
     if (hasMore && !loading) {
       const nextPage = page + 1
@@ -314,6 +330,7 @@ export default function Op14() {
         onConfirm={handlePriceStarConfirm}
         initialPrice={[filters.priceMin || 0, filters.priceMax || 1300]}
         initialStars={filters.stars || []}
+        facets={facets}
       />
 
       <DistanceModal
@@ -328,6 +345,7 @@ export default function Op14() {
         onClose={() => setShowFilterModal(false)}
         onConfirm={handleFilterConfirm}
         initialFilters={filters}
+        facets={facets}
       />
 
       <CalendarModal
@@ -8,8 +8,10 @@ import './op16.scss'
 const statusMap = {
   pending: { text: '待确认', color: '#ff9800', bg: 'rgba(255,152,0,0.1)' },
   confirmed: { text: '已确认', color: '#4caf50', bg: 'rgba(76,175,80,0.1)' },
+  checked_in: { text: '已入住', color: '#2196f3', bg: 'rgba(33,150,243,0.1)' },
   completed: { text: '已完成', color: '#9e9e9e', bg: 'rgba(158,158,158,0.1)' },
-  cancelled: { text: '已取消', color: '#f44336', bg: 'rgba(244,67,54,0.1)' }
+  cancelled: { text: '已取消', color: '#f44336', bg: 'rgba(244,67,54,0.1)' },
+  no_show: { text: '未到店', color: '#9e9e9e', bg: 'rgba(158,158,158,0.1)' }
 }
 
 const statusTabs = [
@@ -76,9 +78,9 @@ export default function Op16() {
       success: async (res) => {
         if (res.confirm) {
           try {
-            await cancelOrder(orderId)
+            const { refundAmount } = await cancelOrder(orderId)
             setOrders(prev => prev.map(order =>
-              order.id === orderId ? { ...order, status: 'cancelled' } : order
+              order.id === orderId ? { ...order, status: 'cancelled', refundAmount } : order
             ))
             Taro.showToast({ title: '取消成功', icon: 'success' })
           } catch (err) {
@@ -157,9 +159,12 @@ export default function Op16() {
                     </View>
                   </View>
                   <Text className='room-type'>{order.roomTypeName}</Text>
-                  <Text className='date'>{formatDate(order.checkIn)} - {formatDate(order.checkOut)} 共{order.nights}晚</Text>
+                  <Text className='date'>{formatDate(order.checkIn)} - {formatDate(order.checkOut)} 共{order.nights}晚 {order.rooms}间</Text>
                   <View className='price-row'>
                     <Text className='total-price'>¥{order.totalPrice}</Text>
+                    {order.status === 'cancelled' && order.refundAmount != null && (
+                      <Text className='refund-amount'>退款 ¥{order.refundAmount}</Text>
+                    )}
                     <View className='actions'>
                       {order.status === 'pending' && (
                         <Text className='action-btn cancel' onClick={() => handleCancel(order.id)}>取消订单</Text>
@@ -84,73 +84,85 @@ export const fetchQuickTags = async () => {
   return []
 }
 
+// 酒店列表和分面统计共用的筛选参数
+const buildHotelQuery = (params = {}) => {
+  const {
+    city, tag, keyword, sort,
+    priceMin, priceMax,
+    maxDistance,
+    stars,
+    facilities,
+    checkIn,
+    checkOut,
+    userLat,
+    userLng,
+  } = params
+
+  const queryParams = new URLSearchParams()
+  
+  if (keyword) {
+    queryParams.append('keyword', keyword)
+  }
+  if (city) {
+    queryParams.append('city', city)
+  }
+  if (tag) {
+    queryParams.append('keyword', tag)
+  }
+  if (checkIn) {
+    queryParams.append('checkIn', checkIn)
+  }
+  if (checkOut) {
+    queryParams.append('checkOut', checkOut)
+  }
+  if (stars && stars.length > 0) {
+    queryParams.append('starRating', String(stars[0]))
+  }
+  if (facilities && facilities.length > 0) {
+    facilities.forEach(f => queryParams.append('facilities', f))
+  }
+  if (priceMin !== undefined) {
+    queryParams.append('priceMin', String(priceMin))
+  }
+  if (priceMax !== undefined) {
+    queryParams.append('priceMax', String(priceMax))
+  }
+  
+  if (userLat !== undefined && userLng !== undefined) {
+    queryParams.append('userLat', String(userLat))
+    queryParams.append('userLng', String(userLng))
+    if (maxDistance) {
+      queryParams.append('radius', String(maxDistance / 1000))
+    }
+  }
+  
+  const sortByMap = {
+    'smart': undefined,
+    'distance_asc': 'distance',
+    'price_asc': 'price',
+    'price_desc': undefined,
+    'score_desc': 'rating',
+    'stars_desc': undefined,
+  }
+  
+  if (sortByMap[sort]) {
+    queryParams.append('sortBy', sortByMap[sort])
+  }
+
+  return queryParams
+}
+
 export const fetchHotelList = async (params = {}) => {
   try {
-    const {
-      city, tag, keyword, sort,
-      priceMin, priceMax,
-      maxDistance,
-      stars,
-      facilities,
-      score,
-      reviewCount,
-      page = 1,
-      pageSize = 10,
-      checkIn,
-      checkOut,
-      userLat,
-      userLng,
-    } = params
+    const { page = 1, pageSize = 10, cursor } = params
+    const queryParams = buildHotelQuery(params)
 
-    const queryParams = new URLSearchParams()
-    
-    if (keyword || city) {
-      queryParams.append('keyword', keyword || city || '')
-    }
-    if (tag) {
-      queryParams.append('keyword', tag)
-    }
-    if (checkIn) {
-      queryParams.append('checkIn', checkIn)
-    }
-    if (checkOut) {
-      queryParams.append('checkOut', checkOut)
-    }
-    if (stars && stars.length > 0) {
-      queryParams.append('starRating', String(stars[0]))
-    }
-    if (facilities && facilities.length > 0) {
-      facilities.forEach(f => queryParams.append('facilities', f))
-    }
-    if (priceMin !== undefined) {
-      queryParams.append('priceMin', String(priceMin))
-    }
-    if (priceMax !== undefined) {
-      queryParams.append('priceMax', String(priceMax))
+    // 有游标时按游标取下一页，翻页期间新上线的酒店不会造成重复或遗漏
+    if (cursor) {
+      queryParams.append('cursor', cursor)
+    } else {
+      queryParams.append('page', String(page))
     }
-    
-    if (userLat !== undefined && userLng !== undefined) {
-      queryParams.append('userLat', String(userLat))
-      queryParams.append('userLng', String(userLng))
-      if (maxDistance) {
-        queryParams.append('radius', String(maxDistance / 1000))
-      }
-    }
-    
-    const sortByMap = {
-      'smart': undefined,
-      'distance_asc': 'distance',
-      'price_asc': 'price',
-      'price_desc': undefined,
-      'score_desc': 'rating',
-      'stars_desc': undefined,
-    }
-    
-    if (sortByMap[sort]) {
-      queryParams.append('sortBy', sortByMap[sort])
-    }
-    
-    queryParams.append('page', String(page))
     queryParams.append('limit', String(pageSize))
 
     const data = await request(`/hotels?${queryParams.toString()}`)
@@ -173,10 +185,33 @@ export const fetchHotelList = async (params = {}) => {
       }
     })
     
-    return { hotels, total: data.total }
+    return { hotels, total: data.total, nextCursor: data.nextCursor ?? null }
   } catch (error) {
     console.error('Failed to fetch hotel list:', error)
-    return { hotels: [], total: 0 }
+    return { hotels: [], total: 0, nextCursor: null }
+  }
+}
+
+// 当前筛选条件下各星级、设施、价格区间的酒店数
+export const fetchHotelFacets = async (params = {}) => {
+  try {
+    const queryParams = buildHotelQuery(params)
+    return await request(`/hotels/facets?${queryParams.toString()}`)
+  } catch (error) {
+    console.error('Failed to fetch hotel facets:', error)
+    return null
+  }
+}
+
+// 房型取消政策的展示文案
+const formatCancellationPolicy = (rt) => {
+  switch (rt.cancellationPolicy) {
+    case 'free_until':
+      return rt.freeCancelDays ? `入住前${rt.freeCancelDays}天可免费取消` : '入住当天前可免费取消'
+    case 'penalty':
+      return `可取消，收取${Math.round((rt.cancelPenaltyRate || 0) * 100)}%违约金`
+    default:
+      return '不可取消'
   }
 }
 
@@ -207,7 +242,7 @@ export const fetchHotelDetail = async (id) => {
         floor: '未知',
         capacity: rt.capacity || 2,
         breakfast: false,
-        cancel: '不可取消',
+        cancel: formatCancellationPolicy(rt),
         img: hotel.images?.[0] || 'https://picsum.photos/200/150',
       })) || [],
     }
@@ -238,7 +273,11 @@ export const fetchOrders = async (params = {}) => {
       checkIn: booking.checkIn,
       checkOut: booking.checkOut,
       nights: Math.ceil((new Date(booking.checkOut) - new Date(booking.checkIn)) / (1000*60*60*24)),
+      rooms: booking.quantity,
+      adults: booking.adults,
+      childs: booking.children,
       totalPrice: booking.totalPrice,
+      refundAmount: booking.refundAmount,
       status: booking.status,
     }))
     
@@ -251,16 +290,34 @@ export const fetchOrders = async (params = {}) => {
 
 export const createOrder = async (orderData) => {
   try {
-    const { hotelId, roomTypeId, checkIn, checkOut, promotionId } = orderData
+    const {
+      hotelId, roomTypeId, checkIn, checkOut, promotionId, rooms = 1, adults = 1, childs = 0,
+      guestName, guestPhone, arrivalTime, specialRequests, idempotencyKey,
+    } = orderData
     
-    const data = { hotelId, roomTypeId, checkIn, checkOut }
+    const data = {
+      hotelId,
+      roomTypeId,
+      checkIn,
+      checkOut,
+      quantity: Number(rooms),
+      adults: Number(adults),
+      children: Number(childs),
+    }
+    // 入住人信息未填写时由后端使用账号信息
+    if (guestName) data.guestName = guestName
+    if (guestPhone) data.guestPhone = guestPhone
+    if (arrivalTime) data.arrivalTime = arrivalTime
+    if (specialRequests) data.specialRequests = specialRequests
     if (promotionId) {
       data.promotionId = promotionId
     }
     
+    // 网络不稳定重试时携带相同的幂等键，避免重复下单
     const newOrder = await request('/bookings', {
       method: 'POST',
       data,
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
     })
     
     return newOrder
@@ -270,12 +327,27 @@ export const createOrder = async (orderData) => {
   }
 }
 
+// 满房时加入候补，有房释放时后端自动为用户保留房间并发送通知
+export const joinWaitlist = async ({ roomTypeId, checkIn, checkOut, rooms = 1, adults = 1, childs = 0 }) => {
+  return request('/waitlist', {
+    method: 'POST',
+    data: {
+      roomTypeId,
+      checkIn,
+      checkOut,
+      quantity: Number(rooms),
+      adults: Number(adults),
+      children: Number(childs),
+    },
+  })
+}
+
 export const cancelOrder = async (orderId) => {
   try {
-    await request(`/bookings/${orderId}/cancel`, {
+    const booking = await request(`/bookings/${orderId}/cancel`, {
       method: 'PUT',
     })
-    return { success: true }
+    return { success: true, refundAmount: booking?.refundAmount }
   } catch (error) {
     console.error('Failed to cancel order:', error)
     return { success: false }
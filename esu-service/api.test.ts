@@ -1,16 +1,21 @@
 import 'dotenv/config';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
 import Fastify from 'fastify';
 import jwt from '@fastify/jwt';
+import multipart from '@fastify/multipart';
 import bcrypt from 'bcryptjs';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { initClient } from '@ts-rest/core';
+import sharp from 'sharp';
 import * as v from 'valibot';
 
 // 导入 ts-rest 契约
-import { contract, HotelWithRelationsSchema, RoomTypeWithDiscountSchema } from 'esu-types';
+import { BookingCreateSchema, contract, HotelWithRelationsSchema, RoomTypeWithDiscountSchema } from 'esu-types';
 
 // 从 Valibot Schema 推断类型
 type HotelWithRelations = v.InferOutput<typeof HotelWithRelationsSchema>;
@@ -19,8 +24,36 @@ type RoomTypeWithDiscount = v.InferOutput<typeof RoomTypeWithDiscountSchema>;
 // 导入真正的路由处理器工厂
 import { createRouter } from './routers/index.js';
 
+// 导入预订过期清理任务
+import { expirePendingBookings } from './utils/booking.js';
+import { offerWaitlistHolds } from './utils/waitlist.js';
+import { buildHotelSearchCondition } from './utils/hotel.js';
+import { backfillBookingCancellationPolicies } from './utils/cancellation.js';
+import { backfillHotelCities } from './utils/city.js';
+import { retryPendingRefunds } from './utils/payment.js';
+import {
+  createMockPaymentProvider,
+  getPaymentProvider,
+  isPaymentConfigured,
+  PaymentProviderError,
+  registerPaymentProvider,
+} from './utils/payment-provider.js';
+
 // 导入数据库 Schema
-import { users, hotels, roomTypes, promotions, bookings, relations } from './schema.js';
+import {
+  users,
+  hotels,
+  roomTypes,
+  roomInventory,
+  promotions,
+  bookings,
+  payments,
+  paymentRefunds,
+  cities,
+  waitlistEntries,
+  idempotencyKeys,
+  relations,
+} from './schema.js';
 
 // =============================================================================
 // 测试配置
@@ -98,12 +131,14 @@ const createTestClient = (fastifyApp: ReturnType<typeof Fastify>) => {
       body: body ? (typeof body === 'string' ? JSON.parse(body) : body) : undefined,
     });
 
-    // 返回 ts-rest 期望的格式
+    // 返回 ts-rest 期望的格式（非 JSON 响应如收据 HTML 按文本返回）
+    const contentType = String(response.headers['content-type'] ?? 'application/json');
+
     return {
       status: response.statusCode,
-      body: JSON.parse(response.body || '{}'),
+      body: contentType.includes('application/json') ? JSON.parse(response.body || '{}') : response.body,
       headers: new Headers({
-        'content-type': 'application/json',
+        'content-type': contentType,
       }),
     };
   };
@@ -138,12 +173,15 @@ const authHeaders = (token: string) => ({
   },
 });
 
+/** 距今天指定天数的日期（YYYY-MM-DD），预订不能早于今天入住，相关测试都使用相对日期 */
+const daysFromToday = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+
 /** 清空数据库 */
 const cleanDatabase = async () => {
   const dbClient = await pool.connect();
   try {
     await dbClient.query(`
-      TRUNCATE TABLE ratings, bookings, promotions, room_types, hotels, users
+      TRUNCATE TABLE idempotency_keys, hotel_moderation_logs, hotel_revisions, notifications, waitlist_entries, ratings, booking_events, booking_modifications, payment_refunds, payments, bookings, promotions, room_inventory, room_types, hotels, districts, cities, users
       RESTART IDENTITY CASCADE
     `);
   } finally {
@@ -274,6 +312,27 @@ const seedTestData = async () => {
   };
 };
 
+/**
+ * 以普通用户身份在测试酒店的默认房型下创建预订，overrides 覆盖请求体中的默认值
+ * 默认入住日期为 10 天后、住 2 晚；创建失败时抛出异常
+ */
+const createBooking = async (overrides: Partial<v.InferInput<typeof BookingCreateSchema>> = {}) => {
+  const created = await client.bookings.create({
+    body: {
+      hotelId: testData.hotel.id,
+      roomTypeId: testData.roomType.id,
+      checkIn: daysFromToday(10),
+      checkOut: daysFromToday(12),
+      promotionId: null,
+      ...overrides,
+    },
+    ...authHeaders(tokens.customer),
+  });
+
+  if (created.status !== 201) throw new Error('Failed to create booking');
+  return created.body;
+};
+
 // =============================================================================
 // 测试生命周期
 // =============================================================================
@@ -282,6 +341,7 @@ beforeAll(async () => {
   // 创建 Fastify 应用
   app = Fastify({ logger: false }); // 测试环境禁用日志
   await app.register(jwt, { secret: JWT_SECRET });
+  await app.register(multipart);
 
   // 注册真正的路由处理器（注入测试数据库）
   const routerPlugin = createRouter(db);
@@ -602,7 +662,7 @@ describe('酒店模块', () => {
       }
     });
 
-    it('更新酒店状态变为pending', async () => {
+    it('商户更新已上线酒店进入待审核修改稿，酒店保持上线', async () => {
       // 管理员审核通过后 商户再更新
       await client.hotels.approve({
         params: { id: String(testData.pendingHotel.id) },
@@ -617,9 +677,30 @@ describe('酒店模块', () => {
         ...authHeaders(tokens.merchant),
       });
 
+      expect(result.status).toBe(202);
+      if (result.status === 202) {
+        expect(result.body.status).toBe('pending');
+        expect(result.body.data.address).toBe('新地址');
+      }
+
+      const hotel = await client.hotels.get({ params: { id: String(testData.pendingHotel.id) } });
+      expect(hotel.status).toBe(200);
+      if (hotel.status === 200) {
+        expect(hotel.body.status).toBe('approved');
+        expect(hotel.body.address).toBe(testData.pendingHotel.address);
+      }
+    });
+
+    it('商户更新未上线酒店直接生效', async () => {
+      const result = await client.hotels.update({
+        params: { id: String(testData.pendingHotel.id) },
+        body: { address: '新地址' },
+        ...authHeaders(tokens.merchant),
+      });
+
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        // 更新后状态应该变回pending
+        expect(result.body.address).toBe('新地址');
         expect(result.body.status).toBe('pending');
       }
     });
@@ -806,6 +887,55 @@ describe('酒店模块', () => {
       }
     });
 
+    it('列表、详情和报价对同一房型同一天给出相同价格', async () => {
+      const today = new Date().toISOString().split('T')[0]!;
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+
+      // 本酒店今日有效的优惠
+      await db.insert(promotions).values({
+        ownerId: testData.merchant.id,
+        hotelId: testData.hotel.id,
+        type: 'direct',
+        value: 30,
+        startDate: today,
+        endDate: today,
+      });
+
+      // 其他酒店的优惠不应影响本酒店
+      await db.insert(promotions).values({
+        ownerId: testData.merchant.id,
+        hotelId: testData.pendingHotel.id,
+        type: 'percentage',
+        value: 0.5,
+        startDate: today,
+        endDate: today,
+      });
+
+      const detail = await client.hotels.get({ params: { id: String(testData.hotel.id) } });
+      const list = await client.hotels.list({ query: {} });
+      const quote = await client.bookings.quote({
+        body: { roomTypeId: testData.roomType.id, checkIn: today, checkOut: tomorrow },
+      });
+
+      expect(detail.status).toBe(200);
+      expect(list.status).toBe(200);
+      expect(quote.status).toBe(200);
+      if (detail.status === 200 && list.status === 200 && quote.status === 200) {
+        const detailRoomTypes = (detail.body as { roomTypes?: RoomTypeWithDiscount[] }).roomTypes;
+        const listRoomTypes = list.body.hotels.find((h: HotelWithRelations) => h.id === testData.hotel.id)?.roomTypes;
+
+        expect(detailRoomTypes?.[0]?.discountedPrice).toBe(369);
+        expect(listRoomTypes?.[0]?.discountedPrice).toBe(369);
+        expect(quote.body.totalPrice).toBe(369);
+
+        // 响应中的 promotions 即参与计价的优惠：只含本酒店今日有效的，不含已过期的和其他酒店的
+        const listPromotions = list.body.hotels.find((h: HotelWithRelations) => h.id === testData.hotel.id)?.promotions;
+        const detailPromotions = (detail.body as HotelWithRelations).promotions;
+        expect(detailPromotions?.map((p) => [p.type, p.value])).toEqual([['direct', 30]]);
+        expect(listPromotions?.map((p) => [p.type, p.value])).toEqual([['direct', 30]]);
+      }
+    });
+
     it('软删除的酒店不返回', async () => {
       // 先软删除酒店
       await db.update(hotels).set({ deletedAt: new Date() }).where(eq(hotels.id, testData.hotel.id));
@@ -1767,6 +1897,29 @@ describe('酒店模块', () => {
       expect(result.status).toBe(200);
     });
 
+    it('入住日期筛选 - 仅排除入住期间有满房日期的酒店', async () => {
+      await db.update(roomTypes).set({ stock: 1 }).where(eq(roomTypes.id, testData.roomType.id));
+      await db.insert(roomInventory).values({ roomTypeId: testData.roomType.id, date: '2025-03-03', reserved: 1 });
+
+      const fullResult = await client.hotels.list({
+        query: { checkIn: '2025-03-01', checkOut: '2025-03-05' },
+      });
+
+      expect(fullResult.status).toBe(200);
+      if (fullResult.status === 200) {
+        expect(fullResult.body.hotels.map((h: HotelWithRelations) => h.id)).not.toContain(testData.hotel.id);
+      }
+
+      const freeResult = await client.hotels.list({
+        query: { checkIn: '2025-03-04', checkOut: '2025-03-06' },
+      });
+
+      expect(freeResult.status).toBe(200);
+      if (freeResult.status === 200) {
+        expect(freeResult.body.hotels.map((h: HotelWithRelations) => h.id)).toContain(testData.hotel.id);
+      }
+    });
+
     it('向后兼容 - 旧版 radius 参数降级到 distance', async () => {
       const result = await client.hotels.list({
         query: {
@@ -1959,6 +2112,26 @@ describe('GET /hotels/:id', () => {
     }
   });
 
+  it('酒店详情返回房型的取消政策', async () => {
+    await db
+      .update(roomTypes)
+      .set({ cancellationPolicy: 'penalty', cancelPenaltyRate: 0.2 })
+      .where(eq(roomTypes.id, testData.roomType.id));
+
+    const result = await client.hotels.get({
+      params: { id: String(testData.hotel.id) },
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect((result.body as HotelWithRelations).roomTypes?.[0]).toMatchObject({
+        cancellationPolicy: 'penalty',
+        freeCancelDays: null,
+        cancelPenaltyRate: 0.2,
+      });
+    }
+  });
+
   it('酒店不存在返回404', async () => {
     const result = await client.hotels.get({
       params: { id: '9999' },
@@ -1976,169 +2149,620 @@ describe('PUT /hotels/:id', () => {
       ...authHeaders(tokens.merchant),
     });
 
-    expect(result.status).toBe(200);
-    if (result.status === 200) {
-      expect(result.body.nameZh).toBe('更新后的酒店');
+    expect(result.status).toBe(202);
+    if (result.status === 202) {
+      expect(result.body.data.nameZh).toBe('更新后的酒店');
     }
   });
 });
 
-describe('POST /hotels/:id/approve', () => {
-  it('管理员审核通过', async () => {
+describe('酒店状态迁移', () => {
+  it('审核未通过的酒店不能直接审核通过', async () => {
+    await client.hotels.reject({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { rejectReason: '信息不完整' },
+      ...authHeaders(tokens.admin),
+    });
+
     const result = await client.hotels.approve({
       params: { id: String(testData.pendingHotel.id) },
       body: {},
       ...authHeaders(tokens.admin),
     });
 
+    expect(result.status).toBe(409);
+  });
+
+  it('商户修改审核未通过的酒店后重新进入待审核', async () => {
+    await client.hotels.reject({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { rejectReason: '信息不完整' },
+      ...authHeaders(tokens.admin),
+    });
+
+    const result = await client.hotels.update({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { address: '补充后的地址' },
+      ...authHeaders(tokens.merchant),
+    });
+
     expect(result.status).toBe(200);
     if (result.status === 200) {
-      expect(result.body.status).toBe('approved');
+      expect(result.body.status).toBe('pending');
     }
   });
 
-  it('商户无权限', async () => {
+  it('未审核的酒店不能恢复上线', async () => {
+    const result = await client.hotels.online({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(409);
+  });
+
+  it('未上线的酒店不能下线', async () => {
+    const result = await client.hotels.offline({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(409);
+  });
+
+  it('已删除的酒店不能审核通过', async () => {
+    await client.hotels.delete({
+      params: { id: String(testData.pendingHotel.id) },
+      ...authHeaders(tokens.admin),
+    });
+
     const result = await client.hotels.approve({
       params: { id: String(testData.pendingHotel.id) },
       body: {},
-      ...authHeaders(tokens.merchant),
+      ...authHeaders(tokens.admin),
     });
 
-    expect(result.status).toBe(403);
+    expect(result.status).toBe(409);
+  });
+
+  it('管理员不能通过编辑直接修改酒店状态', async () => {
+    const result = await client.hotels.update({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { status: 'approved' },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(409);
+
+    const hotel = await db.query.hotels.findFirst({ where: { id: { eq: testData.pendingHotel.id } } });
+    expect(hotel?.status).toBe('pending');
   });
 });
 
-describe('PUT /hotels/:id/reject', () => {
-  it('管理员审核拒绝', async () => {
-    const result = await client.hotels.reject({
+describe('GET /hotels/:id/moderation-log', () => {
+  it('记录审核操作的操作人、原因和状态变化', async () => {
+    await client.hotels.reject({
       params: { id: String(testData.pendingHotel.id) },
       body: { rejectReason: '信息不完整' },
       ...authHeaders(tokens.admin),
     });
+    await client.hotels.update({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { address: '补充后的地址' },
+      ...authHeaders(tokens.merchant),
+    });
+    await client.hotels.approve({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+    await client.hotels.offline({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { reason: '投诉核查' },
+      ...authHeaders(tokens.admin),
+    });
+    await client.hotels.online({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    const result = await client.hotels.moderationLog({
+      params: { id: String(testData.pendingHotel.id) },
+      ...authHeaders(tokens.merchant),
+    });
 
     expect(result.status).toBe(200);
     if (result.status === 200) {
-      expect(result.body.status).toBe('rejected');
+      expect(result.body.map((log) => [log.action, log.fromStatus, log.toStatus, log.reason])).toEqual([
+        ['reject', 'pending', 'rejected', '信息不完整'],
+        ['approve', 'pending', 'approved', null],
+        ['offline', 'approved', 'offline', '投诉核查'],
+        ['online', 'offline', 'approved', null],
+      ]);
+      expect(result.body[0]?.actor?.username).toBe(testData.admin.username);
     }
   });
-});
 
-describe('PUT /hotels/:id/offline', () => {
-  it('管理员下线酒店', async () => {
-    const result = await client.hotels.offline({
+  it('审核修改稿时记录修改稿ID', async () => {
+    const draft = await client.hotels.update({
+      params: { id: String(testData.hotel.id) },
+      body: { nameZh: '草稿酒店名' },
+      ...authHeaders(tokens.merchant),
+    });
+    await client.hotels.reject({
+      params: { id: String(testData.hotel.id) },
+      body: { rejectReason: '名称不合规' },
+      ...authHeaders(tokens.admin),
+    });
+
+    const result = await client.hotels.moderationLog({
       params: { id: String(testData.hotel.id) },
-      body: {},
       ...authHeaders(tokens.admin),
     });
 
     expect(result.status).toBe(200);
-    if (result.status === 200) {
-      expect(result.body.status).toBe('offline');
+    if (result.status === 200 && draft.status === 202) {
+      expect(result.body).toHaveLength(1);
+      expect(result.body[0]?.action).toBe('reject');
+      expect(result.body[0]?.toStatus).toBe('approved');
+      expect(result.body[0]?.revisionId).toBe(draft.body.id);
     }
   });
-});
 
-describe('PUT /hotels/:id/online', () => {
-  it('管理员恢复上线', async () => {
-    await db.update(hotels).set({ status: 'offline' }).where(eq(hotels.id, testData.hotel.id));
+  it('管理员可以查看已删除酒店的审核记录', async () => {
+    await client.hotels.delete({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(tokens.admin),
+    });
 
-    const result = await client.hotels.online({
+    const result = await client.hotels.moderationLog({
       params: { id: String(testData.hotel.id) },
-      body: {},
       ...authHeaders(tokens.admin),
     });
 
     expect(result.status).toBe(200);
     if (result.status === 200) {
-      expect(result.body.status).toBe('approved');
+      expect(result.body.map((log) => log.action)).toEqual(['delete']);
     }
   });
+
+  it('商户不能查看其他商户酒店的审核记录', async () => {
+    const [otherMerchant] = await db
+      .insert(users)
+      .values({
+        username: 'othermerchant',
+        password: await bcrypt.hash('password123', 10),
+        role: 'merchant',
+      })
+      .returning();
+
+    if (!otherMerchant) throw new Error('Failed to create otherMerchant');
+
+    const result = await client.hotels.moderationLog({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(createToken(otherMerchant.id, 'merchant')),
+    });
+
+    expect(result.status).toBe(403);
+  });
 });
 
-describe('GET /hotels/admin', () => {
-  it('管理员查看所有酒店', async () => {
-    const result = await client.hotels.adminList({
-      ...authHeaders(tokens.admin),
+describe('酒店修改稿', () => {
+  const submitDraft = (body: { nameZh?: string; address?: string; tags?: string[] }) =>
+    client.hotels.update({
+      params: { id: String(testData.hotel.id) },
+      body,
+      ...authHeaders(tokens.merchant),
     });
 
+  it('修改稿审核前线上版本仍出现在酒店列表中', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    const result = await client.hotels.list({ query: {} });
+
     expect(result.status).toBe(200);
+    if (result.status === 200) {
+      const names = result.body.hotels.map((h) => h.nameZh);
+      expect(names).toContain(testData.hotel.nameZh);
+      expect(names).not.toContain('草稿酒店名');
+    }
   });
 
-  it('商户无权限', async () => {
-    const result = await client.hotels.adminList({
+  it('多次修改合并到同一份修改稿', async () => {
+    const first = await submitDraft({ nameZh: '草稿酒店名' });
+    const second = await submitDraft({ address: '草稿地址' });
+
+    expect(first.status).toBe(202);
+    expect(second.status).toBe(202);
+    if (first.status === 202 && second.status === 202) {
+      expect(second.body.id).toBe(first.body.id);
+      expect(second.body.data.nameZh).toBe('草稿酒店名');
+      expect(second.body.data.address).toBe('草稿地址');
+      expect(second.body.data.starRating).toBe(testData.hotel.starRating);
+    }
+
+    const draft = await client.hotels.draft({
+      params: { id: String(testData.hotel.id) },
       ...authHeaders(tokens.merchant),
     });
 
-    expect(result.status).toBe(403);
+    expect(draft.status).toBe(200);
+    if (draft.status === 200) {
+      expect(draft.body.data.address).toBe('草稿地址');
+    }
   });
-});
 
-describe('GET /hotels/merchant', () => {
-  it('商户查看自己的酒店', async () => {
-    const result = await client.hotels.merchantList({
+  it('没有修改稿时返回404', async () => {
+    const result = await client.hotels.draft({
+      params: { id: String(testData.hotel.id) },
       ...authHeaders(tokens.merchant),
     });
 
+    expect(result.status).toBe(404);
+  });
+
+  it('有修改稿的酒店出现在待审核列表中', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    const result = await client.hotels.adminList({
+      query: { status: 'pending' },
+      ...authHeaders(tokens.admin),
+    });
+
     expect(result.status).toBe(200);
+    if (result.status === 200) {
+      const ids = result.body.hotels.map((h) => h.id);
+      expect(ids).toContain(testData.hotel.id);
+      expect(ids).toContain(testData.pendingHotel.id);
+    }
   });
-});
 
-describe('DELETE /hotels/:id', () => {
-  it('管理员软删除酒店', async () => {
-    const result = await client.hotels.delete({
+  it('审核通过后修改稿发布到线上', async () => {
+    await submitDraft({ nameZh: '草稿酒店名', tags: ['新标签'] });
+
+    const result = await client.hotels.approve({
       params: { id: String(testData.hotel.id) },
+      body: {},
       ...authHeaders(tokens.admin),
     });
 
     expect(result.status).toBe(200);
     if (result.status === 200) {
-      expect(result.body.message).toBe('Deleted');
+      expect(result.body.nameZh).toBe('草稿酒店名');
+      expect(result.body.tags).toEqual(['新标签']);
+      expect(result.body.status).toBe('approved');
     }
+
+    const revisions = await db.query.hotelRevisions.findMany({ where: { hotelId: { eq: testData.hotel.id } } });
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]?.status).toBe('approved');
+    expect(revisions[0]?.reviewerId).toBe(testData.admin.id);
   });
-});
 
-// =============================================================================
-// 房型模块测试
-// =============================================================================
+  it('审核通过只发布商户修改的字段，保留修改稿创建后线上版本的其他修改', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
 
-describe('房型模块', () => {
-  describe('POST /room-types', () => {
-    it('创建房型', async () => {
-      const result = await client.roomTypes.create({
-        body: {
-          hotelId: testData.hotel.id,
-          name: '豪华间',
-          price: 599.0,
-          stock: 5,
-          capacity: null,
-          description: null,
-        },
-        ...authHeaders(tokens.merchant),
-      });
+    const adminEdit = await client.hotels.update({
+      params: { id: String(testData.hotel.id) },
+      body: { tags: ['管理员标签'] },
+      ...authHeaders(tokens.admin),
+    });
+    expect(adminEdit.status).toBe(200);
 
-      expect(result.status).toBe(201);
-      if (result.status === 201) {
-        expect(result.body.name).toBe('豪华间');
-      }
+    const draft = await client.hotels.draft({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(tokens.merchant),
     });
 
-    it('创建房型时酒店不存在返回404', async () => {
-      const result = await client.roomTypes.create({
-        body: {
-          hotelId: 99999,
-          name: '测试房型',
-          price: 399.0,
-          stock: 5,
-          capacity: null,
-          description: null,
-        },
-        ...authHeaders(tokens.merchant),
-      });
+    expect(draft.status).toBe(200);
+    if (draft.status === 200) {
+      expect(draft.body.data.nameZh).toBe('草稿酒店名');
+      expect(draft.body.data.tags).toEqual(['管理员标签']);
+    }
 
-      expect(result.status).toBe(404);
+    const result = await client.hotels.approve({
+      params: { id: String(testData.hotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
     });
 
-    it('创建房型时必填字段缺失返回400', async () => {
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.nameZh).toBe('草稿酒店名');
+      expect(result.body.tags).toEqual(['管理员标签']);
+    }
+  });
+
+  it('修改稿创建后线上版本修改了同一字段时审核通过返回409，线上版本和修改稿保持不变', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    await client.hotels.update({
+      params: { id: String(testData.hotel.id) },
+      body: { nameZh: '管理员修改的名称' },
+      ...authHeaders(tokens.admin),
+    });
+
+    const result = await client.hotels.approve({
+      params: { id: String(testData.hotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(409);
+
+    const hotel = await db.query.hotels.findFirst({ where: { id: { eq: testData.hotel.id } } });
+    expect(hotel?.nameZh).toBe('管理员修改的名称');
+
+    const revision = await db.query.hotelRevisions.findFirst({ where: { hotelId: { eq: testData.hotel.id } } });
+    expect(revision?.status).toBe('pending');
+  });
+
+  it('驳回修改稿后线上版本保持不变', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    const result = await client.hotels.reject({
+      params: { id: String(testData.hotel.id) },
+      body: { rejectReason: '名称不合规' },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.nameZh).toBe(testData.hotel.nameZh);
+      expect(result.body.status).toBe('approved');
+    }
+
+    const revision = await db.query.hotelRevisions.findFirst({ where: { hotelId: { eq: testData.hotel.id } } });
+    expect(revision?.status).toBe('rejected');
+    expect(revision?.reviewNote).toBe('名称不合规');
+  });
+
+  it('审核对比返回修改稿与线上版本及变更字段', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    const result = await client.hotels.compareRevision({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.submitted?.data.nameZh).toBe('草稿酒店名');
+      expect(result.body.approved?.data.nameZh).toBe(testData.hotel.nameZh);
+      expect(result.body.changedFields).toEqual(['nameZh']);
+    }
+  });
+
+  it('审核对比包含审核通过后的房型变化', async () => {
+    await submitDraft({ address: '草稿地址' });
+    await client.hotels.approve({
+      params: { id: String(testData.hotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    await db.update(roomTypes).set({ price: 499 }).where(eq(roomTypes.id, testData.roomType.id));
+    await submitDraft({ tags: ['新标签'] });
+
+    const result = await client.hotels.compareRevision({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.approved?.data.address).toBe('草稿地址');
+      expect(result.body.approved?.roomTypes[0]?.price).toBe(399);
+      expect(result.body.submitted?.roomTypes[0]?.price).toBe(499);
+      expect(result.body.changedFields).toEqual(['tags', 'roomTypes']);
+    }
+  });
+
+  it('从未通过审核的酒店对比时没有审核通过的版本', async () => {
+    const result = await client.hotels.compareRevision({
+      params: { id: String(testData.pendingHotel.id) },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.approved).toBeNull();
+      expect(result.body.submitted?.revisionId).toBeNull();
+      expect(result.body.changedFields).toContain('nameZh');
+    }
+  });
+
+  it('管理员列表标记有待审核修改稿的酒店', async () => {
+    await submitDraft({ nameZh: '草稿酒店名' });
+
+    const result = await client.hotels.adminList({ query: {}, ...authHeaders(tokens.admin) });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      const hotel = result.body.hotels.find((h) => h.id === testData.hotel.id);
+      const pendingHotel = result.body.hotels.find((h) => h.id === testData.pendingHotel.id);
+      expect(hotel?.hasPendingRevision).toBe(true);
+      expect(pendingHotel?.hasPendingRevision).toBe(false);
+    }
+  });
+});
+
+describe('POST /hotels/:id/approve', () => {
+  it('管理员审核通过', async () => {
+    const result = await client.hotels.approve({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.status).toBe('approved');
+    }
+  });
+
+  it('商户无权限', async () => {
+    const result = await client.hotels.approve({
+      params: { id: String(testData.pendingHotel.id) },
+      body: {},
+      ...authHeaders(tokens.merchant),
+    });
+
+    expect(result.status).toBe(403);
+  });
+});
+
+describe('PUT /hotels/:id/reject', () => {
+  it('管理员审核拒绝', async () => {
+    const result = await client.hotels.reject({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { rejectReason: '信息不完整' },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.status).toBe('rejected');
+    }
+  });
+});
+
+describe('PUT /hotels/:id/offline', () => {
+  it('管理员下线酒店', async () => {
+    const result = await client.hotels.offline({
+      params: { id: String(testData.hotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.status).toBe('offline');
+    }
+  });
+});
+
+describe('PUT /hotels/:id/online', () => {
+  it('管理员恢复上线', async () => {
+    await db.update(hotels).set({ status: 'offline' }).where(eq(hotels.id, testData.hotel.id));
+
+    const result = await client.hotels.online({
+      params: { id: String(testData.hotel.id) },
+      body: {},
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.status).toBe('approved');
+    }
+  });
+});
+
+describe('GET /hotels/admin', () => {
+  it('管理员查看所有酒店', async () => {
+    const result = await client.hotels.adminList({
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+  });
+
+  it('商户无权限', async () => {
+    const result = await client.hotels.adminList({
+      ...authHeaders(tokens.merchant),
+    });
+
+    expect(result.status).toBe(403);
+  });
+});
+
+describe('GET /hotels/merchant', () => {
+  it('商户查看自己的酒店', async () => {
+    const result = await client.hotels.merchantList({
+      ...authHeaders(tokens.merchant),
+    });
+
+    expect(result.status).toBe(200);
+  });
+});
+
+describe('DELETE /hotels/:id', () => {
+  it('管理员软删除酒店', async () => {
+    const result = await client.hotels.delete({
+      params: { id: String(testData.hotel.id) },
+      ...authHeaders(tokens.admin),
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.message).toBe('Deleted');
+    }
+  });
+});
+
+// =============================================================================
+// 房型模块测试
+// =============================================================================
+
+describe('房型模块', () => {
+  describe('POST /room-types', () => {
+    it('创建房型', async () => {
+      const result = await client.roomTypes.create({
+        body: {
+          hotelId: testData.hotel.id,
+          name: '豪华间',
+          price: 599.0,
+          stock: 5,
+          capacity: null,
+          description: null,
+        },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.name).toBe('豪华间');
+      }
+    });
+
+    it('创建按比例收取违约金的房型时未设置比例返回400', async () => {
+      const result = await client.roomTypes.create({
+        body: {
+          hotelId: testData.hotel.id,
+          name: '特价间',
+          price: 299.0,
+          stock: 5,
+          capacity: null,
+          description: null,
+          cancellationPolicy: 'penalty',
+        },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('创建房型时酒店不存在返回404', async () => {
+      const result = await client.roomTypes.create({
+        body: {
+          hotelId: 99999,
+          name: '测试房型',
+          price: 399.0,
+          stock: 5,
+          capacity: null,
+          description: null,
+        },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(404);
+    });
+
+    it('创建房型时必填字段缺失返回400', async () => {
       const result = await client.roomTypes.create({
         body: {
           hotelId: testData.hotel.id,
@@ -2517,14 +3141,21 @@ describe('优惠模块', () => {
 // =============================================================================
 
 describe('预订模块', () => {
+  /** 将种子数据中的优惠（85折）改为从今天起生效，到指定天数后结束 */
+  const activatePromotionUntil = (days: number) =>
+    db
+      .update(promotions)
+      .set({ startDate: daysFromToday(0), endDate: daysFromToday(days) })
+      .where(eq(promotions.id, testData.promotion.id));
+
   describe('POST /bookings', () => {
     it('用户创建预订', async () => {
       const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2541,8 +3172,8 @@ describe('预订模块', () => {
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: 99999,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2556,8 +3187,8 @@ describe('预订模块', () => {
         body: {
           hotelId: 99999,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2566,21 +3197,67 @@ describe('预订模块', () => {
       expect(result.status).toBe(400);
     });
 
-    it('创建预订时酒店未审核返回400', async () => {
-      // 创建一个待审核的酒店和房型
-      const [pendingHotel] = await db
+    it('房型不属于所选酒店时返回400', async () => {
+      const [otherHotel] = await db
         .insert(hotels)
         .values({
-          nameZh: '待审核酒店2',
+          nameZh: '其他酒店',
           ownerId: testData.merchant.id,
-          address: '待审核地址',
-          starRating: 4,
+          address: '北京市其他路1号',
+          starRating: 3,
           openingDate: '2023-01-01',
-          status: 'pending',
+          status: 'approved',
         })
         .returning();
 
-      if (!pendingHotel) throw new Error('Failed to create pendingHotel');
+      if (!otherHotel) throw new Error('Failed to create otherHotel');
+
+      const result = await client.bookings.create({
+        body: {
+          hotelId: otherHotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+      expect(await db.query.bookings.findMany({ where: { hotelId: { eq: otherHotel.id } } })).toHaveLength(0);
+    });
+
+    it('入住日期早于今天返回400', async () => {
+      const result = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(-1),
+          checkOut: daysFromToday(1),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+      expect(result.body).toMatchObject({ message: '入住日期不能早于今天' });
+    });
+
+    it('创建预订时酒店未审核返回400', async () => {
+      // 创建一个待审核的酒店和房型
+      const [pendingHotel] = await db
+        .insert(hotels)
+        .values({
+          nameZh: '待审核酒店2',
+          ownerId: testData.merchant.id,
+          address: '待审核地址',
+          starRating: 4,
+          openingDate: '2023-01-01',
+          status: 'pending',
+        })
+        .returning();
+
+      if (!pendingHotel) throw new Error('Failed to create pendingHotel');
 
       const [pendingRoomType] = await db
         .insert(roomTypes)
@@ -2598,8 +3275,8 @@ describe('预订模块', () => {
         body: {
           hotelId: pendingHotel.id,
           roomTypeId: pendingRoomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2613,8 +3290,8 @@ describe('预订模块', () => {
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-03',
-          checkOut: '2024-07-01', // 退房早于入住
+          checkIn: daysFromToday(32),
+          checkOut: daysFromToday(30), // 退房早于入住
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2628,8 +3305,8 @@ describe('预订模块', () => {
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-01', // 退房等于入住
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(30), // 退房等于入住
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2645,8 +3322,8 @@ describe('预订模块', () => {
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2655,15 +3332,13 @@ describe('预订模块', () => {
       expect(result.status).toBe(400);
     });
 
-    it('创建预订后库存减1', async () => {
-      const originalStock = testData.roomType.stock;
-
+    it('创建预订后按晚占用库存', async () => {
       const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-08-01',
-          checkOut: '2024-08-03',
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2671,11 +3346,51 @@ describe('预订模块', () => {
 
       expect(result.status).toBe(201);
 
-      // 验证库存已减少
+      // 验证入住的每一晚各占用1间，房型总库存不变
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+        orderBy: { date: 'asc' },
+      });
+      expect(inventory.map((i) => [i.date, i.reserved])).toEqual([
+        [daysFromToday(30), 1],
+        [daysFromToday(31), 1],
+      ]);
+
       const updatedRoomType = await db.query.roomTypes.findFirst({
         where: { id: { eq: testData.roomType.id } },
       });
-      expect(updatedRoomType?.stock).toBe(originalStock - 1);
+      expect(updatedRoomType?.stock).toBe(testData.roomType.stock);
+    });
+
+    it('某晚满房时返回400，其他日期仍可预订', async () => {
+      await db.update(roomTypes).set({ stock: 1 }).where(eq(roomTypes.id, testData.roomType.id));
+      await db.insert(roomInventory).values({ roomTypeId: testData.roomType.id, date: daysFromToday(31), reserved: 1 });
+
+      const overlapping = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(overlapping.status).toBe(400);
+
+      const other = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(42),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(other.status).toBe(201);
     });
 
     it('创建预订时正确计算总价（天数*单价）', async () => {
@@ -2683,8 +3398,8 @@ describe('预订模块', () => {
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-09-01',
-          checkOut: '2024-09-04', // 3晚
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(43), // 3晚，不在优惠期内
           promotionId: null,
         },
         ...authHeaders(tokens.customer),
@@ -2694,727 +3409,3557 @@ describe('预订模块', () => {
       if (result.status === 201) {
         // testData.roomType.price = 399, 3晚 = 399 * 3 = 1197
         expect(result.body.totalPrice).toBe(399 * 3);
+        expect(result.body.promotionId).toBeNull();
       }
     });
 
-    it('未登录用户创建预订返回401', async () => {
+    it('创建预订时在优惠期内应用优惠并记录优惠ID', async () => {
+      await activatePromotionUntil(60);
+
       const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(43), // 3晚，85折
           promotionId: null,
         },
+        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(401);
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.totalPrice).toBe(1017.45); // 399 * 0.85 = 339.15，3晚
+        expect(result.body.promotionId).toBe(testData.promotion.id);
+      }
     });
 
-    it('商户创建预订返回403', async () => {
+    it('预订多间房时按间数占用库存并计价，取消后释放', async () => {
+      await db.update(roomTypes).set({ capacity: 2 }).where(eq(roomTypes.id, testData.roomType.id));
+
       const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(42),
+          quantity: 2,
+          adults: 3,
+          children: 1,
           promotionId: null,
         },
-        ...authHeaders(tokens.merchant),
+        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(403);
+      expect(result.status).toBe(201);
+      if (result.status !== 201) return;
+
+      expect(result.body).toMatchObject({ quantity: 2, adults: 3, children: 1, totalPrice: 399 * 2 * 2 });
+
+      const reserved = async () =>
+        (
+          await db.query.roomInventory.findMany({
+            where: { roomTypeId: { eq: testData.roomType.id } },
+            orderBy: { date: 'asc' },
+          })
+        ).map((i) => [i.date, i.reserved]);
+
+      expect(await reserved()).toEqual([
+        [daysFromToday(40), 2],
+        [daysFromToday(41), 2],
+      ]);
+
+      const cancelled = await client.bookings.cancel({
+        params: { id: String(result.body.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(cancelled.status).toBe(200);
+      expect(await reserved()).toEqual([
+        [daysFromToday(40), 0],
+        [daysFromToday(41), 0],
+      ]);
     });
 
-    it('管理员创建预订返回403', async () => {
+    it('入住人数超过房型容纳人数时返回400', async () => {
       const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
           roomTypeId: testData.roomType.id,
-          checkIn: '2024-07-01',
-          checkOut: '2024-07-03',
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(42),
+          quantity: 1,
+          adults: 2,
           promotionId: null,
         },
-        ...authHeaders(tokens.admin),
+        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(403);
+      expect(result.status).toBe(400);
     });
-  });
 
-  describe('GET /bookings', () => {
-    it('用户查看自己的预订', async () => {
-      const result = await client.bookings.list({
+    it('成人数少于房间数时返回400', async () => {
+      const result = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(42),
+          quantity: 2,
+          adults: 1,
+          promotionId: null,
+        },
         ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(200);
+      expect(result.status).toBe(400);
     });
-  });
 
-  describe('GET /bookings/admin', () => {
-    it('管理员查看所有预订', async () => {
-      const result = await client.bookings.adminList({
-        ...authHeaders(tokens.admin),
+    it('剩余房间少于预订间数时返回400', async () => {
+      await db.update(roomTypes).set({ stock: 2 }).where(eq(roomTypes.id, testData.roomType.id));
+      await db.insert(roomInventory).values({ roomTypeId: testData.roomType.id, date: daysFromToday(41), reserved: 1 });
+
+      const result = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(40),
+          checkOut: daysFromToday(42),
+          quantity: 2,
+          adults: 2,
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(200);
+      expect(result.status).toBe(400);
     });
-  });
 
-  describe('GET /bookings/merchant', () => {
-    it('商户查看自己酒店的预订', async () => {
-      const result = await client.bookings.merchantList({
-        ...authHeaders(tokens.merchant),
-      });
+    it('并发预订最后一间房时只有一个成功，库存不会超卖', async () => {
+      await db.update(roomTypes).set({ stock: 1 }).where(eq(roomTypes.id, testData.roomType.id));
 
-      expect(result.status).toBe(200);
-    });
-  });
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          client.bookings.create({
+            body: {
+              hotelId: testData.hotel.id,
+              roomTypeId: testData.roomType.id,
+              checkIn: daysFromToday(30),
+              checkOut: daysFromToday(32),
+              promotionId: null,
+            },
+            ...authHeaders(tokens.customer),
+          }),
+        ),
+      );
 
-  describe('GET /bookings/:id', () => {
-    it('用户查看自己的预订详情', async () => {
-      const result = await client.bookings.get({
-        params: { id: String(testData.booking.id) },
-        ...authHeaders(tokens.customer),
+      expect(results.filter((r) => r.status === 201)).toHaveLength(1);
+      expect(results.filter((r) => r.status === 400)).toHaveLength(4);
+
+      const created = await db.query.bookings.findMany({
+        where: { checkIn: { eq: daysFromToday(30) } },
       });
+      expect(created).toHaveLength(1);
 
-      expect(result.status).toBe(200);
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+        orderBy: { date: 'asc' },
+      });
+      expect(inventory.map((i) => [i.date, i.reserved])).toEqual([
+        [daysFromToday(30), 1],
+        [daysFromToday(31), 1],
+      ]);
     });
-  });
 
-  describe('PUT /bookings/:id/confirm', () => {
-    it('商户确认预订', async () => {
-      const result = await client.bookings.confirm({
-        params: { id: String(testData.booking.id) },
-        body: {},
-        ...authHeaders(tokens.merchant),
-      });
+    it('并发修改预订（交换房型）与新建预订时不会死锁，库存与预订一致', async () => {
+      const checkIn = daysFromToday(30);
+      const secondNight = daysFromToday(31);
+      const checkOut = daysFromToday(32);
+      const [suite] = await db
+        .insert(roomTypes)
+        .values({ hotelId: testData.hotel.id, name: '套房', price: 899, stock: 10 })
+        .returning();
 
-      expect(result.status).toBe(200);
-      if (result.status === 200) {
-        expect(result.body.status).toBe('confirmed');
+      if (!suite) throw new Error('Failed to create suite');
+
+      const create = (roomTypeId: number) =>
+        client.bookings.create({
+          body: {
+            hotelId: testData.hotel.id,
+            roomTypeId,
+            checkIn,
+            checkOut,
+            promotionId: null,
+          },
+          ...authHeaders(tokens.customer),
+        });
+      const modify = (bookingId: number, roomTypeId: number) =>
+        client.bookings.modify({
+          params: { id: String(bookingId) },
+          body: { roomTypeId, checkIn, checkOut },
+          ...authHeaders(tokens.customer),
+        });
+
+      const first = await create(testData.roomType.id);
+      const second = await create(suite.id);
+
+      if (first.status !== 201 || second.status !== 201) throw new Error('Failed to create booking');
+
+      const results = await Promise.all([
+        modify(first.body.id, suite.id),
+        modify(second.body.id, testData.roomType.id),
+        create(testData.roomType.id),
+        create(suite.id),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual([200, 200, 201, 201]);
+
+      for (const roomTypeId of [testData.roomType.id, suite.id]) {
+        const active = await db.query.bookings.findMany({
+          where: { roomTypeId: { eq: roomTypeId }, checkIn: { eq: checkIn } },
+        });
+        const inventory = await db.query.roomInventory.findMany({
+          where: { roomTypeId: { eq: roomTypeId } },
+          orderBy: { date: 'asc' },
+        });
+
+        expect(active).toHaveLength(2);
+        expect(inventory.map((i) => [i.date, i.reserved])).toEqual([
+          [checkIn, 2],
+          [secondNight, 2],
+        ]);
       }
     });
 
-    it('非pending状态返回400', async () => {
-      await db.update(bookings).set({ status: 'confirmed' }).where(eq(bookings.id, testData.booking.id));
+    it('相同幂等键重复提交返回首次响应，不重复创建预订', async () => {
+      const request = {
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        extraHeaders: { ...authHeaders(tokens.customer).extraHeaders, 'Idempotency-Key': 'retry-1' },
+      };
 
-      const result = await client.bookings.confirm({
-        params: { id: String(testData.booking.id) },
-        body: {},
-        ...authHeaders(tokens.merchant),
-      });
+      const first = await client.bookings.create(request);
+      const second = await client.bookings.create(request);
 
-      expect(result.status).toBe(400);
-    });
-  });
+      expect(first.status).toBe(201);
+      expect(second.status).toBe(201);
+      if (first.status === 201 && second.status === 201) {
+        expect(second.body.id).toBe(first.body.id);
+        expect(second.body.totalPrice).toBe(first.body.totalPrice);
+      }
 
-  describe('PUT /bookings/:id/cancel', () => {
-    it('用户取消预订', async () => {
-      const result = await client.bookings.cancel({
-        params: { id: String(testData.booking.id) },
-        body: {},
-        ...authHeaders(tokens.customer),
+      const created = await db.query.bookings.findMany({
+        where: { checkIn: { eq: daysFromToday(30) } },
       });
+      expect(created).toHaveLength(1);
 
-      expect(result.status).toBe(200);
-      if (result.status === 200) {
-        expect(result.body.status).toBe('cancelled');
-      }
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+      });
+      expect(inventory.map((i) => i.reserved)).toEqual([1, 1]);
     });
-  });
 
-  describe('DELETE /bookings/:id', () => {
-    it('管理员删除预订', async () => {
-      const result = await client.bookings.delete({
-        params: { id: String(testData.booking.id) },
-        ...authHeaders(tokens.admin),
-      });
+    it('相同幂等键用于不同请求体时返回400', async () => {
+      const extraHeaders = { ...authHeaders(tokens.customer).extraHeaders, 'Idempotency-Key': 'retry-2' };
+      const body = {
+        hotelId: testData.hotel.id,
+        roomTypeId: testData.roomType.id,
+        checkIn: daysFromToday(30),
+        checkOut: daysFromToday(32),
+        promotionId: null,
+      };
 
-      expect(result.status).toBe(200);
+      const first = await client.bookings.create({ body, extraHeaders });
+      const second = await client.bookings.create({ body: { ...body, checkOut: daysFromToday(33) }, extraHeaders });
+
+      expect(first.status).toBe(201);
+      expect(second.status).toBe(400);
     });
-  });
-});
 
-// =============================================================================
-// 评分模块测试
-// =============================================================================
+    it('处理中的幂等键在租约内返回409，超过租约视为已放弃并重新执行', async () => {
+      const extraHeaders = { ...authHeaders(tokens.customer).extraHeaders, 'Idempotency-Key': 'retry-3' };
+      const body = {
+        hotelId: testData.hotel.id,
+        roomTypeId: testData.roomType.id,
+        checkIn: daysFromToday(30),
+        checkOut: daysFromToday(32),
+        promotionId: null,
+      };
+      const first = await client.bookings.create({ body, extraHeaders });
+      expect(first.status).toBe(201);
 
-describe('评分模块', () => {
-  describe('POST /ratings', () => {
-    it('用户创建评分', async () => {
-      const result = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 5,
-          comment: '非常棒的酒店！',
-        },
-        ...authHeaders(tokens.customer),
-      });
+      // 模拟首次请求保存响应前进程退出
+      await db
+        .update(idempotencyKeys)
+        .set({ statusCode: null, responseBody: null })
+        .where(eq(idempotencyKeys.key, 'retry-3'));
 
-      expect(result.status).toBe(201);
-      if (result.status === 201) {
-        expect(result.body.score).toBe(5);
-        expect(result.body.comment).toBe('非常棒的酒店！');
+      const inProgress = await client.bookings.create({ body, extraHeaders });
+      expect(inProgress.status).toBe(409);
+
+      await db
+        .update(idempotencyKeys)
+        .set({ createdAt: new Date(Date.now() - 2 * 60 * 1000) })
+        .where(eq(idempotencyKeys.key, 'retry-3'));
+
+      const retried = await client.bookings.create({ body, extraHeaders });
+      expect(retried.status).toBe(201);
+    });
+
+    it('处理请求出错时释放幂等键，客户端可以用同一幂等键重试', async () => {
+      const extraHeaders = { ...authHeaders(tokens.customer).extraHeaders, 'Idempotency-Key': 'retry-4' };
+      const body = {
+        hotelId: testData.hotel.id,
+        roomTypeId: testData.roomType.id,
+        checkIn: daysFromToday(30),
+        checkOut: daysFromToday(32),
+        promotionId: null,
+      };
+
+      // 模拟写入预订时数据库出错
+      await db.execute(sql`
+        CREATE FUNCTION fail_booking() RETURNS trigger AS $$
+        BEGIN RAISE EXCEPTION '数据库不可用'; END;
+        $$ LANGUAGE plpgsql
+      `);
+      await db.execute(
+        sql`CREATE TRIGGER fail_booking BEFORE INSERT ON bookings FOR EACH ROW EXECUTE FUNCTION fail_booking()`,
+      );
+
+      try {
+        const failed = await client.bookings.create({ body, extraHeaders });
+        expect(failed.status).toBe(500);
+      } finally {
+        await db.execute(sql`DROP TRIGGER fail_booking ON bookings`);
+        await db.execute(sql`DROP FUNCTION fail_booking()`);
       }
+
+      const keys = await db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, 'retry-4'));
+      expect(keys).toHaveLength(0);
+
+      const retried = await client.bookings.create({ body, extraHeaders });
+      expect(retried.status).toBe(201);
     });
 
-    it('评分分数为1分', async () => {
-      const result = await client.ratings.create({
+    it('未登录用户创建预订返回401', async () => {
+      const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
-          score: 1,
-          comment: '很差',
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
         },
-        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(201);
-      if (result.status === 201) {
-        expect(result.body.score).toBe(1);
-      }
+      expect(result.status).toBe(401);
     });
 
-    it('评分不带评论', async () => {
-      const result = await client.ratings.create({
+    it('商户创建预订返回403', async () => {
+      const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
-          score: 4,
-          comment: null,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
         },
-        ...authHeaders(tokens.customer),
+        ...authHeaders(tokens.merchant),
       });
 
-      expect(result.status).toBe(201);
-      if (result.status === 201) {
-        expect(result.body.comment).toBeNull();
-      }
+      expect(result.status).toBe(403);
     });
 
-    it('评分分数为0返回400', async () => {
-      const result = await client.ratings.create({
+    it('管理员创建预订返回403', async () => {
+      const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
-          score: 0,
-          comment: null,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
         },
-        ...authHeaders(tokens.customer),
+        ...authHeaders(tokens.admin),
       });
 
-      expect(result.status).toBeGreaterThanOrEqual(400);
+      expect(result.status).toBe(403);
     });
+  });
 
-    it('评分分数超过5返回400', async () => {
-      const result = await client.ratings.create({
+  describe('POST /bookings/quote', () => {
+    it('返回逐晚价格和优惠明细', async () => {
+      await activatePromotionUntil(31);
+
+      const result = await client.bookings.quote({
         body: {
-          hotelId: testData.hotel.id,
-          score: 6,
-          comment: null,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(33), // 跨越优惠结束日期
         },
-        ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBeGreaterThanOrEqual(400);
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.nights.map((n) => [n.date, n.price])).toEqual([
+          [daysFromToday(30), 339.15],
+          [daysFromToday(31), 339.15],
+          [daysFromToday(32), 399],
+        ]);
+        expect(result.body.promotions).toHaveLength(1);
+        expect(result.body.promotions[0]?.promotionId).toBe(testData.promotion.id);
+        expect(result.body.promotions[0]?.discount).toBe(119.7);
+        expect(result.body.basePrice).toBe(1197);
+        expect(result.body.discount).toBe(119.7);
+        expect(result.body.totalPrice).toBe(1077.3);
+        expect(result.body.promotionId).toBe(testData.promotion.id);
+      }
     });
 
-    it('评分后更新酒店平均评分', async () => {
-      // 创建一个新酒店
-      const [hotelForRating] = await db
-        .insert(hotels)
-        .values({
-          nameZh: '评分测试酒店',
-          ownerId: testData.merchant.id,
-          address: '评分测试地址',
-          starRating: 4,
-          openingDate: '2023-01-01',
-          status: 'approved',
-        })
-        .returning();
+    it('报价与创建预订的总价一致', async () => {
+      await activatePromotionUntil(31);
 
-      if (!hotelForRating) throw new Error('Failed to create hotelForRating');
+      const stay = { checkIn: daysFromToday(30), checkOut: daysFromToday(33) };
 
-      // 创建第一个评分
-      await client.ratings.create({
-        body: {
-          hotelId: hotelForRating.id,
-          score: 5,
-          comment: '非常好',
-        },
-        ...authHeaders(tokens.customer),
+      const quote = await client.bookings.quote({
+        body: { roomTypeId: testData.roomType.id, ...stay },
       });
-
-      // 获取酒店信息，验证平均评分已更新
-      const hotelResult = await client.hotels.get({
-        params: { id: String(hotelForRating.id) },
+      const booking = await client.bookings.create({
+        body: { hotelId: testData.hotel.id, roomTypeId: testData.roomType.id, promotionId: null, ...stay },
+        ...authHeaders(tokens.customer),
       });
 
-      expect(hotelResult.status).toBe(200);
-      if (hotelResult.status === 200) {
-        expect(hotelResult.body.averageRating).toBe(5);
-        expect(hotelResult.body.ratingCount).toBe(1);
+      expect(quote.status).toBe(200);
+      expect(booking.status).toBe(201);
+      if (quote.status === 200 && booking.status === 201) {
+        expect(booking.body.totalPrice).toBe(quote.body.totalPrice);
+        expect(booking.body.promotionId).toBe(quote.body.promotionId);
       }
     });
 
-    it('商户创建评分返回403', async () => {
-      const result = await client.ratings.create({
+    it('多间房报价按间数汇总总价和减免', async () => {
+      await activatePromotionUntil(31);
+
+      const result = await client.bookings.quote({
         body: {
-          hotelId: testData.hotel.id,
-          score: 4,
-          comment: null,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(33),
+          quantity: 2,
         },
-        ...authHeaders(tokens.merchant),
       });
 
-      expect(result.status).toBe(403);
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.quantity).toBe(2);
+        expect(result.body.nights[0]?.price).toBe(339.15);
+        expect(result.body.basePrice).toBe(2394);
+        expect(result.body.discount).toBe(239.4);
+        expect(result.body.promotions[0]?.discount).toBe(239.4);
+        expect(result.body.totalPrice).toBe(2154.6);
+      }
     });
 
-    it('管理员创建评分返回403', async () => {
-      const result = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 4,
-          comment: null,
-        },
-        ...authHeaders(tokens.admin),
-      });
+    it('房型专属优惠只作用于对应房型', async () => {
+      const [otherRoomType] = await db
+        .insert(roomTypes)
+        .values({ hotelId: testData.hotel.id, name: '大床房', price: 500, stock: 5 })
+        .returning();
 
-      expect(result.status).toBe(403);
+      if (!otherRoomType) throw new Error('Failed to create otherRoomType');
+
+      await db.insert(promotions).values({
+        ownerId: testData.merchant.id,
+        hotelId: testData.hotel.id,
+        roomTypeId: otherRoomType.id,
+        type: 'direct',
+        value: 50,
+        startDate: daysFromToday(30),
+        endDate: daysFromToday(60),
+      });
+
+      const stay = { checkIn: daysFromToday(40), checkOut: daysFromToday(41) };
+      const discounted = await client.bookings.quote({ body: { roomTypeId: otherRoomType.id, ...stay } });
+      const standard = await client.bookings.quote({ body: { roomTypeId: testData.roomType.id, ...stay } });
+
+      expect(discounted.status).toBe(200);
+      expect(standard.status).toBe(200);
+      if (discounted.status === 200 && standard.status === 200) {
+        expect(discounted.body.totalPrice).toBe(450);
+        expect(standard.body.totalPrice).toBe(399);
+      }
     });
 
-    it('未登录创建评分返回401', async () => {
-      const result = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 4,
-          comment: null,
-        },
+    it('房型不存在返回404', async () => {
+      const result = await client.bookings.quote({
+        body: { roomTypeId: 99999, checkIn: daysFromToday(40), checkOut: daysFromToday(41) },
       });
 
-      expect(result.status).toBe(401);
+      expect(result.status).toBe(404);
     });
 
-    it('重复评分返回400', async () => {
-      // 先创建一个评分
-      await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 4,
-          comment: null,
-        },
-        ...authHeaders(tokens.customer),
+    it('退房日期不晚于入住日期返回400', async () => {
+      const result = await client.bookings.quote({
+        body: { roomTypeId: testData.roomType.id, checkIn: daysFromToday(41), checkOut: daysFromToday(41) },
       });
 
-      // 再次评分
-      const result = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 3,
-          comment: null,
-        },
-        ...authHeaders(tokens.customer),
+      expect(result.status).toBe(400);
+    });
+
+    it('入住日期早于今天返回400', async () => {
+      const result = await client.bookings.quote({
+        body: { roomTypeId: testData.roomType.id, checkIn: daysFromToday(-1), checkOut: daysFromToday(1) },
       });
 
       expect(result.status).toBe(400);
     });
+  });
 
-    it('酒店不存在返回404', async () => {
-      const result = await client.ratings.create({
-        body: {
-          hotelId: 9999,
-          score: 5,
-          comment: null,
-        },
+  describe('GET /bookings', () => {
+    it('用户查看自己的预订', async () => {
+      const result = await client.bookings.list({
         ...authHeaders(tokens.customer),
       });
 
-      expect(result.status).toBe(404);
+      expect(result.status).toBe(200);
     });
   });
 
-  describe('GET /ratings', () => {
-    it('获取评分列表', async () => {
-      const result = await client.ratings.list({});
+  describe('GET /bookings/admin', () => {
+    it('管理员查看所有预订', async () => {
+      const result = await client.bookings.adminList({
+        ...authHeaders(tokens.admin),
+      });
 
       expect(result.status).toBe(200);
     });
+  });
 
-    it('按酒店筛选', async () => {
-      const result = await client.ratings.list({
-        query: { hotelId: testData.hotel.id },
+  describe('GET /bookings/merchant', () => {
+    it('商户查看自己酒店的预订', async () => {
+      const result = await client.bookings.merchantList({
+        ...authHeaders(tokens.merchant),
       });
 
       expect(result.status).toBe(200);
     });
   });
 
-  describe('GET /ratings/:id', () => {
-    it('获取评分详情', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 4,
-          comment: '测试评论',
-        },
-        ...authHeaders(tokens.customer),
+  describe('预订入住人信息', () => {
+    const guest = {
+      guestName: '张三',
+      guestPhone: '13900139000',
+      arrivalTime: '18:30',
+      specialRequests: '高楼层，无烟房',
+    };
+
+    it('商户通过预订详情和预订列表查看入住人信息', async () => {
+      const created = await createBooking(guest);
+
+      expect(created).toMatchObject(guest);
+
+      const detail = await client.bookings.get({
+        params: { id: String(created.id) },
+        ...authHeaders(tokens.merchant),
       });
 
-      if (createResult.status === 201) {
-        const result = await client.ratings.get({
-          params: { id: String(createResult.body.id) },
-        });
+      expect(detail.status).toBe(200);
+      if (detail.status === 200) {
+        expect(detail.body).toMatchObject(guest);
+      }
 
-        expect(result.status).toBe(200);
-        if (result.status === 200) {
-          expect(result.body.score).toBe(4);
-        }
+      const list = await client.bookings.merchantList({
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(list.status).toBe(200);
+      if (list.status === 200) {
+        expect(list.body.bookings.find((b) => b.id === created.id)).toMatchObject(guest);
       }
     });
 
-    it('评分不存在返回404', async () => {
-      const result = await client.ratings.get({
-        params: { id: '9999' },
-      });
+    it('未填写入住人时使用预订用户的信息', async () => {
+      const created = await createBooking();
 
-      expect(result.status).toBe(404);
+      expect(created.guestName).toBe(testData.customer.username);
+      expect(created.guestPhone).toBe(testData.customer.phone);
+      expect(created.arrivalTime).toBeNull();
+      expect(created.specialRequests).toBeNull();
     });
-  });
 
-  describe('PUT /ratings/:id', () => {
-    it('用户修改自己的评分', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
+    it('到店时间格式错误返回400', async () => {
+      const result = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
-          score: 3,
-          comment: '原始评论',
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(10),
+          checkOut: daysFromToday(12),
+          promotionId: null,
+          arrivalTime: '25:00',
         },
         ...authHeaders(tokens.customer),
       });
 
-      if (createResult.status === 201) {
-        const result = await client.ratings.update({
-          params: { id: String(createResult.body.id) },
-          body: { score: 4, comment: '修改后的评论' },
-          ...authHeaders(tokens.customer),
-        });
-
-        expect(result.status).toBe(200);
-        if (result.status === 200) {
-          expect(result.body.score).toBe(4);
-          expect(result.body.comment).toBe('修改后的评论');
-        }
-      }
+      expect(result.status).toBe(400);
     });
+  });
 
-    it('用户修改其他用户的评分返回403', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 3,
-          comment: '其他用户的评分',
-        },
+  describe('GET /bookings/:id', () => {
+    it('用户查看自己的预订详情', async () => {
+      const result = await client.bookings.get({
+        params: { id: String(testData.booking.id) },
         ...authHeaders(tokens.customer),
       });
 
-      // 创建另一个用户
-      const [otherCustomer] = await db
-        .insert(users)
-        .values({
-          username: 'othercustomer4',
-          password: await bcrypt.hash('password123', 10),
-          role: 'customer',
-        })
-        .returning();
-
-      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
-
-      const otherToken = createToken(otherCustomer.id, 'customer');
+      expect(result.status).toBe(200);
+    });
+  });
 
-      if (createResult.status === 201) {
-        // 另一个用户尝试修改评分
-        const result = await client.ratings.update({
-          params: { id: String(createResult.body.id) },
-          body: { score: 5, comment: '试图修改' },
-          ...authHeaders(otherToken),
-        });
+  describe('PUT /bookings/:id/confirm', () => {
+    it('商户确认预订', async () => {
+      const result = await client.bookings.confirm({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
 
-        expect(result.status).toBe(403);
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('confirmed');
       }
     });
 
-    it('管理员修改评分失败', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
-        body: {
-          hotelId: testData.hotel.id,
-          score: 3,
-          comment: '用户评分',
-        },
-        ...authHeaders(tokens.customer),
-      });
+    it('非pending状态返回400', async () => {
+      await db.update(bookings).set({ status: 'confirmed' }).where(eq(bookings.id, testData.booking.id));
 
-      if (createResult.status === 201) {
-        // 管理员修改评分 - 由于contract权限限制为customer，admin无法通过权限检查
-        // 所以这个测试改为验证admin不能修改（返回403）
-        const result = await client.ratings.update({
-          params: { id: String(createResult.body.id) },
-          body: { score: 5 },
-          ...authHeaders(tokens.admin),
-        });
+      const result = await client.bookings.confirm({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
 
-        // 实际上由于权限限制，admin会返回403
-        expect(result.status).toBe(403);
-      }
+      expect(result.status).toBe(400);
     });
+  });
 
-    it('更新评分后更新酒店平均评分', async () => {
-      // 创建一个新酒店
-      const [hotelForRating] = await db
-        .insert(hotels)
-        .values({
-          nameZh: '评分更新测试酒店',
-          ownerId: testData.merchant.id,
-          address: '评分更新测试地址',
-          starRating: 4,
-          openingDate: '2023-01-01',
-          status: 'approved',
-        })
-        .returning();
+  describe('预订状态流转', () => {
+    const setBookingStatus = (status: 'pending' | 'confirmed' | 'checked_in' | 'completed') =>
+      db.update(bookings).set({ status }).where(eq(bookings.id, testData.booking.id));
 
-      if (!hotelForRating) throw new Error('Failed to create hotelForRating');
+    it('商户为已确认预订办理入住', async () => {
+      await setBookingStatus('confirmed');
 
-      // 创建第一个评分
-      await client.ratings.create({
-        body: {
-          hotelId: hotelForRating.id,
-          score: 3,
-          comment: '3分',
-        },
-        ...authHeaders(tokens.customer),
+      const result = await client.bookings.checkIn({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
       });
 
-      // 获取评分
-      const ratings = await db.query.ratings.findMany({
-        where: { hotelId: { eq: hotelForRating.id } },
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('checked_in');
+      }
+    });
+
+    it('待确认预订不能办理入住', async () => {
+      const result = await client.bookings.checkIn({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
       });
 
-      if (!ratings[0]) throw new Error('Failed to find rating');
+      expect(result.status).toBe(400);
+    });
 
-      // 修改评分
-      await client.ratings.update({
-        params: { id: String(ratings[0].id) },
-        body: { score: 5 },
-        ...authHeaders(tokens.customer),
+    it('未到入住日期不能办理入住', async () => {
+      await db
+        .update(bookings)
+        .set({ status: 'confirmed', checkIn: '2099-01-01', checkOut: '2099-01-02' })
+        .where(eq(bookings.id, testData.booking.id));
+
+      const result = await client.bookings.checkIn({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
       });
 
-      // 验证酒店平均评分已更新
-      const hotelResult = await client.hotels.get({
-        params: { id: String(hotelForRating.id) },
+      expect(result.status).toBe(400);
+    });
+
+    it('办理退房后预订变为已完成', async () => {
+      await setBookingStatus('checked_in');
+
+      const result = await client.bookings.checkOut({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.admin),
       });
 
-      expect(hotelResult.status).toBe(200);
-      if (hotelResult.status === 200) {
-        expect(hotelResult.body.averageRating).toBe(5);
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('completed');
       }
     });
 
-    it('更新不存在的评分返回404', async () => {
-      const result = await client.ratings.update({
-        params: { id: '99999' },
-        body: { score: 5 },
-        ...authHeaders(tokens.customer),
+    it('未入住的预订不能办理退房', async () => {
+      await setBookingStatus('confirmed');
+
+      const result = await client.bookings.checkOut({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
       });
 
-      expect(result.status).toBe(404);
+      expect(result.status).toBe(400);
     });
 
-    it('未登录修改评分返回401', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
+    it('标记未到店后释放库存', async () => {
+      const created = await client.bookings.create({
         body: {
           hotelId: testData.hotel.id,
-          score: 3,
-          comment: '测试',
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(0),
+          checkOut: daysFromToday(2),
+          promotionId: null,
         },
         ...authHeaders(tokens.customer),
       });
 
-      if (createResult.status === 201) {
-        const result = await client.ratings.update({
-          params: { id: String(createResult.body.id) },
-          body: { score: 5 },
-        });
+      expect(created.status).toBe(201);
+      if (created.status !== 201) return;
 
-        expect(result.status).toBe(401);
+      await db.update(bookings).set({ status: 'confirmed' }).where(eq(bookings.id, created.body.id));
+
+      const result = await client.bookings.noShow({
+        params: { id: String(created.body.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('no_show');
       }
+
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+      });
+      inventory.forEach((i) => expect(i.reserved).toBe(0));
+    });
+
+    it('已入住的预订不能取消', async () => {
+      await setBookingStatus('checked_in');
+
+      const result = await client.bookings.cancel({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('已完成的预订不能再确认', async () => {
+      await setBookingStatus('completed');
+
+      const result = await client.bookings.confirm({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('用户无权限办理入住', async () => {
+      await setBookingStatus('confirmed');
+
+      const result = await client.bookings.checkIn({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(403);
     });
   });
 
-  describe('DELETE /ratings/:id', () => {
-    it('用户删除自己的评分', async () => {
-      // 先创建评分
-      const createResult = await client.ratings.create({
+  describe('GET /bookings/:id/history', () => {
+    it('按时间顺序记录每次变更的操作人和状态', async () => {
+      const booking = await createBooking();
+
+      await client.bookings.confirm({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+      await client.bookings.modify({
+        params: { id: String(booking.id) },
         body: {
-          hotelId: testData.hotel.id,
-          score: 2,
-          comment: null,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
         },
         ...authHeaders(tokens.customer),
       });
+      await client.bookings.cancel({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
 
-      if (createResult.status === 201) {
-        const result = await client.ratings.delete({
-          params: { id: String(createResult.body.id) },
-          ...authHeaders(tokens.customer),
+      for (const token of [tokens.customer, tokens.merchant, tokens.admin]) {
+        const result = await client.bookings.history({
+          params: { id: String(booking.id) },
+          ...authHeaders(token),
         });
 
         expect(result.status).toBe(200);
+        if (result.status === 200) {
+          expect(result.body.map((e) => [e.type, e.actor?.username, e.actorRole, e.fromStatus, e.toStatus])).toEqual([
+            ['created', 'customer', 'customer', null, 'pending'],
+            ['status_changed', 'merchant', 'merchant', 'pending', 'confirmed'],
+            ['modified', 'customer', 'customer', 'confirmed', 'confirmed'],
+            ['status_changed', 'customer', 'customer', 'confirmed', 'cancelled'],
+          ]);
+        }
       }
     });
-  });
-});
 
-// =============================================================================
-// 轮播图模块测试
-// =============================================================================
+    it('过期自动取消记录为系统操作', async () => {
+      const booking = await createBooking();
 
-describe('轮播图模块', () => {
-  describe('GET /carousel', () => {
-    it('获取轮播图列表', async () => {
-      const result = await client.carousel.list({});
+      await expirePendingBookings(db, new Date(Date.now() + 24 * 60 * 60 * 1000));
+
+      const result = await client.bookings.history({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
 
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        // 测试酒店有图片，应该出现在轮播图中
-        expect(result.body.length).toBeGreaterThan(0);
-        // 检查返回的数据结构
-        expect(result.body[0]).toHaveProperty('hotelId');
-        expect(result.body[0]).toHaveProperty('image');
+        expect(result.body[1]).toMatchObject({
+          type: 'status_changed',
+          actorId: null,
+          actor: null,
+          fromStatus: 'pending',
+          toStatus: 'cancelled',
+        });
       }
     });
 
-    it('无图片的酒店不出现', async () => {
-      // 创建一个无图片的酒店
-      await db.insert(hotels).values({
-        nameZh: '无图片酒店',
-        ownerId: testData.merchant.id,
-        address: '无图片地址',
-        starRating: 3,
-        openingDate: '2023-01-01',
-        status: 'approved',
-        images: null,
+    it('管理员可以查看已删除预订的历史', async () => {
+      const booking = await createBooking();
+
+      await client.bookings.delete({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.admin),
       });
 
-      const result = await client.carousel.list({});
+      const result = await client.bookings.history({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.admin),
+      });
 
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        // 验证无图片的酒店不在列表中
-        const hotelIds = result.body.map((item: any) => item.hotelId);
-        const hotel = await db.query.hotels.findFirst({
-          where: { nameZh: { eq: '无图片酒店' } },
-        });
-        if (hotel) {
-          expect(hotelIds).not.toContain(hotel.id);
-        }
+        expect(result.body.map((e) => e.type)).toEqual(['created', 'deleted']);
       }
     });
 
-    it('未审核通过的酒店不出现', async () => {
-      // 创建一个待审核的酒店但有图片
-      await db.insert(hotels).values({
-        nameZh: '待审核有图酒店',
-        ownerId: testData.merchant.id,
-        address: '待审核地址',
-        starRating: 3,
-        openingDate: '2023-01-01',
-        status: 'pending',
-        images: ['https://example.com/pending.jpg'],
+    it('其他用户查看预订历史返回403', async () => {
+      const booking = await createBooking();
+      const [otherCustomer] = await db
+        .insert(users)
+        .values({
+          username: 'othercustomer',
+          password: await bcrypt.hash('password123', 10),
+          role: 'customer',
+        })
+        .returning();
+
+      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
+
+      const result = await client.bookings.history({
+        params: { id: String(booking.id) },
+        ...authHeaders(createToken(otherCustomer.id, 'customer')),
       });
 
-      const result = await client.carousel.list({});
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('GET /bookings/:id/receipt', () => {
+    it('收据包含酒店信息、逐晚房费、优惠、税费和支付状态', async () => {
+      await activatePromotionUntil(31);
+
+      const created = await createBooking({
+        checkIn: daysFromToday(31),
+        checkOut: daysFromToday(33),
+        guestName: '<script>张三</script>',
+      });
+
+      const result = await client.bookings.receipt({
+        params: { id: String(created.id) },
+        ...authHeaders(tokens.customer),
+      });
 
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        // 验证待审核的酒店不在列表中
-        const hotelIds = result.body.map((item: any) => item.hotelId);
-        const hotel = await db.query.hotels.findFirst({
-          where: { nameZh: { eq: '待审核有图酒店' } },
-        });
-        if (hotel) {
-          expect(hotelIds).not.toContain(hotel.id);
-        }
+        const html = result.body as string;
+        expect(html).toContain(testData.hotel.nameZh);
+        expect(html).toContain(daysFromToday(31));
+        expect(html).toContain('¥339.15');
+        expect(html).toContain('¥399.00');
+        expect(html).toContain('-¥59.85');
+        expect(html).toContain('¥738.15');
+        expect(html).toContain('增值税（6%）');
+        expect(html).toContain('未支付');
+        expect(html).toContain('&lt;script&gt;张三&lt;/script&gt;');
+        expect(html).not.toContain('<script>');
       }
     });
 
-    it('已下线的酒店不出现', async () => {
-      // 创建一个已下线的酒店但有图片
-      await db.insert(hotels).values({
-        nameZh: '已下线有图酒店',
-        ownerId: testData.merchant.id,
-        address: '已下线地址',
-        starRating: 3,
-        openingDate: '2023-01-01',
-        status: 'offline',
-        images: ['https://example.com/offline.jpg'],
+    it('下单后优惠失效或房价变化时，收据仍按下单时的计价展示', async () => {
+      await activatePromotionUntil(60);
+
+      const created = await createBooking({
+        checkIn: daysFromToday(30),
+        checkOut: daysFromToday(31),
       });
 
-      const result = await client.carousel.list({});
+      await db
+        .update(promotions)
+        .set({ endDate: daysFromToday(-1) })
+        .where(eq(promotions.id, testData.promotion.id));
+      await db.update(roomTypes).set({ price: 499 }).where(eq(roomTypes.id, testData.roomType.id));
 
-      expect(result.status).toBe(200);
-      if (result.status === 200) {
-        // 验证已下线的酒店不在列表中
-        const hotelIds = result.body.map((item: any) => item.hotelId);
-        const hotel = await db.query.hotels.findFirst({
-          where: { nameZh: { eq: '已下线有图酒店' } },
-        });
-        if (hotel) {
-          expect(hotelIds).not.toContain(hotel.id);
-        }
+      const result = await client.bookings.receipt({
+        params: { id: String(created.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        const html = result.body as string;
+        expect(html).toContain('¥339.15');
+        expect(html).toContain('-¥59.85');
+        expect(html).not.toContain('¥499.00');
       }
     });
 
-    it('软删除的酒店不出现', async () => {
-      // 创建一个软删除的酒店但有图片
-      const [softDeletedHotel] = await db
-        .insert(hotels)
+    it('没有保存计价明细的旧预订按实付总价分摊到每晚', async () => {
+      const result = await client.bookings.receipt({
+        params: { id: String(testData.booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        const html = result.body as string;
+        expect(html).toContain('（2晚）');
+        expect(html).toMatch(/<td>2024-06-01<\/td>\s*<td class="amount">¥399\.00/);
+        expect(html).toContain('¥798.00');
+        expect(html).toContain('待确认');
+      }
+    });
+
+    it('已支付的预订收据显示支付金额', async () => {
+      const created = await createBooking({
+        checkIn: daysFromToday(10),
+        checkOut: daysFromToday(11),
+      });
+
+      const intent = await client.payments.createIntent({
+        body: { bookingId: created.id },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (intent.status !== 201) throw new Error('Failed to create payment intent');
+
+      await client.payments.capture({
+        params: { id: String(intent.body.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      const result = await client.bookings.receipt({
+        params: { id: String(created.id) },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).toContain('已支付');
+        expect(result.body).toMatch(/已支付<\/td><td class="amount">¥399\.00/);
+      }
+    });
+
+    it('其他用户查看收据返回403', async () => {
+      const [otherCustomer] = await db
+        .insert(users)
         .values({
-          nameZh: '软删除有图酒店',
-          ownerId: testData.merchant.id,
-          address: '软删除地址',
-          starRating: 3,
-          openingDate: '2023-01-01',
-          status: 'approved',
-          images: ['https://example.com/deleted.jpg'],
+          username: 'othercustomer',
+          password: await bcrypt.hash('password123', 10),
+          role: 'customer',
         })
         .returning();
 
-      if (!softDeletedHotel) throw new Error('Failed to create softDeletedHotel');
+      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
 
-      // 软删除
-      await db.update(hotels).set({ deletedAt: new Date() }).where(eq(hotels.id, softDeletedHotel.id));
+      const result = await client.bookings.receipt({
+        params: { id: String(testData.booking.id) },
+        ...authHeaders(createToken(otherCustomer.id, 'customer')),
+      });
 
-      const result = await client.carousel.list({});
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('待确认预订自动过期', () => {
+    it('创建预订时设置保留截止时间', async () => {
+      const before = Date.now();
+      const result = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        // 默认保留30分钟
+        const expiresAt = new Date(result.body.expiresAt as unknown as string).getTime();
+        expect(expiresAt).toBeGreaterThanOrEqual(before + 30 * 60 * 1000 - 1000);
+        expect(expiresAt).toBeLessThanOrEqual(Date.now() + 30 * 60 * 1000 + 1000);
+      }
+    });
+
+    it('清理任务取消过期预订并释放库存', async () => {
+      const created = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(created.status).toBe(201);
+      if (created.status !== 201) return;
+
+      await db
+        .update(bookings)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(bookings.id, created.body.id));
+
+      const expired = await expirePendingBookings(db);
+
+      expect(expired.map((b) => b.id)).toEqual([created.body.id]);
+
+      const booking = await db.query.bookings.findFirst({ where: { id: { eq: created.body.id } } });
+      expect(booking?.status).toBe('cancelled');
+
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+      });
+      inventory.forEach((i) => expect(i.reserved).toBe(0));
+    });
+
+    it('未过期和已确认的预订不受影响', async () => {
+      await db
+        .update(bookings)
+        .set({ status: 'confirmed', expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(bookings.id, testData.booking.id));
+
+      const expired = await expirePendingBookings(db);
+
+      expect(expired).toHaveLength(0);
+    });
+
+    it('过期的预订不能再确认', async () => {
+      await db
+        .update(bookings)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(bookings.id, testData.booking.id));
+
+      const result = await client.bookings.confirm({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('PUT /bookings/:id/cancel', () => {
+    it('用户取消预订', async () => {
+      const result = await client.bookings.cancel({
+        params: { id: String(testData.booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
 
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        const hotelIds = result.body.map((item: any) => item.hotelId);
-        expect(hotelIds).not.toContain(softDeletedHotel.id);
+        expect(result.body.status).toBe('cancelled');
       }
     });
 
-    it('限制返回数量', async () => {
-      const result = await client.carousel.list({
-        query: { limit: '1' },
+    it('取消预订后释放入住期间每晚的库存', async () => {
+      const created = await client.bookings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(30),
+          checkOut: daysFromToday(32),
+          promotionId: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(created.status).toBe(201);
+      if (created.status !== 201) return;
+
+      const result = await client.bookings.cancel({
+        params: { id: String(created.body.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: testData.roomType.id } },
+      });
+      expect(inventory).toHaveLength(2);
+      inventory.forEach((i) => expect(i.reserved).toBe(0));
+    });
+  });
+
+  describe('取消政策与退款', () => {
+    const setPolicy = (policy: Partial<typeof roomTypes.$inferInsert>) =>
+      db.update(roomTypes).set(policy).where(eq(roomTypes.id, testData.roomType.id));
+
+    const insertConfirmedBooking = async (checkInInDays: number) => {
+      const [booking] = await db
+        .insert(bookings)
+        .values({
+          userId: testData.customer.id,
+          hotelId: testData.hotel.id,
+          roomTypeId: testData.roomType.id,
+          checkIn: daysFromToday(checkInInDays),
+          checkOut: daysFromToday(checkInInDays + 2),
+          totalPrice: 798,
+          status: 'confirmed',
+        })
+        .returning();
+
+      if (!booking) throw new Error('Failed to create booking');
+      return booking;
+    };
+
+    const cancel = (bookingId: number, token: string) =>
+      client.bookings.cancel({
+        params: { id: String(bookingId) },
+        body: {},
+        ...authHeaders(token),
       });
 
+    it('免费取消期内取消全额退款', async () => {
+      await setPolicy({ cancellationPolicy: 'free_until', freeCancelDays: 3 });
+      const booking = await insertConfirmedBooking(5);
+
+      const result = await cancel(booking.id, tokens.customer);
+
       expect(result.status).toBe(200);
       if (result.status === 200) {
-        expect(result.body.length).toBeLessThanOrEqual(1);
+        expect(result.body.refundAmount).toBe(798);
+      }
+    });
+
+    it('超过免费取消期后取消不退款', async () => {
+      await setPolicy({ cancellationPolicy: 'free_until', freeCancelDays: 3 });
+      const booking = await insertConfirmedBooking(2);
+
+      const result = await cancel(booking.id, tokens.customer);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(0);
+      }
+    });
+
+    it('按比例收取违约金后退款', async () => {
+      await setPolicy({ cancellationPolicy: 'penalty', cancelPenaltyRate: 0.2 });
+      const booking = await insertConfirmedBooking(10);
+
+      const result = await cancel(booking.id, tokens.customer);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(638.4);
+      }
+    });
+
+    it('不可退款的房型取消后退款为0', async () => {
+      await setPolicy({ cancellationPolicy: 'non_refundable' });
+      const booking = await insertConfirmedBooking(10);
+
+      const result = await cancel(booking.id, tokens.customer);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(0);
+      }
+    });
+
+    it('商户取消预订全额退款', async () => {
+      await setPolicy({ cancellationPolicy: 'non_refundable' });
+      const booking = await insertConfirmedBooking(10);
+
+      const result = await cancel(booking.id, tokens.merchant);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(798);
+      }
+    });
+
+    it('按预订时的取消政策退款，商户之后修改房型政策不影响已有预订', async () => {
+      await setPolicy({ cancellationPolicy: 'free_until', freeCancelDays: 3 });
+
+      const created = await createBooking();
+
+      await setPolicy({ cancellationPolicy: 'non_refundable' });
+
+      const result = await cancel(created.id, tokens.customer);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(created.totalPrice);
+      }
+    });
+
+    it('旧预订按回填时房型的取消政策生成快照', async () => {
+      await setPolicy({ cancellationPolicy: 'penalty', cancelPenaltyRate: 0.2 });
+      const booking = await insertConfirmedBooking(10);
+
+      expect(await backfillBookingCancellationPolicies(db)).toBeGreaterThan(0);
+      expect(await backfillBookingCancellationPolicies(db)).toBe(0);
+
+      const snapshot = await db.query.bookings.findFirst({ where: { id: { eq: booking.id } } });
+      expect(snapshot).toMatchObject({ cancellationPolicy: 'penalty', cancelPenaltyRate: 0.2 });
+
+      await setPolicy({ cancellationPolicy: 'non_refundable' });
+
+      const result = await cancel(booking.id, tokens.customer);
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.refundAmount).toBe(638.4);
+      }
+    });
+  });
+
+  describe('PUT /bookings/:id/modify', () => {
+    /** 30 天后起的第 n 天，修改预订不能把入住日期改到今天之前 */
+    const stayDate = (n: number) => new Date(Date.now() + (29 + n) * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+
+    const stay = { checkIn: stayDate(1), checkOut: stayDate(3) };
+
+    const reservedByDate = async (roomTypeId: number) => {
+      const inventory = await db.query.roomInventory.findMany({
+        where: { roomTypeId: { eq: roomTypeId } },
+        orderBy: { date: 'asc' },
+      });
+      return Object.fromEntries(inventory.map((i) => [i.date, i.reserved]));
+    };
+
+    it('用户修改预订日期，重新计价并转移库存', async () => {
+      const booking = await createBooking(stay);
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { checkIn: stayDate(2), checkOut: stayDate(5) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.checkIn).toBe(stayDate(2));
+        expect(result.body.checkOut).toBe(stayDate(5));
+        expect(result.body.totalPrice).toBe(399 * 3);
+      }
+
+      expect(await reservedByDate(testData.roomType.id)).toEqual({
+        [stayDate(1)]: 0,
+        [stayDate(2)]: 1,
+        [stayDate(3)]: 1,
+        [stayDate(4)]: 1,
+      });
+
+      const modifications = await db.query.bookingModifications.findMany({
+        where: { bookingId: { eq: booking.id } },
+      });
+      expect(modifications).toHaveLength(1);
+      expect(modifications[0]).toMatchObject({
+        userId: testData.customer.id,
+        previousRoomTypeId: testData.roomType.id,
+        previousCheckIn: stayDate(1),
+        previousCheckOut: stayDate(3),
+        previousTotalPrice: 399 * 2,
+      });
+    });
+
+    it('更换为同一酒店的其他房型', async () => {
+      const booking = await createBooking(stay);
+      const [suite] = await db
+        .insert(roomTypes)
+        .values({ hotelId: testData.hotel.id, name: '套房', price: 899, stock: 1 })
+        .returning();
+
+      if (!suite) throw new Error('Failed to create suite');
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { roomTypeId: suite.id, checkIn: stayDate(1), checkOut: stayDate(3) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.roomTypeId).toBe(suite.id);
+        expect(result.body.totalPrice).toBe(899 * 2);
       }
+
+      expect(await reservedByDate(testData.roomType.id)).toEqual({ [stayDate(1)]: 0, [stayDate(2)]: 0 });
+      expect(await reservedByDate(suite.id)).toEqual({ [stayDate(1)]: 1, [stayDate(2)]: 1 });
+    });
+
+    it('新日期满房返回400，原预订和库存保持不变', async () => {
+      const booking = await createBooking(stay);
+      await db.update(roomTypes).set({ stock: 1 }).where(eq(roomTypes.id, testData.roomType.id));
+      await db.insert(roomInventory).values({ roomTypeId: testData.roomType.id, date: stayDate(4), reserved: 1 });
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { checkIn: stayDate(2), checkOut: stayDate(5) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+
+      const unchanged = await db.query.bookings.findFirst({ where: { id: { eq: booking.id } } });
+      expect(unchanged?.checkIn).toBe(stayDate(1));
+      expect(unchanged?.checkOut).toBe(stayDate(3));
+      expect(await reservedByDate(testData.roomType.id)).toEqual({
+        [stayDate(1)]: 1,
+        [stayDate(2)]: 1,
+        [stayDate(4)]: 1,
+      });
     });
+
+    it('更换为其他酒店的房型返回400', async () => {
+      const booking = await createBooking(stay);
+      const [otherRoomType] = await db
+        .insert(roomTypes)
+        .values({ hotelId: testData.pendingHotel.id, name: '其他酒店房型', price: 299, stock: 5 })
+        .returning();
+
+      if (!otherRoomType) throw new Error('Failed to create otherRoomType');
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { roomTypeId: otherRoomType.id, checkIn: stayDate(1), checkOut: stayDate(3) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('已取消的预订不能修改', async () => {
+      await db.update(bookings).set({ status: 'cancelled' }).where(eq(bookings.id, testData.booking.id));
+
+      const result = await client.bookings.modify({
+        params: { id: String(testData.booking.id) },
+        body: { checkIn: stayDate(2), checkOut: stayDate(4) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('入住日期改到今天之前返回400', async () => {
+      const booking = await createBooking(stay);
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { checkIn: yesterday, checkOut: stayDate(3) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+      if (result.status === 400) {
+        expect(result.body.message).toBe('入住日期不能早于今天');
+      }
+
+      const unchanged = await db.query.bookings.findFirst({ where: { id: { eq: booking.id } } });
+      expect(unchanged?.checkIn).toBe(stayDate(1));
+    });
+
+    it('预订信息未变更返回400', async () => {
+      const booking = await createBooking(stay);
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { checkIn: stayDate(1), checkOut: stayDate(3) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /bookings/:id', () => {
+    it('管理员删除预订', async () => {
+      const result = await client.bookings.delete({
+        params: { id: String(testData.booking.id) },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(result.status).toBe(200);
+    });
+  });
+});
+
+// =============================================================================
+// 支付模块测试
+// =============================================================================
+
+describe('支付模块', () => {
+  const createIntent = async (bookingId: number) => {
+    const intent = await client.payments.createIntent({
+      body: { bookingId },
+      ...authHeaders(tokens.customer),
+    });
+
+    if (intent.status !== 201) throw new Error('Failed to create payment intent');
+    return intent.body;
+  };
+
+  const payBooking = async () => {
+    const booking = await createBooking();
+    const intent = await createIntent(booking.id);
+    const captured = await client.payments.capture({
+      params: { id: String(intent.id) },
+      body: { paymentMethod: 'mock_card' },
+      ...authHeaders(tokens.customer),
+    });
+
+    if (captured.status !== 200) throw new Error('Failed to capture payment');
+    return { booking, payment: captured.body };
+  };
+
+  it('未配置支付渠道时非测试环境不使用模拟渠道，生产环境不能配置模拟渠道', () => {
+    const { NODE_ENV, PAYMENT_PROVIDER } = process.env;
+    process.env.NODE_ENV = 'production';
+    delete process.env.PAYMENT_PROVIDER;
+
+    try {
+      expect(isPaymentConfigured()).toBe(false);
+      expect(() => getPaymentProvider()).toThrow(PaymentProviderError);
+
+      process.env.PAYMENT_PROVIDER = 'mock';
+      expect(isPaymentConfigured()).toBe(true);
+      expect(() => getPaymentProvider()).toThrow(PaymentProviderError);
+
+      process.env.PAYMENT_PROVIDER = 'unknown';
+      expect(() => getPaymentProvider()).toThrow('未注册的支付渠道：unknown');
+
+      process.env.NODE_ENV = 'development';
+      process.env.PAYMENT_PROVIDER = 'mock';
+      expect(getPaymentProvider().name).toBe('mock');
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+      if (PAYMENT_PROVIDER === undefined) {
+        delete process.env.PAYMENT_PROVIDER;
+      } else {
+        process.env.PAYMENT_PROVIDER = PAYMENT_PROVIDER;
+      }
+    }
+  });
+
+  describe('POST /payments', () => {
+    it('按预订总价创建支付单', async () => {
+      const booking = await createBooking();
+
+      const result = await client.payments.createIntent({
+        body: { bookingId: booking.id },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.amount).toBe(booking.totalPrice);
+        expect(result.body.status).toBe('requires_payment');
+        expect(result.body.provider).toBe('mock');
+        expect(result.body.clientSecret).toBeTruthy();
+      }
+    });
+
+    it('其他用户为预订创建支付单返回403', async () => {
+      const booking = await createBooking();
+      const [otherCustomer] = await db
+        .insert(users)
+        .values({
+          username: 'othercustomer',
+          password: await bcrypt.hash('password123', 10),
+          role: 'customer',
+        })
+        .returning();
+
+      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
+
+      const result = await client.payments.createIntent({
+        body: { bookingId: booking.id },
+        ...authHeaders(createToken(otherCustomer.id, 'customer')),
+      });
+
+      expect(result.status).toBe(403);
+    });
+
+    it('重复请求返回同一张待支付的支付单', async () => {
+      const booking = await createBooking();
+
+      const first = await createIntent(booking.id);
+      const second = await createIntent(booking.id);
+      const concurrent = await Promise.all([createIntent(booking.id), createIntent(booking.id)]);
+
+      expect(second.id).toBe(first.id);
+      expect(second.providerPaymentId).toBe(first.providerPaymentId);
+      expect(second.clientSecret).toBe(first.clientSecret);
+      expect(concurrent.map((p) => p.id)).toEqual([first.id, first.id]);
+
+      const list = await client.payments.listByBooking({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(list.status).toBe(200);
+      if (list.status === 200) {
+        expect(list.body).toHaveLength(1);
+      }
+    });
+
+    it('支付失败后重新请求创建新的支付单', async () => {
+      const booking = await createBooking();
+      const first = await createIntent(booking.id);
+
+      await client.payments.capture({
+        params: { id: String(first.id) },
+        body: { paymentMethod: 'mock_card_declined' },
+        ...authHeaders(tokens.customer),
+      });
+
+      const second = await createIntent(booking.id);
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.status).toBe('requires_payment');
+    });
+
+    it('已支付的预订不能重复创建支付单', async () => {
+      const { booking } = await payBooking();
+
+      const result = await client.payments.createIntent({
+        body: { bookingId: booking.id },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('POST /payments/:id/capture', () => {
+    it('支付成功后预订标记为已支付且不再过期', async () => {
+      const { booking, payment } = await payBooking();
+
+      expect(payment.status).toBe('succeeded');
+      expect(payment.capturedAt).toBeTruthy();
+
+      const detail = await client.bookings.get({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(detail.status).toBe(200);
+      if (detail.status === 200) {
+        expect(detail.body.paymentStatus).toBe('paid');
+        expect(detail.body.expiresAt).toBeNull();
+      }
+    });
+
+    it('支付被拒时支付单标记为失败', async () => {
+      const booking = await createBooking();
+      const intent = await createIntent(booking.id);
+
+      const result = await client.payments.capture({
+        params: { id: String(intent.id) },
+        body: { paymentMethod: 'mock_card_declined' },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('failed');
+        expect(result.body.failureReason).toBeTruthy();
+      }
+
+      const retry = await client.payments.capture({
+        params: { id: String(intent.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(retry.status).toBe(400);
+    });
+
+    it('预订已支付后其他支付单不能再扣款', async () => {
+      const booking = await createBooking();
+      const first = await createIntent(booking.id);
+      // 修复前遗留的重复支付单
+      const [second] = await db
+        .insert(payments)
+        .values({
+          bookingId: booking.id,
+          userId: first.userId,
+          provider: first.provider,
+          providerPaymentId: `${first.providerPaymentId}_dup`,
+          amount: first.amount,
+        })
+        .returning();
+
+      await client.payments.capture({
+        params: { id: String(first.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      const result = await client.payments.capture({
+        params: { id: String(second!.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('POST /payments/:id/refund', () => {
+    it('商户可以部分退款', async () => {
+      const { booking, payment } = await payBooking();
+
+      const result = await client.payments.refund({
+        params: { id: String(payment.id) },
+        body: { amount: 100, reason: '房间设施故障补偿' },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.status).toBe('partially_refunded');
+        expect(result.body.refundedAmount).toBe(100);
+        expect(result.body.refunds.map((r) => r.amount)).toEqual([100]);
+      }
+
+      const history = await client.bookings.history({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(history.status).toBe(200);
+      if (history.status === 200) {
+        expect(history.body.map((e) => e.type)).toEqual(['created', 'payment_captured', 'payment_refunded']);
+      }
+    });
+
+    it('退款金额超过可退金额返回400', async () => {
+      const { payment } = await payBooking();
+
+      const result = await client.payments.refund({
+        params: { id: String(payment.id) },
+        body: { amount: payment.amount + 1 },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('未支付的支付单不能退款', async () => {
+      const booking = await createBooking();
+      const intent = await createIntent(booking.id);
+
+      const result = await client.payments.refund({
+        params: { id: String(intent.id) },
+        body: {},
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('取消已支付的预订', () => {
+    it('支付、确认后用户取消按取消政策原路退款', async () => {
+      await db
+        .update(roomTypes)
+        .set({ cancellationPolicy: 'penalty', cancelPenaltyRate: 0.2 })
+        .where(eq(roomTypes.id, testData.roomType.id));
+      const { booking, payment } = await payBooking();
+
+      await client.bookings.confirm({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+
+      const cancelled = await client.bookings.cancel({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(cancelled.status).toBe(200);
+      if (cancelled.status === 200) {
+        expect(cancelled.body.refundAmount).toBe(638.4);
+        expect(cancelled.body.paymentStatus).toBe('partially_refunded');
+      }
+
+      const result = await client.payments.listByBooking({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).toHaveLength(1);
+        expect(result.body[0]).toMatchObject({ id: payment.id, refundedAmount: 638.4 });
+        expect(result.body[0]!.refunds.map((r) => r.amount)).toEqual([638.4]);
+      }
+    });
+
+    it('商户取消已支付的预订全额退款', async () => {
+      const { booking } = await payBooking();
+
+      const cancelled = await client.bookings.cancel({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(cancelled.status).toBe(200);
+      if (cancelled.status === 200) {
+        expect(cancelled.body.paymentStatus).toBe('refunded');
+      }
+    });
+
+    it('为候补用户保留房间失败时，取消预订仍然成功并完成退款', async () => {
+      const { booking } = await payBooking();
+      await db.insert(waitlistEntries).values({
+        userId: testData.customer.id,
+        hotelId: booking.hotelId,
+        roomTypeId: booking.roomTypeId,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+      });
+
+      // 模拟候补通知写入失败
+      await db.execute(sql`
+        CREATE FUNCTION fail_notification() RETURNS trigger AS $$
+        BEGIN RAISE EXCEPTION '通知服务不可用'; END;
+        $$ LANGUAGE plpgsql
+      `);
+      await db.execute(
+        sql`CREATE TRIGGER fail_notification BEFORE INSERT ON notifications FOR EACH ROW EXECUTE FUNCTION fail_notification()`,
+      );
+
+      try {
+        const cancelled = await client.bookings.cancel({
+          params: { id: String(booking.id) },
+          body: {},
+          ...authHeaders(tokens.merchant),
+        });
+
+        expect(cancelled.status).toBe(200);
+        if (cancelled.status === 200) {
+          expect(cancelled.body.status).toBe('cancelled');
+          expect(cancelled.body.paymentStatus).toBe('refunded');
+        }
+      } finally {
+        await db.execute(sql`DROP TRIGGER fail_notification ON notifications`);
+        await db.execute(sql`DROP FUNCTION fail_notification()`);
+      }
+
+      const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.roomTypeId, booking.roomTypeId));
+      expect(entry?.status).toBe('waiting');
+    });
+
+    it('渠道退款失败时仍取消成功，退款记录为待重试并由后台重试', async () => {
+      const mock = createMockPaymentProvider();
+      let refundFails = true;
+      registerPaymentProvider({
+        ...mock,
+        refund: async (params) => {
+          if (refundFails) throw new PaymentProviderError('支付渠道超时');
+          return mock.refund(params);
+        },
+      });
+
+      try {
+        const { booking, payment } = await payBooking();
+
+        const cancelled = await client.bookings.cancel({
+          params: { id: String(booking.id) },
+          body: {},
+          ...authHeaders(tokens.merchant),
+        });
+
+        expect(cancelled.status).toBe(200);
+        if (cancelled.status === 200) {
+          expect(cancelled.body.status).toBe('cancelled');
+          expect(cancelled.body.paymentStatus).toBe('paid');
+        }
+
+        const pending = await db.select().from(paymentRefunds).where(eq(paymentRefunds.paymentId, payment.id));
+        expect(pending).toHaveLength(1);
+        expect(pending[0]).toMatchObject({
+          status: 'pending',
+          amount: payment.amount,
+          providerRefundId: null,
+          failureReason: '支付渠道超时',
+        });
+
+        // 渠道仍失败时保持待重试
+        expect(await retryPendingRefunds(db)).toBe(0);
+
+        refundFails = false;
+        expect(await retryPendingRefunds(db)).toBe(1);
+        expect(await retryPendingRefunds(db)).toBe(0);
+
+        const [refund] = await db.select().from(paymentRefunds).where(eq(paymentRefunds.paymentId, payment.id));
+        expect(refund?.status).toBe('succeeded');
+        expect(refund?.providerRefundId).toBeTruthy();
+
+        const detail = await client.bookings.get({
+          params: { id: String(booking.id) },
+          ...authHeaders(tokens.customer),
+        });
+        expect(detail.status).toBe(200);
+        if (detail.status === 200) {
+          expect(detail.body.paymentStatus).toBe('refunded');
+        }
+      } finally {
+        registerPaymentProvider(createMockPaymentProvider());
+      }
+    });
+
+    it('已支付的预订不能修改', async () => {
+      const { booking } = await payBooking();
+
+      const result = await client.bookings.modify({
+        params: { id: String(booking.id) },
+        body: { checkIn: daysFromToday(11), checkOut: daysFromToday(13) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+  });
+});
+
+// =============================================================================
+// 候补模块测试
+// =============================================================================
+
+describe('候补模块', () => {
+  const checkIn = daysFromToday(10);
+  const checkOut = daysFromToday(12);
+
+  let waiter: { id: number; token: string };
+
+  const bookLastRoom = async () => {
+    await db.update(roomTypes).set({ stock: 1 }).where(eq(roomTypes.id, testData.roomType.id));
+
+    return createBooking({ checkIn, checkOut });
+  };
+
+  const joinWaitlist = async (token: string) =>
+    client.waitlist.create({
+      body: { roomTypeId: testData.roomType.id, checkIn, checkOut },
+      ...authHeaders(token),
+    });
+
+  beforeEach(async () => {
+    const [user] = await db
+      .insert(users)
+      .values({
+        username: 'waiter',
+        password: await bcrypt.hash('password123', 10),
+        role: 'customer',
+      })
+      .returning();
+
+    if (!user) throw new Error('Failed to create waiter');
+    waiter = { id: user.id, token: createToken(user.id, 'customer') };
+  });
+
+  it('有房时不能加入候补', async () => {
+    const result = await joinWaitlist(waiter.token);
+
+    expect(result.status).toBe(400);
+  });
+
+  it('满房时加入候补，重复加入返回400', async () => {
+    await bookLastRoom();
+
+    const result = await joinWaitlist(waiter.token);
+    const duplicate = await joinWaitlist(waiter.token);
+
+    expect(result.status).toBe(201);
+    if (result.status === 201) {
+      expect(result.body.status).toBe('waiting');
+    }
+    expect(duplicate.status).toBe(400);
+  });
+
+  it('取消预订后为第一位候补用户保留房间并发送通知', async () => {
+    const booking = await bookLastRoom();
+    await joinWaitlist(waiter.token);
+    await joinWaitlist(tokens.customer);
+
+    await client.bookings.cancel({
+      params: { id: String(booking.id) },
+      body: {},
+      ...authHeaders(tokens.customer),
+    });
+
+    const entries = await client.waitlist.list({ ...authHeaders(waiter.token) });
+
+    expect(entries.status).toBe(200);
+    if (entries.status !== 200) return;
+
+    const [entry] = entries.body;
+    expect(entry?.status).toBe('offered');
+    expect(entry?.booking?.status).toBe('pending');
+    expect(entry?.booking?.expiresAt).toBeTruthy();
+
+    const held = await client.bookings.get({
+      params: { id: String(entry!.bookingId) },
+      ...authHeaders(waiter.token),
+    });
+
+    expect(held.status).toBe(200);
+    if (held.status === 200) {
+      expect(held.body.userId).toBe(waiter.id);
+      expect(held.body.totalPrice).toBe(798);
+    }
+
+    const notifications = await client.notifications.list({
+      query: { unread: 'true' },
+      ...authHeaders(waiter.token),
+    });
+
+    expect(notifications.status).toBe(200);
+    if (notifications.status === 200) {
+      expect(notifications.body).toHaveLength(1);
+      expect(notifications.body[0]).toMatchObject({ type: 'waitlist_offered', bookingId: entry!.bookingId });
+    }
+
+    // 房间已保留给第一位候补用户，第二位仍在排队
+    const others = await client.waitlist.list({ ...authHeaders(tokens.customer) });
+
+    expect(others.status).toBe(200);
+    if (others.status === 200) {
+      expect(others.body[0]?.status).toBe('waiting');
+    }
+  });
+
+  it('保留预订过期后房间转给下一位候补用户', async () => {
+    const booking = await bookLastRoom();
+    await joinWaitlist(waiter.token);
+    await joinWaitlist(tokens.customer);
+
+    await client.bookings.cancel({
+      params: { id: String(booking.id) },
+      body: {},
+      ...authHeaders(tokens.customer),
+    });
+
+    const expired = await expirePendingBookings(db, new Date(Date.now() + 24 * 60 * 60 * 1000));
+    await offerWaitlistHolds(
+      db,
+      expired.map((b) => b.roomTypeId),
+    );
+
+    const first = await client.waitlist.list({ ...authHeaders(waiter.token) });
+    const second = await client.waitlist.list({ ...authHeaders(tokens.customer) });
+
+    expect(first.status === 200 && first.body[0]?.status).toBe('expired');
+    expect(second.status === 200 && second.body[0]?.status).toBe('offered');
+  });
+
+  it('增加库存后为候补用户保留房间', async () => {
+    await bookLastRoom();
+    await joinWaitlist(waiter.token);
+
+    await client.roomTypes.update({
+      params: { id: String(testData.roomType.id) },
+      body: { stock: 2 },
+      ...authHeaders(tokens.merchant),
+    });
+
+    const entries = await client.waitlist.list({ ...authHeaders(waiter.token) });
+
+    expect(entries.status === 200 && entries.body[0]?.status).toBe('offered');
+  });
+
+  it('取消候补后不再保留房间', async () => {
+    const booking = await bookLastRoom();
+    const joined = await joinWaitlist(waiter.token);
+
+    if (joined.status !== 201) throw new Error('Failed to join waitlist');
+
+    const cancelled = await client.waitlist.cancel({
+      params: { id: String(joined.body.id) },
+      ...authHeaders(waiter.token),
+    });
+
+    expect(cancelled.status).toBe(200);
+
+    await client.bookings.cancel({
+      params: { id: String(booking.id) },
+      body: {},
+      ...authHeaders(tokens.customer),
+    });
+
+    const entries = await client.waitlist.list({ ...authHeaders(waiter.token) });
+
+    expect(entries.status === 200 && entries.body[0]?.status).toBe('cancelled');
+  });
+});
+
+// =============================================================================
+// 日历导出测试
+// =============================================================================
+
+describe('日历导出', () => {
+  const guest = { guestName: '张三', specialRequests: '高楼层, 无烟房' };
+
+  const createFeedToken = async (token: string, hotelId?: number) => {
+    const result = await client.calendar.createFeedToken({
+      body: hotelId ? { hotelId } : {},
+      ...authHeaders(token),
+    });
+
+    if (result.status !== 201) throw new Error('Failed to create feed token');
+    return result.body;
+  };
+
+  describe('GET /bookings/:id/calendar.ics', () => {
+    it('导出单个预订为全天日历事件', async () => {
+      const booking = await createBooking(guest);
+
+      const result = await client.calendar.booking({
+        params: { id: String(booking.id) },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        const ics = result.body as string;
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+        expect(ics).toContain(`UID:booking-${booking.id}@esu`);
+        expect(ics).toContain(`DTSTART;VALUE=DATE:${booking.checkIn.replaceAll('-', '')}`);
+        expect(ics).toContain(`DTEND;VALUE=DATE:${booking.checkOut.replaceAll('-', '')}`);
+        expect(ics).toContain(`SUMMARY:入住 ${testData.hotel.nameZh}`);
+        expect(ics).toContain('STATUS:TENTATIVE');
+        expect(ics.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+      }
+    });
+
+    it('其他用户导出预订返回403', async () => {
+      const [otherCustomer] = await db
+        .insert(users)
+        .values({
+          username: 'othercustomer',
+          password: await bcrypt.hash('password123', 10),
+          role: 'customer',
+        })
+        .returning();
+
+      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
+
+      const result = await client.calendar.booking({
+        params: { id: String(testData.booking.id) },
+        ...authHeaders(createToken(otherCustomer.id, 'customer')),
+      });
+
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('日历订阅', () => {
+    it('用户通过订阅链接获取自己的行程', async () => {
+      const booking = await createBooking(guest);
+      const feed = await createFeedToken(tokens.customer);
+
+      expect(feed.scope).toBe('user');
+      expect(feed.url).toContain(`/calendar/users/${testData.customer.id}/feed.ics?token=`);
+
+      const result = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: feed.token },
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).toContain(`UID:booking-${booking.id}@esu`);
+        expect(result.body).toContain('X-WR-CALNAME:我的酒店行程');
+      }
+    });
+
+    it('商户通过订阅链接获取酒店到店日历', async () => {
+      const booking = await createBooking(guest);
+      const feed = await createFeedToken(tokens.merchant, testData.hotel.id);
+
+      const result = await client.calendar.hotelFeed({
+        params: { id: String(testData.hotel.id) },
+        query: { token: feed.token },
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).toContain(`UID:booking-${booking.id}@esu`);
+        expect(result.body).toContain('SUMMARY:到店：张三');
+        expect(result.body).toContain('特殊要求：高楼层\\, 无烟房');
+      }
+    });
+
+    it('已取消的预订不出现在订阅中', async () => {
+      const booking = await createBooking(guest);
+      await client.bookings.cancel({
+        params: { id: String(booking.id) },
+        body: {},
+        ...authHeaders(tokens.customer),
+      });
+      const feed = await createFeedToken(tokens.customer);
+
+      const result = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: feed.token },
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).not.toContain(`UID:booking-${booking.id}@esu`);
+      }
+    });
+
+    it('token 与订阅对象不匹配返回403', async () => {
+      const feed = await createFeedToken(tokens.customer);
+
+      const otherHotel = await client.calendar.hotelFeed({
+        params: { id: String(testData.hotel.id) },
+        query: { token: feed.token },
+      });
+      const loginToken = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: tokens.customer },
+      });
+
+      expect(otherHotel.status).toBe(403);
+      expect(loginToken.status).toBe(403);
+    });
+
+    it('订阅 token 必须带订阅 aud，不能作为登录凭证使用', async () => {
+      const feed = await createFeedToken(tokens.customer);
+      const user = await db.query.users.findFirst({ where: { id: { eq: testData.customer.id } } });
+      const withoutAudience = app.jwt.sign({
+        scope: 'user',
+        id: testData.customer.id,
+        uid: testData.customer.id,
+        nonce: user?.calendarFeedNonce,
+      });
+
+      const forged = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: withoutAudience },
+      });
+      const asLogin = await client.calendar.createFeedToken({
+        body: {},
+        ...authHeaders(feed.token),
+      });
+
+      expect(forged.status).toBe(403);
+      expect(asLogin.status).toBe(401);
+    });
+
+    it('作废订阅链接后旧 token 失效，重新生成的链接可用', async () => {
+      const userFeed = await createFeedToken(tokens.customer);
+      const hotelFeed = await createFeedToken(tokens.merchant, testData.hotel.id);
+
+      const revoked = await client.calendar.revokeFeedTokens({ ...authHeaders(tokens.customer) });
+      expect(revoked.status).toBe(200);
+
+      const oldUserFeed = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: userFeed.token },
+      });
+      const otherUsersFeed = await client.calendar.hotelFeed({
+        params: { id: String(testData.hotel.id) },
+        query: { token: hotelFeed.token },
+      });
+
+      expect(oldUserFeed.status).toBe(403);
+      expect(otherUsersFeed.status).toBe(200);
+
+      const renewed = await createFeedToken(tokens.customer);
+      const result = await client.calendar.userFeed({
+        params: { id: String(testData.customer.id) },
+        query: { token: renewed.token },
+      });
+
+      expect(result.status).toBe(200);
+    });
+
+    it('酒店转给其他商户后原商户的订阅链接失效', async () => {
+      const feed = await createFeedToken(tokens.merchant, testData.hotel.id);
+      const [otherMerchant] = await db
+        .insert(users)
+        .values({
+          username: 'newowner',
+          password: await bcrypt.hash('password123', 10),
+          role: 'merchant',
+        })
+        .returning();
+
+      if (!otherMerchant) throw new Error('Failed to create otherMerchant');
+
+      await db.update(hotels).set({ ownerId: otherMerchant.id }).where(eq(hotels.id, testData.hotel.id));
+
+      const result = await client.calendar.hotelFeed({
+        params: { id: String(testData.hotel.id) },
+        query: { token: feed.token },
+      });
+
+      expect(result.status).toBe(403);
+    });
+
+    it('商户不能订阅其他商户的酒店', async () => {
+      const [otherMerchant] = await db
+        .insert(users)
+        .values({
+          username: 'othermerchant',
+          password: await bcrypt.hash('password123', 10),
+          role: 'merchant',
+        })
+        .returning();
+
+      if (!otherMerchant) throw new Error('Failed to create otherMerchant');
+
+      const result = await client.calendar.createFeedToken({
+        body: { hotelId: testData.hotel.id },
+        ...authHeaders(createToken(otherMerchant.id, 'merchant')),
+      });
+
+      expect(result.status).toBe(403);
+    });
+  });
+});
+
+// =============================================================================
+// 评分模块测试
+// =============================================================================
+
+describe('评分模块', () => {
+  describe('POST /ratings', () => {
+    it('用户创建评分', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 5,
+          comment: '非常棒的酒店！',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.score).toBe(5);
+        expect(result.body.comment).toBe('非常棒的酒店！');
+      }
+    });
+
+    it('评分分数为1分', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 1,
+          comment: '很差',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.score).toBe(1);
+      }
+    });
+
+    it('评分不带评论', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.comment).toBeNull();
+      }
+    });
+
+    it('评分分数为0返回400', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 0,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBeGreaterThanOrEqual(400);
+    });
+
+    it('评分分数超过5返回400', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 6,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBeGreaterThanOrEqual(400);
+    });
+
+    it('评分后更新酒店平均评分', async () => {
+      // 创建一个新酒店
+      const [hotelForRating] = await db
+        .insert(hotels)
+        .values({
+          nameZh: '评分测试酒店',
+          ownerId: testData.merchant.id,
+          address: '评分测试地址',
+          starRating: 4,
+          openingDate: '2023-01-01',
+          status: 'approved',
+        })
+        .returning();
+
+      if (!hotelForRating) throw new Error('Failed to create hotelForRating');
+
+      // 创建第一个评分
+      await client.ratings.create({
+        body: {
+          hotelId: hotelForRating.id,
+          score: 5,
+          comment: '非常好',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      // 获取酒店信息，验证平均评分已更新
+      const hotelResult = await client.hotels.get({
+        params: { id: String(hotelForRating.id) },
+      });
+
+      expect(hotelResult.status).toBe(200);
+      if (hotelResult.status === 200) {
+        expect(hotelResult.body.averageRating).toBe(5);
+        expect(hotelResult.body.ratingCount).toBe(1);
+      }
+    });
+
+    it('商户创建评分返回403', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: null,
+        },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(403);
+    });
+
+    it('管理员创建评分返回403', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: null,
+        },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(result.status).toBe(403);
+    });
+
+    it('未登录创建评分返回401', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: null,
+        },
+      });
+
+      expect(result.status).toBe(401);
+    });
+
+    it('重复评分返回400', async () => {
+      // 先创建一个评分
+      await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      // 再次评分
+      const result = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 3,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('酒店不存在返回404', async () => {
+      const result = await client.ratings.create({
+        body: {
+          hotelId: 9999,
+          score: 5,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(404);
+    });
+  });
+
+  describe('GET /ratings', () => {
+    it('获取评分列表', async () => {
+      const result = await client.ratings.list({});
+
+      expect(result.status).toBe(200);
+    });
+
+    it('按酒店筛选', async () => {
+      const result = await client.ratings.list({
+        query: { hotelId: testData.hotel.id },
+      });
+
+      expect(result.status).toBe(200);
+    });
+  });
+
+  describe('GET /ratings/:id', () => {
+    it('获取评分详情', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 4,
+          comment: '测试评论',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (createResult.status === 201) {
+        const result = await client.ratings.get({
+          params: { id: String(createResult.body.id) },
+        });
+
+        expect(result.status).toBe(200);
+        if (result.status === 200) {
+          expect(result.body.score).toBe(4);
+        }
+      }
+    });
+
+    it('评分不存在返回404', async () => {
+      const result = await client.ratings.get({
+        params: { id: '9999' },
+      });
+
+      expect(result.status).toBe(404);
+    });
+  });
+
+  describe('PUT /ratings/:id', () => {
+    it('用户修改自己的评分', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 3,
+          comment: '原始评论',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (createResult.status === 201) {
+        const result = await client.ratings.update({
+          params: { id: String(createResult.body.id) },
+          body: { score: 4, comment: '修改后的评论' },
+          ...authHeaders(tokens.customer),
+        });
+
+        expect(result.status).toBe(200);
+        if (result.status === 200) {
+          expect(result.body.score).toBe(4);
+          expect(result.body.comment).toBe('修改后的评论');
+        }
+      }
+    });
+
+    it('用户修改其他用户的评分返回403', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 3,
+          comment: '其他用户的评分',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      // 创建另一个用户
+      const [otherCustomer] = await db
+        .insert(users)
+        .values({
+          username: 'othercustomer4',
+          password: await bcrypt.hash('password123', 10),
+          role: 'customer',
+        })
+        .returning();
+
+      if (!otherCustomer) throw new Error('Failed to create otherCustomer');
+
+      const otherToken = createToken(otherCustomer.id, 'customer');
+
+      if (createResult.status === 201) {
+        // 另一个用户尝试修改评分
+        const result = await client.ratings.update({
+          params: { id: String(createResult.body.id) },
+          body: { score: 5, comment: '试图修改' },
+          ...authHeaders(otherToken),
+        });
+
+        expect(result.status).toBe(403);
+      }
+    });
+
+    it('管理员修改评分失败', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 3,
+          comment: '用户评分',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (createResult.status === 201) {
+        // 管理员修改评分 - 由于contract权限限制为customer，admin无法通过权限检查
+        // 所以这个测试改为验证admin不能修改（返回403）
+        const result = await client.ratings.update({
+          params: { id: String(createResult.body.id) },
+          body: { score: 5 },
+          ...authHeaders(tokens.admin),
+        });
+
+        // 实际上由于权限限制，admin会返回403
+        expect(result.status).toBe(403);
+      }
+    });
+
+    it('更新评分后更新酒店平均评分', async () => {
+      // 创建一个新酒店
+      const [hotelForRating] = await db
+        .insert(hotels)
+        .values({
+          nameZh: '评分更新测试酒店',
+          ownerId: testData.merchant.id,
+          address: '评分更新测试地址',
+          starRating: 4,
+          openingDate: '2023-01-01',
+          status: 'approved',
+        })
+        .returning();
+
+      if (!hotelForRating) throw new Error('Failed to create hotelForRating');
+
+      // 创建第一个评分
+      await client.ratings.create({
+        body: {
+          hotelId: hotelForRating.id,
+          score: 3,
+          comment: '3分',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      // 获取评分
+      const ratings = await db.query.ratings.findMany({
+        where: { hotelId: { eq: hotelForRating.id } },
+      });
+
+      if (!ratings[0]) throw new Error('Failed to find rating');
+
+      // 修改评分
+      await client.ratings.update({
+        params: { id: String(ratings[0].id) },
+        body: { score: 5 },
+        ...authHeaders(tokens.customer),
+      });
+
+      // 验证酒店平均评分已更新
+      const hotelResult = await client.hotels.get({
+        params: { id: String(hotelForRating.id) },
+      });
+
+      expect(hotelResult.status).toBe(200);
+      if (hotelResult.status === 200) {
+        expect(hotelResult.body.averageRating).toBe(5);
+      }
+    });
+
+    it('更新不存在的评分返回404', async () => {
+      const result = await client.ratings.update({
+        params: { id: '99999' },
+        body: { score: 5 },
+        ...authHeaders(tokens.customer),
+      });
+
+      expect(result.status).toBe(404);
+    });
+
+    it('未登录修改评分返回401', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 3,
+          comment: '测试',
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (createResult.status === 201) {
+        const result = await client.ratings.update({
+          params: { id: String(createResult.body.id) },
+          body: { score: 5 },
+        });
+
+        expect(result.status).toBe(401);
+      }
+    });
+  });
+
+  describe('DELETE /ratings/:id', () => {
+    it('用户删除自己的评分', async () => {
+      // 先创建评分
+      const createResult = await client.ratings.create({
+        body: {
+          hotelId: testData.hotel.id,
+          score: 2,
+          comment: null,
+        },
+        ...authHeaders(tokens.customer),
+      });
+
+      if (createResult.status === 201) {
+        const result = await client.ratings.delete({
+          params: { id: String(createResult.body.id) },
+          ...authHeaders(tokens.customer),
+        });
+
+        expect(result.status).toBe(200);
+      }
+    });
+  });
+});
+
+// =============================================================================
+// 轮播图模块测试
+// =============================================================================
+
+describe('轮播图模块', () => {
+  describe('GET /carousel', () => {
+    it('获取轮播图列表', async () => {
+      const result = await client.carousel.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        // 测试酒店有图片，应该出现在轮播图中
+        expect(result.body.length).toBeGreaterThan(0);
+        // 检查返回的数据结构
+        expect(result.body[0]).toHaveProperty('hotelId');
+        expect(result.body[0]).toHaveProperty('image');
+      }
+    });
+
+    it('无图片的酒店不出现', async () => {
+      // 创建一个无图片的酒店
+      await db.insert(hotels).values({
+        nameZh: '无图片酒店',
+        ownerId: testData.merchant.id,
+        address: '无图片地址',
+        starRating: 3,
+        openingDate: '2023-01-01',
+        status: 'approved',
+        images: null,
+      });
+
+      const result = await client.carousel.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        // 验证无图片的酒店不在列表中
+        const hotelIds = result.body.map((item: any) => item.hotelId);
+        const hotel = await db.query.hotels.findFirst({
+          where: { nameZh: { eq: '无图片酒店' } },
+        });
+        if (hotel) {
+          expect(hotelIds).not.toContain(hotel.id);
+        }
+      }
+    });
+
+    it('未审核通过的酒店不出现', async () => {
+      // 创建一个待审核的酒店但有图片
+      await db.insert(hotels).values({
+        nameZh: '待审核有图酒店',
+        ownerId: testData.merchant.id,
+        address: '待审核地址',
+        starRating: 3,
+        openingDate: '2023-01-01',
+        status: 'pending',
+        images: ['https://example.com/pending.jpg'],
+      });
+
+      const result = await client.carousel.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        // 验证待审核的酒店不在列表中
+        const hotelIds = result.body.map((item: any) => item.hotelId);
+        const hotel = await db.query.hotels.findFirst({
+          where: { nameZh: { eq: '待审核有图酒店' } },
+        });
+        if (hotel) {
+          expect(hotelIds).not.toContain(hotel.id);
+        }
+      }
+    });
+
+    it('已下线的酒店不出现', async () => {
+      // 创建一个已下线的酒店但有图片
+      await db.insert(hotels).values({
+        nameZh: '已下线有图酒店',
+        ownerId: testData.merchant.id,
+        address: '已下线地址',
+        starRating: 3,
+        openingDate: '2023-01-01',
+        status: 'offline',
+        images: ['https://example.com/offline.jpg'],
+      });
+
+      const result = await client.carousel.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        // 验证已下线的酒店不在列表中
+        const hotelIds = result.body.map((item: any) => item.hotelId);
+        const hotel = await db.query.hotels.findFirst({
+          where: { nameZh: { eq: '已下线有图酒店' } },
+        });
+        if (hotel) {
+          expect(hotelIds).not.toContain(hotel.id);
+        }
+      }
+    });
+
+    it('软删除的酒店不出现', async () => {
+      // 创建一个软删除的酒店但有图片
+      const [softDeletedHotel] = await db
+        .insert(hotels)
+        .values({
+          nameZh: '软删除有图酒店',
+          ownerId: testData.merchant.id,
+          address: '软删除地址',
+          starRating: 3,
+          openingDate: '2023-01-01',
+          status: 'approved',
+          images: ['https://example.com/deleted.jpg'],
+        })
+        .returning();
+
+      if (!softDeletedHotel) throw new Error('Failed to create softDeletedHotel');
+
+      // 软删除
+      await db.update(hotels).set({ deletedAt: new Date() }).where(eq(hotels.id, softDeletedHotel.id));
+
+      const result = await client.carousel.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        const hotelIds = result.body.map((item: any) => item.hotelId);
+        expect(hotelIds).not.toContain(softDeletedHotel.id);
+      }
+    });
+
+    it('限制返回数量', async () => {
+      const result = await client.carousel.list({
+        query: { limit: '1' },
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.length).toBeLessThanOrEqual(1);
+      }
+    });
+  });
+});
+
+describe('图片上传', () => {
+  let uploadDir: string;
+
+  beforeAll(async () => {
+    uploadDir = await mkdtemp(path.join(tmpdir(), 'esu-uploads-'));
+    process.env.UPLOAD_DIR = uploadDir;
+  });
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  /** 构造 multipart/form-data 请求体 */
+  const uploadImage = async (token: string, data: Buffer, filename: string, type: string) => {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(data)], { type }), filename);
+    const request = new Request('http://localhost/uploads/images', { method: 'POST', body: form });
+
+    return app.inject({
+      method: 'POST',
+      url: '/uploads/images',
+      headers: {
+        authorization: `Bearer ${token}`,
+        'content-type': request.headers.get('content-type')!,
+      },
+      payload: Buffer.from(await request.arrayBuffer()),
+    });
+  };
+
+  const createPng = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: '#3366cc' } })
+      .png()
+      .toBuffer();
+
+  it('商户上传图片生成缩略图并返回可写入酒店的URL', async () => {
+    const png = await createPng(1200, 800);
+
+    const response = await uploadImage(tokens.merchant, png, 'lobby.png', 'image/png');
+
+    expect(response.statusCode).toBe(201);
+    const body = response.json();
+    expect(body).toMatchObject({ contentType: 'image/png', width: 1200, height: 800 });
+    expect(body.url).toMatch(/^http:\/\/localhost(:\d+)?\/uploads\/images\/[\w-]+\.png$/);
+    expect(body.thumbnailUrl).toMatch(/_thumb\.jpg$/);
+
+    const savedPath = path.join(uploadDir, new URL(body.url).pathname.replace(/^\/uploads\//, ''));
+    expect((await stat(savedPath)).size).toBe(body.size);
+
+    const thumbPath = path.join(uploadDir, new URL(body.thumbnailUrl).pathname.replace(/^\/uploads\//, ''));
+    const thumb = await sharp(thumbPath).metadata();
+    expect(thumb.format).toBe('jpeg');
+    expect(thumb.width).toBe(400);
+    expect(thumb.height).toBeLessThanOrEqual(400);
+
+    const updated = await client.hotels.update({
+      params: { id: String(testData.pendingHotel.id) },
+      body: { images: [body.url] },
+      ...authHeaders(tokens.merchant),
+    });
+
+    expect(updated.status).toBe(200);
+  });
+
+  it('以文件内容判断格式，伪装成图片的文件返回400', async () => {
+    const response = await uploadImage(tokens.merchant, Buffer.from('not an image'), 'fake.png', 'image/png');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('文件头完整但内容截断的图片返回400', async () => {
+    const jpeg = await sharp({
+      create: {
+        width: 200,
+        height: 200,
+        channels: 3,
+        background: '#000',
+        noise: { type: 'gaussian', mean: 128, sigma: 30 },
+      },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const response = await uploadImage(tokens.merchant, jpeg.subarray(0, jpeg.length / 2), 'cut.jpg', 'image/jpeg');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('保存的原图去除EXIF元数据并按拍摄方向摆正', async () => {
+    const jpeg = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#3366cc' } })
+      .jpeg()
+      .withExif({ IFD0: { Make: 'TestCamera' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '39/1 54/1 0/1' } })
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    expect((await sharp(jpeg).metadata()).exif).toBeDefined();
+
+    const response = await uploadImage(tokens.merchant, jpeg, 'photo.jpg', 'image/jpeg');
+
+    expect(response.statusCode).toBe(201);
+    const body = response.json();
+    expect(body).toMatchObject({ width: 200, height: 300 });
+
+    const savedPath = path.join(uploadDir, new URL(body.url).pathname.replace(/^\/uploads\//, ''));
+    const saved = await sharp(savedPath).metadata();
+    expect(saved.exif).toBeUndefined();
+    expect(saved.orientation).toBeUndefined();
+    expect(saved.width).toBe(200);
+  });
+
+  it('不支持的图片格式返回400', async () => {
+    const gif = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000' } })
+      .gif()
+      .toBuffer();
+
+    const response = await uploadImage(tokens.merchant, gif, 'a.gif', 'image/gif');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('超过大小限制返回413', async () => {
+    process.env.UPLOAD_MAX_BYTES = '1024';
+
+    try {
+      const noise = await sharp({
+        create: {
+          width: 100,
+          height: 100,
+          channels: 3,
+          background: '#000',
+          noise: { type: 'gaussian', mean: 128, sigma: 30 },
+        },
+      })
+        .png()
+        .toBuffer();
+
+      const response = await uploadImage(tokens.merchant, noise, 'big.png', 'image/png');
+      expect(response.statusCode).toBe(413);
+    } finally {
+      delete process.env.UPLOAD_MAX_BYTES;
+    }
+  });
+
+  it('普通用户上传返回403', async () => {
+    const response = await uploadImage(tokens.customer, await createPng(10, 10), 'a.png', 'image/png');
+
+    expect(response.statusCode).toBe(403);
+  });
+});
+
+describe('城市模块', () => {
+  const createCity = async (name: string, districtNames: string[] = []) => {
+    const result = await client.cities.create({
+      body: { name, districts: districtNames },
+      ...authHeaders(tokens.admin),
+    });
+
+    if (result.status !== 201) throw new Error('Failed to create city');
+    return result.body;
+  };
+
+  const hotelBody = (nameZh: string) => ({
+    nameZh,
+    nameEn: null,
+    address: '测试路1号',
+    latitude: null,
+    longitude: null,
+    starRating: 4,
+    openingDate: '2023-01-01',
+    ownerId: testData.merchant.id,
+    nearbyAttractions: null,
+    images: null,
+    facilities: null,
+    tags: null,
+  });
+
+  describe('城市管理', () => {
+    it('管理员创建城市及区县，城市名称去掉"市"后缀', async () => {
+      const city = await createCity('上海市', ['浦东新区', '黄浦区']);
+
+      expect(city.name).toBe('上海');
+      expect(city.districts.map((d) => d.name)).toEqual(['浦东新区', '黄浦区']);
+      expect(city.districts.every((d) => d.cityId === city.id)).toBe(true);
+    });
+
+    it('重复创建城市返回409', async () => {
+      await createCity('上海');
+
+      const result = await client.cities.create({
+        body: { name: '上海市' },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(result.status).toBe(409);
+    });
+
+    it('商户创建城市返回403', async () => {
+      const result = await client.cities.create({
+        body: { name: '上海' },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(403);
+    });
+
+    it('为城市添加区县，同一城市内区县不能重名', async () => {
+      const city = await createCity('北京', ['朝阳区']);
+
+      const created = await client.cities.createDistrict({
+        params: { id: String(city.id) },
+        body: { name: '海淀区' },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(created.status).toBe(201);
+
+      const duplicate = await client.cities.createDistrict({
+        params: { id: String(city.id) },
+        body: { name: '朝阳区' },
+        ...authHeaders(tokens.admin),
+      });
+
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('城市列表按名称排序并包含区县', async () => {
+      await createCity('上海', ['黄浦区', '浦东新区']);
+      await createCity('北京', ['朝阳区']);
+
+      const result = await client.cities.list({});
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body).toHaveLength(2);
+        const shanghai = result.body.find((c) => c.name === '上海');
+        expect(shanghai?.districts.map((d) => d.name).sort()).toEqual(['浦东新区', '黄浦区'].sort());
+      }
+    });
+  });
+
+  describe('酒店城市和区县', () => {
+    it('只选择区县时按区县补全城市', async () => {
+      const city = await createCity('杭州', ['西湖区']);
+
+      const result = await client.hotels.create({
+        body: { ...hotelBody('西湖酒店'), districtId: city.districts[0]!.id },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(201);
+      if (result.status === 201) {
+        expect(result.body.cityId).toBe(city.id);
+        expect(result.body.districtId).toBe(city.districts[0]!.id);
+      }
+    });
+
+    it('区县不属于所选城市返回400', async () => {
+      const hangzhou = await createCity('杭州', ['西湖区']);
+      const suzhou = await createCity('苏州');
+
+      const result = await client.hotels.create({
+        body: { ...hotelBody('错城酒店'), cityId: suzhou.id, districtId: hangzhou.districts[0]!.id },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('城市不存在返回400', async () => {
+      const result = await client.hotels.create({
+        body: { ...hotelBody('无城酒店'), cityId: 9999 },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(400);
+    });
+
+    it('更换城市时清空原区县', async () => {
+      const hangzhou = await createCity('杭州', ['西湖区']);
+      const suzhou = await createCity('苏州');
+      await db
+        .update(hotels)
+        .set({ cityId: hangzhou.id, districtId: hangzhou.districts[0]!.id })
+        .where(eq(hotels.id, testData.pendingHotel.id));
+
+      const result = await client.hotels.update({
+        params: { id: String(testData.pendingHotel.id) },
+        body: { cityId: suzhou.id },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.cityId).toBe(suzhou.id);
+        expect(result.body.districtId).toBeNull();
+      }
+    });
+
+    it('已上线酒店修改城市进入修改稿，审核通过后生效', async () => {
+      const city = await createCity('杭州', ['西湖区']);
+
+      const draft = await client.hotels.update({
+        params: { id: String(testData.hotel.id) },
+        body: { districtId: city.districts[0]!.id },
+        ...authHeaders(tokens.merchant),
+      });
+
+      expect(draft.status).toBe(202);
+
+      await client.hotels.approve({
+        params: { id: String(testData.hotel.id) },
+        body: {},
+        ...authHeaders(tokens.admin),
+      });
+
+      const [hotel] = await db.select().from(hotels).where(eq(hotels.id, testData.hotel.id));
+      expect(hotel?.cityId).toBe(city.id);
+      expect(hotel?.districtId).toBe(city.districts[0]!.id);
+    });
+  });
+
+  describe('GET /hotels 按城市筛选', () => {
+    it('只返回所选城市的酒店，"市"后缀不影响匹配', async () => {
+      const [shanghai] = await db.insert(cities).values({ name: '上海' }).returning();
+      await db.insert(cities).values({ name: '北京' });
+      await db.update(hotels).set({ cityId: shanghai!.id }).where(eq(hotels.id, testData.hotel.id));
+
+      const inShanghai = await client.hotels.list({ query: { city: '上海市' } });
+
+      expect(inShanghai.status).toBe(200);
+      if (inShanghai.status === 200) {
+        expect(inShanghai.body.total).toBe(1);
+        expect(inShanghai.body.hotels[0]?.id).toBe(testData.hotel.id);
+      }
+
+      const inBeijing = await client.hotels.list({ query: { city: '北京' } });
+
+      expect(inBeijing.status).toBe(200);
+      if (inBeijing.status === 200) {
+        expect(inBeijing.body.total).toBe(0);
+      }
+    });
+
+    it('未设置城市的旧酒店按地址匹配城市', async () => {
+      await db.insert(cities).values({ name: '北京' });
+
+      const result = await client.hotels.list({ query: { city: '北京市' } });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.hotels.map((h) => h.id)).toEqual([testData.hotel.id]);
+        expect(result.body.hotels[0]?.cityId).toBeNull();
+      }
+    });
+
+    it('新建城市不修改旧酒店的城市，仍按地址匹配', async () => {
+      await createCity('北京');
+
+      const [hotel] = await db.select().from(hotels).where(eq(hotels.id, testData.hotel.id));
+      expect(hotel?.cityId).toBeNull();
+
+      const result = await client.hotels.list({ query: { city: '北京' } });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.hotels.map((h) => h.id)).toEqual([testData.hotel.id]);
+      }
+    });
+
+    it('一次性回填只处理地址中能唯一确定城市的酒店', async () => {
+      const [, shanghai] = await db
+        .insert(cities)
+        .values([{ name: '北京' }, { name: '上海' }])
+        .returning();
+      await db.update(hotels).set({ address: '上海市北京路5号' }).where(eq(hotels.id, testData.hotel.id));
+      const [before] = await db.select().from(hotels).where(eq(hotels.id, testData.pendingHotel.id));
+
+      expect(await backfillHotelCities(db)).toBe(1);
+
+      const [hotel] = await db.select().from(hotels).where(eq(hotels.id, testData.hotel.id));
+      const [pending] = await db.select().from(hotels).where(eq(hotels.id, testData.pendingHotel.id));
+      // 地址同时包含上海和北京，无法确定，保持未设置
+      expect(hotel?.cityId).toBeNull();
+      expect(pending?.cityId).toBe(shanghai!.id);
+      expect(pending?.updatedAt).toEqual(before?.updatedAt);
+
+      // 再次执行不影响已设置城市的酒店
+      expect(await backfillHotelCities(db)).toBe(0);
+    });
+
+    it('不存在的城市返回空列表', async () => {
+      const result = await client.hotels.list({ query: { city: '不存在' } });
+
+      expect(result.status).toBe(200);
+      if (result.status === 200) {
+        expect(result.body.total).toBe(0);
+      }
+    });
+  });
+});
+
+describe('GET /hotels/facets', () => {
+  beforeEach(async () => {
+    const [resort, budget] = await db
+      .insert(hotels)
+      .values([
+        {
+          nameZh: '测试酒店B',
+          ownerId: testData.merchant.id,
+          address: '北京市测试路3号',
+          latitude: 39.91,
+          longitude: 116.41,
+          starRating: 5,
+          openingDate: '2020-01-01',
+          status: 'approved',
+          facilities: ['泳池', '停车场'],
+          tags: ['商务'],
+        },
+        {
+          nameZh: '测试酒店C',
+          ownerId: testData.merchant.id,
+          address: '上海市测试路4号',
+          latitude: 31.2304,
+          longitude: 121.4737,
+          starRating: 4,
+          openingDate: '2020-01-01',
+          status: 'approved',
+          facilities: ['停车场'],
+          tags: ['度假'],
+        },
+      ])
+      .returning();
+
+    await db.insert(roomTypes).values([
+      { hotelId: resort!.id, name: '大床房', price: 120, stock: 5 },
+      { hotelId: resort!.id, name: '套房', price: 800, stock: 2 },
+      { hotelId: budget!.id, name: '经济房', price: 90, stock: 5 },
+    ]);
+  });
+
+  it('按星级、设施、标签、价格区间统计上线酒店', async () => {
+    const result = await client.hotels.facets({ query: {} });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.total).toBe(3);
+      expect(result.body.starRating).toEqual([
+        { value: 1, count: 0 },
+        { value: 2, count: 0 },
+        { value: 3, count: 0 },
+        { value: 4, count: 2 },
+        { value: 5, count: 1 },
+      ]);
+      expect(result.body.facilities).toEqual([
+        { value: '停车场', count: 2 },
+        { value: '泳池', count: 1 },
+      ]);
+      expect(result.body.tags).toContainEqual({ value: '商务', count: 2 });
+      expect(result.body.tags).toContainEqual({ value: '度假', count: 1 });
+
+      const priceCount = (min: number) => result.body.price.find((b) => b.min === min)?.count;
+      expect(priceCount(0)).toBe(1);
+      expect(priceCount(100)).toBe(1);
+      expect(priceCount(350)).toBe(1);
+      expect(priceCount(400)).toBe(1);
+      expect(priceCount(200)).toBe(0);
+    }
+  });
+
+  it('分面数量不受自身已选条件影响，受其他条件影响', async () => {
+    const result = await client.hotels.facets({
+      query: { starRating: '5' },
+    });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.total).toBe(1);
+      // 已选5星时仍显示4星的数量
+      expect(result.body.starRating.find((s) => s.value === 4)?.count).toBe(2);
+      // 其他分面只统计5星酒店
+      expect(result.body.facilities).toEqual([
+        { value: '停车场', count: 1 },
+        { value: '泳池', count: 1 },
+      ]);
+      expect(result.body.tags).toEqual([{ value: '商务', count: 1 }]);
+    }
+  });
+
+  it('与酒店列表使用相同的距离和关键词条件', async () => {
+    const query = { userLat: '39.9042', userLng: '116.4074', radius: '5' };
+
+    const [facets, list] = await Promise.all([client.hotels.facets({ query }), client.hotels.list({ query })]);
+
+    expect(facets.status).toBe(200);
+    expect(list.status).toBe(200);
+    if (facets.status === 200 && list.status === 200) {
+      expect(facets.body.total).toBe(list.body.total);
+      expect(facets.body.total).toBe(2);
+      expect(facets.body.facilities).toEqual([
+        { value: '停车场', count: 1 },
+        { value: '泳池', count: 1 },
+      ]);
+    }
+  });
+});
+
+describe('GET /hotels 数据库分页和游标', () => {
+  beforeEach(async () => {
+    // 同一语句插入，创建时间相同；价格、评分也有相同值，用于验证翻页顺序稳定
+    const created = await db
+      .insert(hotels)
+      .values(
+        [0, 1, 2, 3, 4, 5].map((i) => ({
+          nameZh: `分页酒店${i}`,
+          ownerId: testData.merchant.id,
+          address: `北京市分页路${i}号`,
+          latitude: 39.9 + (i % 3) * 0.01,
+          longitude: 116.4,
+          starRating: 4,
+          openingDate: '2020-01-01',
+          status: 'approved' as const,
+          averageRating: i % 2 === 0 ? 4.5 : null,
+        })),
+      )
+      .returning();
+
+    await db
+      .insert(roomTypes)
+      .values(
+        created
+          .slice(0, 4)
+          .map((hotel, i) => ({ hotelId: hotel.id, name: '标准间', price: i < 2 ? 200 : 300, stock: 5 })),
+      );
+  });
+
+  /** 按游标依次请求到最后一页，返回所有酒店 id */
+  const walkCursor = async (query: {
+    sortBy: 'price' | 'rating' | 'createdAt' | 'distance';
+    userLat?: string;
+    userLng?: string;
+    radius?: string;
+  }) => {
+    const ids: number[] = [];
+    let cursor: string | undefined;
+
+    for (let i = 0; i < 20; i++) {
+      const result = await client.hotels.list({ query: { ...query, limit: '2', ...(cursor && { cursor }) } });
+      expect(result.status).toBe(200);
+      if (result.status !== 200) break;
+
+      ids.push(...result.body.hotels.map((h: HotelWithRelations) => h.id));
+      cursor = result.body.nextCursor ?? undefined;
+      if (!cursor) break;
+    }
+
+    return ids;
+  };
+
+  it('偏移分页的总数和各页结果与完整列表一致', async () => {
+    const all = await client.hotels.list({ query: { sortBy: 'price', limit: '100' } });
+    const pages = await Promise.all(
+      ['1', '2', '3', '4'].map((page) => client.hotels.list({ query: { sortBy: 'price', page, limit: '2' } })),
+    );
+
+    expect(all.status).toBe(200);
+    if (all.status === 200) {
+      const allIds = all.body.hotels.map((h: HotelWithRelations) => h.id);
+      expect(all.body.total).toBe(7);
+      expect(allIds).toHaveLength(7);
+
+      const pagedIds = pages.flatMap((result) => {
+        expect(result.status).toBe(200);
+        return result.status === 200 ? result.body.hotels.map((h: HotelWithRelations) => h.id) : [];
+      });
+      expect(pagedIds).toEqual(allIds);
+      pages.forEach((result) => result.status === 200 && expect(result.body.total).toBe(7));
+    }
+  });
+
+  it.each(['price', 'rating', 'createdAt'] as const)('sortBy=%s 时游标翻页不重复不遗漏', async (sortBy) => {
+    const all = await client.hotels.list({ query: { sortBy, limit: '100' } });
+    const ids = await walkCursor({ sortBy });
+
+    expect(all.status).toBe(200);
+    if (all.status === 200) {
+      expect(ids).toEqual(all.body.hotels.map((h: HotelWithRelations) => h.id));
+      expect(new Set(ids).size).toBe(7);
+    }
+  });
+
+  it('位置搜索按距离游标翻页，距离升序', async () => {
+    const query = { userLat: '39.9', userLng: '116.4', radius: '50', sortBy: 'distance' as const };
+    const all = await client.hotels.list({ query: { ...query, limit: '100' } });
+    const ids = await walkCursor(query);
+
+    expect(all.status).toBe(200);
+    if (all.status === 200) {
+      expect(ids).toEqual(all.body.hotels.map((h: HotelWithRelations) => h.id));
+      const distances = all.body.hotels.map((h: HotelWithRelations) => h.distance ?? Infinity);
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    }
+  });
+
+  it('最后一页不返回游标', async () => {
+    const result = await client.hotels.list({ query: { limit: '100' } });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body.nextCursor).toBeNull();
+    }
+  });
+
+  it('无效游标或与排序方式不一致的游标返回400', async () => {
+    const first = await client.hotels.list({ query: { sortBy: 'price', limit: '2' } });
+    expect(first.status).toBe(200);
+    if (first.status !== 200) return;
+
+    const mismatched = await client.hotels.list({
+      query: { sortBy: 'rating', limit: '2', cursor: first.body.nextCursor! },
+    });
+    expect(mismatched.status).toBe(400);
+
+    const invalid = await client.hotels.list({ query: { cursor: 'not-a-cursor' } });
+    expect(invalid.status).toBe(400);
+  });
+});
+
+describe('位置搜索空间索引', () => {
+  const insertHotelAt = async (nameZh: string, latitude: number, longitude: number) => {
+    const [hotel] = await db
+      .insert(hotels)
+      .values({
+        nameZh,
+        ownerId: testData.merchant.id,
+        address: '测试地址',
+        latitude,
+        longitude,
+        starRating: 4,
+        openingDate: '2020-01-01',
+        status: 'approved',
+      })
+      .returning();
+    return hotel!;
+  };
+
+  const searchIds = async (query: { userLat: string; userLng: string; radius?: string }) => {
+    const result = await client.hotels.list({ query: { ...query, limit: '100' } });
+    expect(result.status).toBe(200);
+    return result.status === 200 ? result.body.hotels.map((h: HotelWithRelations) => h.id) : [];
+  };
+
+  it('半径边界与精确距离一致：默认10公里内的酒店返回，稍远的不返回', async () => {
+    // 纬度 1° 约 111.195 公里
+    const inside = await insertHotelAt('边界内酒店', 10 + 9.9 / 111.195, 20);
+    const outside = await insertHotelAt('边界外酒店', 10, 20 + 10.2 / (111.195 * Math.cos((10 * Math.PI) / 180)));
+
+    const ids = await searchIds({ userLat: '10', userLng: '20' });
+
+    expect(ids).toContain(inside.id);
+    expect(ids).not.toContain(outside.id);
+  });
+
+  it('跨越180°经线时仍能搜到附近酒店', async () => {
+    const hotel = await insertHotelAt('日界线酒店', 0, 179.95);
+
+    const result = await client.hotels.list({ query: { userLat: '0', userLng: '-179.95', radius: '20' } });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      const found = result.body.hotels.find((h: HotelWithRelations) => h.id === hotel.id);
+      expect(found?.distance).toBeCloseTo(11.12, 1);
+    }
+  });
+
+  it('靠近极点时经度不做限制', async () => {
+    const hotel = await insertHotelAt('极地酒店', 89.95, 180);
+
+    const ids = await searchIds({ userLat: '89.95', userLng: '0', radius: '20' });
+
+    expect(ids).toContain(hotel.id);
+  });
+
+  it('位置搜索条件使用经纬度空间索引', async () => {
+    const { condition } = buildHotelSearchCondition({ userLat: 39.9042, userLng: 116.4074, radius: 5 });
+
+    const plan = await db.transaction(async (tx) => {
+      await tx.execute(sql`SET LOCAL enable_seqscan = off`);
+      return tx.execute(sql`EXPLAIN SELECT ${hotels.id} FROM ${hotels} WHERE ${condition}`);
+    });
+
+    const lines = (plan as unknown as { rows: Array<{ 'QUERY PLAN': string }> }).rows.map((row) => row['QUERY PLAN']);
+    expect(lines.join('\n')).toContain('idx_hotels_location');
   });
 });
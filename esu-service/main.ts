@@ -1,8 +1,11 @@
 // main.ts
 import 'dotenv/config';
+import { mkdir } from 'node:fs/promises';
 import Fastify from 'fastify';
 import fastifyJwt from '@fastify/jwt';
 import fastifyCors from '@fastify/cors';
+import fastifyMultipart from '@fastify/multipart';
+import fastifyStatic from '@fastify/static';
 import fastifyPrintRoutes from 'fastify-print-routes';
 // PostgreSQL 连接池
 import { Pool } from 'pg';
@@ -10,12 +13,25 @@ import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { relations } from './schema.js';
 import { createRouter } from './routers/index.js';
+import { startBookingExpirySweeper } from './utils/booking.js';
+import { offerWaitlistHolds } from './utils/waitlist.js';
+import { getLocalStorageRoot, LOCAL_STORAGE_URL_PREFIX } from './utils/storage.js';
+import { backfillBookingCancellationPolicies } from './utils/cancellation.js';
+import { getPaymentProvider, isPaymentConfigured } from './utils/payment-provider.js';
+import { startRefundRetrySweeper } from './utils/payment.js';
 
 const app = Fastify({ logger: true });
 
 // 注册 JWT 插件
 if (process.env.JWT_SECRET === undefined) throw Error('Esu need a valid secret for jwt verification.');
 
+// 配置了支付渠道时校验渠道可用（未注册或生产环境使用 mock 时启动失败）；未配置时在线支付不可用，其余功能照常
+if (isPaymentConfigured()) {
+  getPaymentProvider();
+} else {
+  app.log.warn('未配置支付渠道（PAYMENT_PROVIDER），在线支付不可用');
+}
+
 const PORT = parseInt(process.env.ESU_PORT ?? '3000');
 
 app.register(fastifyJwt, {
@@ -28,6 +44,16 @@ app.register(fastifyCors, {
   credentials: true,
 });
 
+// 图片上传（multipart/form-data），单个文件的大小限制由上传路由按 UPLOAD_MAX_BYTES 设置
+app.register(fastifyMultipart);
+
+// 本地存储的上传文件作为静态文件提供
+await mkdir(getLocalStorageRoot(), { recursive: true });
+app.register(fastifyStatic, {
+  root: getLocalStorageRoot(),
+  prefix: LOCAL_STORAGE_URL_PREFIX,
+});
+
 /**
  * PostgreSQL 连接池配置
  * 使用环境变量 DATABASE_URL 获取连接字符串
@@ -46,10 +72,31 @@ const db = drizzle({
   relations,
 });
 
+// 数据迁移：取消政策快照上线前的预订按房型当前政策回填
+const backfilledBookings = await backfillBookingCancellationPolicies(db);
+if (backfilledBookings > 0) {
+  app.log.info(`已为 ${backfilledBookings} 个预订回填取消政策快照`);
+}
+
 // 注册 ts-rest 路由插件
 await app.register(fastifyPrintRoutes);
 app.register(createRouter(db));
 
+// 定期取消超过保留时间仍未确认的预订，释放库存并保留给候补用户
+const stopBookingExpirySweeper = startBookingExpirySweeper(db, app.log, (expired) =>
+  offerWaitlistHolds(
+    db,
+    expired.map((b) => b.roomTypeId),
+  ),
+);
+app.addHook('onClose', async () => stopBookingExpirySweeper());
+
+// 定期重试渠道退款失败的待退款记录
+if (isPaymentConfigured()) {
+  const stopRefundRetrySweeper = startRefundRetrySweeper(db, app.log);
+  app.addHook('onClose', async () => stopRefundRetrySweeper());
+}
+
 const start = async () => {
   try {
     await app.listen({ port: PORT, host: '0.0.0.0' });
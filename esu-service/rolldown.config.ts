@@ -4,6 +4,8 @@ import pkg from './package.json' with { type: 'json' };
 const config = defineConfig({
   input: pkg.main,
   platform: 'node',
+  // sharp 依赖平台相关的原生模块，不能打包，构建镜像时按 pnpm-lock 锁定的版本单独安装（见 Dockerfile，升级 sharp 时同步修改其中的版本）
+  external: ['sharp'],
   output: {
     file: 'dist/main.mjs',
   },
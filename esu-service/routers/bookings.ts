@@ -1,68 +1,190 @@
-import { SQL, sql } from 'drizzle-orm';
+import { SQL, sql, and, eq } from 'drizzle-orm';
+import * as v from 'valibot';
+import type { FastifyBaseLogger } from 'fastify';
 
-import { bookingsContract } from 'esu-types';
-import { bookings, roomTypes, hotels } from '../schema.js';
+import { bookingsContract, BookingCreateSchema } from 'esu-types';
+import { bookings, bookingModifications, roomTypes, hotels } from '../schema.js';
 import type { DbInstance, DbTransaction } from '../utils/index.js';
 import { checkPermission, errorResponse } from '../utils/permissions.js';
+import type { PermissionCheckResult } from '../utils/permissions.js';
+import {
+  listStayNights,
+  reserveInventory,
+  releaseInventory,
+  lockRoomTypes,
+  InsufficientStockError,
+} from '../utils/inventory.js';
+import { quoteStay, snapshotPriceBreakdown, todayDate } from '../utils/pricing.js';
+import {
+  checkBookingTransition,
+  checkGuestCapacity,
+  checkStayDates,
+  getBookingExpiresAt,
+  isBookingExpired,
+  MODIFIABLE_BOOKING_STATUSES,
+  recordBookingEvent,
+} from '../utils/booking.js';
+import type { BookingStatus } from '../utils/booking.js';
+import { withIdempotency } from '../utils/idempotency.js';
+import { calculateRefund, snapshotCancellationPolicy } from '../utils/cancellation.js';
+import type { CancellationPolicyType } from '../utils/cancellation.js';
+import { refundBookingPayments } from '../utils/payment.js';
+import { renderReceiptHtml } from '../utils/receipt.js';
+import { offerWaitlistHoldsAfterCommit } from '../utils/waitlist.js';
+
+type BookingCreateInput = v.InferOutput<typeof BookingCreateSchema>;
 
 export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
-  return s.router(bookingsContract, {
-    create: async ({ body, request }) => {
-      const jwt = await checkPermission(request, bookingsContract.create.metadata.permission);
+  /**
+   * 商户/管理员推进预订状态（确认、入住、退房、未到店）
+   * 校验酒店归属和状态迁移，并以原状态为条件更新，避免并发下重复迁移
+   */
+  const transitionBooking = async (
+    bookingId: number,
+    jwt: PermissionCheckResult,
+    to: BookingStatus,
+    log: FastifyBaseLogger,
+  ) => {
+    const booking = await db.query.bookings.findFirst({
+      where: { id: { eq: bookingId }, deletedAt: { isNull: true } },
+    });
+
+    if (!booking) {
+      return errorResponse(404, '预订不存在');
+    }
+
+    if (jwt.role === 'merchant') {
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: booking.hotelId } },
+      });
 
-      if ('error' in jwt && jwt.error) {
-        return errorResponse(jwt.status, jwt.message);
+      if (!hotel || hotel.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限操作此预订');
       }
+    }
 
-      const rt = await db.query.roomTypes.findFirst({
-        where: { id: { eq: body.roomTypeId }, deletedAt: { isNull: true } },
-      });
+    const transitionError = checkBookingTransition(booking.status, to);
 
-      if (!rt) {
-        return errorResponse(404, '房型不存在');
+    if (transitionError) {
+      return errorResponse(400, transitionError);
+    }
+
+    if (isBookingExpired(booking)) {
+      return errorResponse(400, '预订已超过保留时间');
+    }
+
+    if ((to === 'checked_in' || to === 'no_show') && booking.checkIn > todayDate()) {
+      return errorResponse(400, '未到入住日期');
+    }
+
+    const result = await db.transaction(async (tx: DbTransaction) => {
+      const [updated] = await tx
+        .update(bookings)
+        .set({ status: to, updatedAt: new Date() })
+        .where(and(eq(bookings.id, bookingId), eq(bookings.status, booking.status)))
+        .returning();
+
+      if (!updated) {
+        return undefined;
       }
 
-      if ((rt as { stock: number }).stock <= 0) {
-        return errorResponse(400, '库存不足');
+      // 未到店的预订不再占用房间
+      if (to === 'no_show') {
+        await releaseInventory(tx, booking.roomTypeId, booking.checkIn, booking.checkOut, booking.quantity);
       }
 
-      const hotel = await db.query.hotels.findFirst({
-        where: { id: { eq: body.hotelId } },
+      await recordBookingEvent(tx, {
+        bookingId,
+        type: 'status_changed',
+        actor: { id: jwt.id, role: jwt.role },
+        fromStatus: booking.status,
+        toStatus: to,
       });
 
-      if (!hotel || (hotel as { status: string }).status !== 'approved') {
-        return errorResponse(400, '无效的酒店');
-      }
+      return updated;
+    });
 
-      const checkIn = new Date(body.checkIn);
-      const checkOut = new Date(body.checkOut);
-      const days = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+    if (!result) {
+      return errorResponse(400, '预订状态已变更，请刷新后重试');
+    }
 
-      if (days <= 0) {
-        return errorResponse(400, '入住日期必须早于离店日期');
-      }
+    if (to === 'no_show') {
+      await offerWaitlistHoldsAfterCommit(db, [booking.roomTypeId], log);
+    }
+
+    return { status: 200 as const, body: result };
+  };
+
+  /**
+   * 创建预订：校验房型、酒店、日期、入住人数和库存，按报价计算总价并占用库存
+   */
+  const createBooking = async (userId: number, body: BookingCreateInput) => {
+    const rt = await db.query.roomTypes.findFirst({
+      where: { id: { eq: body.roomTypeId }, deletedAt: { isNull: true } },
+    });
+
+    if (!rt) {
+      return errorResponse(404, '房型不存在');
+    }
 
-      const totalPrice = Number((rt as { price: number }).price) * days;
+    if (rt.hotelId !== body.hotelId) {
+      return errorResponse(400, '房型不属于该酒店');
+    }
 
+    const hotel = await db.query.hotels.findFirst({
+      where: { id: { eq: body.hotelId } },
+    });
+
+    if (!hotel || (hotel as { status: string }).status !== 'approved') {
+      return errorResponse(400, '无效的酒店');
+    }
+
+    const dateError = checkStayDates(body);
+
+    if (dateError) {
+      return errorResponse(400, dateError);
+    }
+
+    const guestError = checkGuestCapacity(rt, body);
+
+    if (guestError) {
+      return errorResponse(400, guestError);
+    }
+
+    const quote = await quoteStay(db, rt, body.checkIn, body.checkOut, body.quantity);
+
+    // 未填写入住人信息时，以预订用户当前的用户名和手机号作为联系人快照
+    const user = await db.query.users.findFirst({
+      where: { id: { eq: userId } },
+      columns: { username: true, phone: true },
+    });
+
+    try {
+      // 库存检查与占用在同一事务中完成，并发预订由 reserveInventory 的行锁串行化
       const result = await db.transaction(async (tx: DbTransaction) => {
-        await tx
-          .update(roomTypes)
-          .set({
-            stock: sql`${roomTypes.stock} - 1`,
-            updatedAt: new Date(),
-          })
-          .where(sql`${roomTypes.id} = ${body.roomTypeId}`);
+        await reserveInventory(tx, body.roomTypeId, body.checkIn, body.checkOut, body.quantity);
 
         const [created] = await tx
           .insert(bookings)
           .values({
-            userId: jwt.id,
+            userId,
             hotelId: body.hotelId,
             roomTypeId: body.roomTypeId,
             checkIn: body.checkIn,
             checkOut: body.checkOut,
-            totalPrice,
+            quantity: body.quantity,
+            adults: body.adults,
+            children: body.children,
+            guestName: body.guestName ?? user?.username ?? null,
+            guestPhone: body.guestPhone ?? user?.phone ?? null,
+            arrivalTime: body.arrivalTime ?? null,
+            specialRequests: body.specialRequests ?? null,
+            totalPrice: quote.totalPrice,
+            promotionId: quote.promotionId,
+            priceBreakdown: snapshotPriceBreakdown(quote),
+            ...snapshotCancellationPolicy(rt),
             status: 'pending',
+            expiresAt: getBookingExpiresAt(),
           })
           .returning();
 
@@ -70,10 +192,62 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
           throw new Error('创建预订失败');
         }
 
+        await recordBookingEvent(tx, {
+          bookingId: created.id,
+          type: 'created',
+          actor: { id: userId, role: 'customer' },
+          toStatus: created.status,
+        });
+
         return created;
       });
 
-      return { status: 201, body: result };
+      return { status: 201 as const, body: result };
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return errorResponse(400, err.message);
+      }
+      throw err;
+    }
+  };
+
+  return s.router(bookingsContract, {
+    create: async ({ body, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.create.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      return withIdempotency(db, request, 'POST /bookings', jwt.id, body, () => createBooking(jwt.id, body));
+    },
+
+    quote: async ({ body }) => {
+      const rt = await db.query.roomTypes.findFirst({
+        where: { id: { eq: body.roomTypeId }, deletedAt: { isNull: true } },
+      });
+
+      if (!rt) {
+        return errorResponse(404, '房型不存在');
+      }
+
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: rt.hotelId } },
+      });
+
+      if (!hotel || hotel.status !== 'approved') {
+        return errorResponse(400, '无效的酒店');
+      }
+
+      const dateError = checkStayDates(body);
+
+      if (dateError) {
+        return errorResponse(400, dateError);
+      }
+
+      const quote = await quoteStay(db, rt, body.checkIn, body.checkOut, body.quantity);
+
+      return { status: 200, body: quote };
     },
 
     list: async ({ query, request }) => {
@@ -205,6 +379,7 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
           hotel: true,
           roomType: true,
           promotion: true,
+          modifications: { orderBy: { createdAt: 'desc' } },
         },
       });
 
@@ -223,7 +398,7 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
           where: { id: { eq: bookingAny.hotelId } },
         });
 
-        if (hotel && (hotel as { ownerId: number }).ownerId !== jwt.id) {
+        if (!hotel || (hotel as { ownerId: number }).ownerId !== jwt.id) {
           return errorResponse(403, '无权限查看此预订');
         }
       }
@@ -231,48 +406,133 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
       return { status: 200, body: booking };
     },
 
-    confirm: async ({ params, request }) => {
-      const jwt = await checkPermission(request, bookingsContract.confirm.metadata.permission);
+    history: async ({ params, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.history.metadata.permission);
 
       if ('error' in jwt && jwt.error) {
         return errorResponse(jwt.status, jwt.message);
       }
 
+      // 管理员处理纠纷时可以查看已删除预订的历史
       const booking = await db.query.bookings.findFirst({
-        where: { id: { eq: Number(params.id) } },
+        where:
+          jwt.role === 'admin' ? { id: { eq: params.id } } : { id: { eq: params.id }, deletedAt: { isNull: true } },
       });
 
       if (!booking) {
         return errorResponse(404, '预订不存在');
       }
 
-      const bookingAny = booking as { hotelId: number; status: string; ownerId?: number };
+      if (jwt.role === 'customer' && booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
+      }
 
       if (jwt.role === 'merchant') {
         const hotel = await db.query.hotels.findFirst({
-          where: { id: { eq: bookingAny.hotelId } },
+          where: { id: { eq: booking.hotelId } },
         });
 
-        if (hotel && (hotel as { ownerId: number }).ownerId !== jwt.id) {
-          return errorResponse(403, '无权限确认此预订');
+        if (!hotel || hotel.ownerId !== jwt.id) {
+          return errorResponse(403, '无权限查看此预订');
         }
       }
 
-      if (bookingAny.status !== 'pending') {
-        return errorResponse(400, '只能确认待确认状态的预订');
+      const events = await db.query.bookingEvents.findMany({
+        where: { bookingId: { eq: booking.id } },
+        with: { actor: { columns: { id: true, username: true } } },
+        orderBy: { id: 'asc' },
+      });
+
+      return { status: 200, body: events };
+    },
+
+    receipt: async ({ params, request, reply }) => {
+      const jwt = await checkPermission(request, bookingsContract.receipt.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const booking = await db.query.bookings.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+        with: { hotel: true, roomType: true, payments: true },
+      });
+
+      if (!booking || !booking.hotel || !booking.roomType) {
+        return errorResponse(404, '预订不存在');
       }
 
-      const [updated] = await db
-        .update(bookings)
-        .set({ status: 'confirmed', updatedAt: new Date() })
-        .where(sql`${bookings.id} = ${Number(params.id)}`)
-        .returning();
+      if (jwt.role === 'customer' && booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
+      }
 
-      if (!updated) {
-        return errorResponse(500, '创建错误');
+      if (jwt.role === 'merchant' && booking.hotel.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
       }
 
-      return { status: 200, body: updated };
+      // 按下单（或修改）时保存的报价明细展示；早于明细保存的预订没有明细，按实付总价分摊到每晚
+      const dates = listStayNights(booking.checkIn, booking.checkOut);
+      const nightlyPrice = Math.round((booking.totalPrice / (dates.length * booking.quantity)) * 100) / 100;
+      const breakdown = booking.priceBreakdown ?? {
+        nights: dates.map((date) => ({ date, basePrice: nightlyPrice, price: nightlyPrice, promotions: [] })),
+        promotions: [],
+        basePrice: booking.totalPrice,
+        discount: 0,
+      };
+      const captured = booking.payments.filter((p) => p.capturedAt !== null);
+
+      const html = renderReceiptHtml({
+        booking,
+        hotel: booking.hotel,
+        roomType: booking.roomType,
+        ...breakdown,
+        paidAmount: captured.reduce((sum, p) => sum + Number(p.amount), 0),
+        refundedAmount: captured.reduce((sum, p) => sum + Number(p.refundedAmount), 0),
+        issuedAt: new Date(),
+      });
+
+      reply.header('content-type', 'text/html; charset=utf-8');
+      return { status: 200, body: html };
+    },
+
+    confirm: async ({ params, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.confirm.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      return transitionBooking(Number(params.id), jwt, 'confirmed', request.log);
+    },
+
+    checkIn: async ({ params, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.checkIn.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      return transitionBooking(Number(params.id), jwt, 'checked_in', request.log);
+    },
+
+    checkOut: async ({ params, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.checkOut.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      return transitionBooking(Number(params.id), jwt, 'completed', request.log);
+    },
+
+    noShow: async ({ params, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.noShow.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      return transitionBooking(Number(params.id), jwt, 'no_show', request.log);
     },
 
     cancel: async ({ params, request }) => {
@@ -294,7 +554,14 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
         userId: number;
         hotelId: number;
         roomTypeId: number;
-        status: string;
+        checkIn: string;
+        checkOut: string;
+        quantity: number;
+        totalPrice: number;
+        status: BookingStatus;
+        cancellationPolicy: CancellationPolicyType | null;
+        freeCancelDays: number | null;
+        cancelPenaltyRate: number | null;
         ownerId?: number;
       };
 
@@ -307,45 +574,232 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
           where: { id: { eq: bookingAny.hotelId } },
         });
 
-        if (hotel && (hotel as { ownerId: number }).ownerId !== jwt.id) {
+        if (!hotel || (hotel as { ownerId: number }).ownerId !== jwt.id) {
           return errorResponse(403, '无权限取消此预订');
         }
       }
 
-      if (bookingAny.status === 'cancelled') {
-        return errorResponse(400, '预订已取消');
+      const transitionError = checkBookingTransition(bookingAny.status, 'cancelled');
+
+      if (transitionError) {
+        return errorResponse(400, transitionError);
       }
 
-      if (bookingAny.status === 'completed') {
-        return errorResponse(400, '已完成的预订无法取消');
+      // 用户取消按预订时的取消政策快照计算退款，商户/管理员取消全额退款
+      // 尚未回填快照的旧预订按房型当前政策计算
+      let refundAmount = bookingAny.totalPrice;
+
+      if (jwt.role === 'customer') {
+        const { cancellationPolicy } = bookingAny;
+        const policy = cancellationPolicy
+          ? { ...bookingAny, cancellationPolicy }
+          : await db.query.roomTypes.findFirst({
+              where: { id: { eq: bookingAny.roomTypeId } },
+            });
+
+        if (policy) {
+          refundAmount = calculateRefund(policy, bookingAny);
+        }
       }
 
       const result = await db.transaction(async (tx: DbTransaction) => {
-        await tx
-          .update(roomTypes)
-          .set({
-            stock: sql`${roomTypes.stock} + 1`,
-            updatedAt: new Date(),
-          })
-          .where(sql`${roomTypes.id} = ${bookingAny.roomTypeId}`);
-
         const [updatedResult] = await tx
           .update(bookings)
           .set({
             status: 'cancelled',
+            refundAmount,
             updatedAt: new Date(),
           })
-          .where(sql`${bookings.id} = ${Number(params.id)}`)
+          .where(and(eq(bookings.id, Number(params.id)), eq(bookings.status, bookingAny.status)))
           .returning();
 
-        if (!updatedResult) {
-          throw new Error('取消预订失败');
+        if (updatedResult) {
+          await releaseInventory(
+            tx,
+            bookingAny.roomTypeId,
+            bookingAny.checkIn,
+            bookingAny.checkOut,
+            bookingAny.quantity,
+          );
+          await recordBookingEvent(tx, {
+            bookingId: updatedResult.id,
+            type: 'status_changed',
+            actor: { id: jwt.id, role: jwt.role },
+            fromStatus: bookingAny.status,
+            toStatus: 'cancelled',
+            note: `退款金额 ${refundAmount}`,
+          });
         }
 
         return updatedResult;
       });
 
-      return { status: 200, body: result };
+      if (!result) {
+        return errorResponse(400, '预订状态已变更，请刷新后重试');
+      }
+
+      // 已支付的预订按应退金额通过支付渠道原路退款，渠道失败的部分记录为待退款并由后台重试，不影响取消结果
+      // 退款先于候补保留进行，候补保留失败也不会漏掉退款
+      let cancelled = result;
+
+      if (refundAmount > 0 && result.paymentStatus !== 'unpaid') {
+        await refundBookingPayments(db, result.id, refundAmount, '取消预订', { id: jwt.id, role: jwt.role });
+        cancelled = (await db.query.bookings.findFirst({ where: { id: { eq: result.id } } })) ?? result;
+      }
+
+      await offerWaitlistHoldsAfterCommit(db, [bookingAny.roomTypeId], request.log);
+
+      return { status: 200, body: cancelled };
+    },
+
+    modify: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, bookingsContract.modify.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const booking = await db.query.bookings.findFirst({
+        where: { id: { eq: Number(params.id) }, deletedAt: { isNull: true } },
+      });
+
+      if (!booking) {
+        return errorResponse(404, '预订不存在');
+      }
+
+      if (jwt.role === 'customer' && booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限修改此预订');
+      }
+
+      if (jwt.role === 'merchant') {
+        const hotel = await db.query.hotels.findFirst({
+          where: { id: { eq: booking.hotelId } },
+        });
+
+        if (!hotel || hotel.ownerId !== jwt.id) {
+          return errorResponse(403, '无权限修改此预订');
+        }
+      }
+
+      if (!MODIFIABLE_BOOKING_STATUSES.includes(booking.status)) {
+        return errorResponse(400, '当前状态的预订不能修改');
+      }
+
+      // 修改会改变总价，已支付的预订需取消后重新预订
+      if (booking.paymentStatus !== 'unpaid') {
+        return errorResponse(400, '已支付的预订不能修改');
+      }
+
+      if (isBookingExpired(booking)) {
+        return errorResponse(400, '预订已超过保留时间');
+      }
+
+      const dateError = checkStayDates(body);
+
+      if (dateError) {
+        return errorResponse(400, dateError);
+      }
+
+      const roomTypeId = body.roomTypeId ?? booking.roomTypeId;
+
+      if (roomTypeId === booking.roomTypeId && body.checkIn === booking.checkIn && body.checkOut === booking.checkOut) {
+        return errorResponse(400, '预订信息未变更');
+      }
+
+      const rt = await db.query.roomTypes.findFirst({
+        where: { id: { eq: roomTypeId }, deletedAt: { isNull: true } },
+      });
+
+      if (!rt) {
+        return errorResponse(404, '房型不存在');
+      }
+
+      if (rt.hotelId !== booking.hotelId) {
+        return errorResponse(400, '只能更换为同一酒店的房型');
+      }
+
+      const guestError = checkGuestCapacity(rt, booking);
+
+      if (guestError) {
+        return errorResponse(400, guestError);
+      }
+
+      const quote = await quoteStay(db, rt, body.checkIn, body.checkOut, booking.quantity);
+
+      try {
+        const result = await db.transaction(async (tx: DbTransaction) => {
+          // 加锁顺序与取消等操作一致：先预订行，再按 id 顺序锁定新旧房型，最后才改库存；
+          // 房型须在更新预订之前锁定，否则更新 room_type_id 时的外键共享锁会与并发修改交叉等待
+          await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, booking.id)).for('update');
+          await lockRoomTypes(tx, [booking.roomTypeId, roomTypeId]);
+
+          // 以修改前的状态和入住信息为条件更新，避免与并发操作互相覆盖
+          const [updated] = await tx
+            .update(bookings)
+            .set({
+              roomTypeId,
+              checkIn: body.checkIn,
+              checkOut: body.checkOut,
+              totalPrice: quote.totalPrice,
+              promotionId: quote.promotionId,
+              priceBreakdown: snapshotPriceBreakdown(quote),
+              ...(roomTypeId !== booking.roomTypeId ? snapshotCancellationPolicy(rt) : {}),
+              updatedAt: new Date(),
+            })
+            .where(
+              and(
+                eq(bookings.id, booking.id),
+                eq(bookings.status, booking.status),
+                eq(bookings.roomTypeId, booking.roomTypeId),
+                eq(bookings.checkIn, booking.checkIn),
+                eq(bookings.checkOut, booking.checkOut),
+              ),
+            )
+            .returning();
+
+          if (!updated) {
+            return undefined;
+          }
+
+          await releaseInventory(tx, booking.roomTypeId, booking.checkIn, booking.checkOut, booking.quantity);
+          await reserveInventory(tx, roomTypeId, body.checkIn, body.checkOut, booking.quantity);
+
+          await tx.insert(bookingModifications).values({
+            bookingId: booking.id,
+            userId: jwt.id,
+            previousRoomTypeId: booking.roomTypeId,
+            previousCheckIn: booking.checkIn,
+            previousCheckOut: booking.checkOut,
+            previousTotalPrice: booking.totalPrice,
+            previousPromotionId: booking.promotionId,
+          });
+
+          await recordBookingEvent(tx, {
+            bookingId: booking.id,
+            type: 'modified',
+            actor: { id: jwt.id, role: jwt.role },
+            fromStatus: booking.status,
+            toStatus: updated.status,
+            note: `${booking.checkIn}~${booking.checkOut} → ${body.checkIn}~${body.checkOut}`,
+          });
+
+          return updated;
+        });
+
+        if (!result) {
+          return errorResponse(400, '预订状态已变更，请刷新后重试');
+        }
+
+        // 原入住区间释放的房间保留给候补用户
+        await offerWaitlistHoldsAfterCommit(db, [booking.roomTypeId], request.log);
+
+        return { status: 200, body: result };
+      } catch (err) {
+        if (err instanceof InsufficientStockError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
     },
 
     delete: async ({ params, request }) => {
@@ -355,10 +809,23 @@ export const createBookingsRouter = (s: ReturnType<typeof import('@ts-rest/fasti
         return errorResponse(jwt.status, jwt.message);
       }
 
-      await db
-        .update(bookings)
-        .set({ deletedAt: new Date() })
-        .where(sql`${bookings.id} = ${Number(params.id)}`);
+      await db.transaction(async (tx: DbTransaction) => {
+        const [deleted] = await tx
+          .update(bookings)
+          .set({ deletedAt: new Date() })
+          .where(sql`${bookings.id} = ${Number(params.id)}`)
+          .returning();
+
+        if (deleted) {
+          await recordBookingEvent(tx, {
+            bookingId: deleted.id,
+            type: 'deleted',
+            actor: { id: jwt.id, role: jwt.role },
+            fromStatus: deleted.status,
+            toStatus: deleted.status,
+          });
+        }
+      });
 
       return { status: 200, body: { message: 'Deleted' as const } };
     },
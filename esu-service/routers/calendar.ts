@@ -0,0 +1,175 @@
+import { calendarContract } from 'esu-types';
+import type { DbInstance } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+import type { FastifyRequest } from '../utils/permissions.js';
+import {
+  bookingToCalendarEvent,
+  CALENDAR_BOOKING_STATUSES,
+  createCalendarFeedToken,
+  getCalendarFeedNonce,
+  renderCalendar,
+  rotateCalendarFeedNonce,
+  verifyCalendarFeedToken,
+} from '../utils/calendar.js';
+
+const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+export const createCalendarRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
+  const bookingRelations = {
+    hotel: { columns: { nameZh: true, address: true } },
+    roomType: { columns: { name: true } },
+  } as const;
+
+  /** 订阅链接的完整地址，日历应用通过此地址定期拉取 */
+  const feedUrl = (request: FastifyRequest, path: string, token: string) =>
+    `${request.protocol}://${request.host}${path}?token=${encodeURIComponent(token)}`;
+
+  return s.router(calendarContract, {
+    booking: async ({ params, request, reply }) => {
+      const jwt = await checkPermission(request, calendarContract.booking.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const booking = await db.query.bookings.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+        with: {
+          hotel: { columns: { nameZh: true, address: true, ownerId: true } },
+          roomType: { columns: { name: true } },
+        },
+      });
+
+      if (!booking) {
+        return errorResponse(404, '预订不存在');
+      }
+
+      if (jwt.role === 'customer' && booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
+      }
+
+      if (jwt.role === 'merchant' && booking.hotel?.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
+      }
+
+      const event = bookingToCalendarEvent(booking, jwt.role === 'customer' ? 'guest' : 'hotel');
+
+      reply.header('content-type', CALENDAR_CONTENT_TYPE);
+      reply.header('content-disposition', `attachment; filename="booking-${booking.id}.ics"`);
+      return { status: 200, body: renderCalendar(event.summary, [event]) };
+    },
+
+    createFeedToken: async ({ body, request }) => {
+      const jwt = await checkPermission(request, calendarContract.createFeedToken.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const issuer = { id: jwt.id, nonce: await getCalendarFeedNonce(db, jwt.id) };
+
+      if (jwt.role === 'customer') {
+        const token = createCalendarFeedToken(request, 'user', jwt.id, issuer);
+        const url = feedUrl(request, `/calendar/users/${jwt.id}/feed.ics`, token);
+        return { status: 201, body: { scope: 'user' as const, id: jwt.id, token, url } };
+      }
+
+      if (!body.hotelId) {
+        return errorResponse(400, '请选择要订阅的酒店');
+      }
+
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: body.hotelId }, deletedAt: { isNull: true } },
+      });
+
+      if (!hotel) {
+        return errorResponse(404, '酒店不存在');
+      }
+
+      if (jwt.role === 'merchant' && hotel.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限订阅此酒店');
+      }
+
+      const token = createCalendarFeedToken(request, 'hotel', hotel.id, issuer);
+      const url = feedUrl(request, `/calendar/hotels/${hotel.id}/feed.ics`, token);
+      return { status: 201, body: { scope: 'hotel' as const, id: hotel.id, token, url } };
+    },
+
+    revokeFeedTokens: async ({ request }) => {
+      const jwt = await checkPermission(request, calendarContract.revokeFeedTokens.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      await rotateCalendarFeedNonce(db, jwt.id);
+
+      return { status: 200, body: { message: 'Revoked' as const } };
+    },
+
+    userFeed: async ({ params, query, request, reply }) => {
+      if (!(await verifyCalendarFeedToken(db, request, 'user', params.id, query.token))) {
+        return errorResponse(403, '无效的订阅链接');
+      }
+
+      const bookingList = await db.query.bookings.findMany({
+        where: {
+          userId: { eq: params.id },
+          status: { in: [...CALENDAR_BOOKING_STATUSES] },
+          deletedAt: { isNull: true },
+        },
+        with: bookingRelations,
+        orderBy: { checkIn: 'asc' },
+      });
+
+      reply.header('content-type', CALENDAR_CONTENT_TYPE);
+      return {
+        status: 200,
+        body: renderCalendar(
+          '我的酒店行程',
+          bookingList.map((b) => bookingToCalendarEvent(b, 'guest')),
+        ),
+      };
+    },
+
+    hotelFeed: async ({ params, query, request, reply }) => {
+      const issuer = await verifyCalendarFeedToken(db, request, 'hotel', params.id, query.token);
+
+      if (!issuer) {
+        return errorResponse(403, '无效的订阅链接');
+      }
+
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+      });
+
+      if (!hotel) {
+        return errorResponse(404, '酒店不存在');
+      }
+
+      // 酒店转给其他商户后，原商户签发的订阅链接不再有效
+      if (issuer.role === 'merchant' && hotel.ownerId !== issuer.id) {
+        return errorResponse(403, '无效的订阅链接');
+      }
+
+      const bookingList = await db.query.bookings.findMany({
+        where: {
+          hotelId: { eq: hotel.id },
+          status: { in: [...CALENDAR_BOOKING_STATUSES] },
+          deletedAt: { isNull: true },
+        },
+        with: bookingRelations,
+        orderBy: { checkIn: 'asc' },
+      });
+
+      reply.header('content-type', CALENDAR_CONTENT_TYPE);
+      return {
+        status: 200,
+        body: renderCalendar(
+          `${hotel.nameZh} 到店日历`,
+          bookingList.map((b) => bookingToCalendarEvent(b, 'hotel')),
+        ),
+      };
+    },
+  });
+};
@@ -0,0 +1,88 @@
+import { citiesContract } from 'esu-types';
+import { cities, districts } from '../schema.js';
+import type { DbInstance, DbTransaction } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+import { listCities, normalizeCityName } from '../utils/city.js';
+
+export const createCitiesRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
+  return s.router(citiesContract, {
+    list: async () => {
+      return { status: 200, body: await listCities(db) };
+    },
+
+    create: async ({ body, request }) => {
+      const jwt = await checkPermission(request, citiesContract.create.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const name = normalizeCityName(body.name);
+      const existing = await db.query.cities.findFirst({ where: { name: { eq: name } } });
+
+      if (existing) {
+        return errorResponse(409, '城市已存在');
+      }
+
+      const districtNames = [...new Set(body.districts ?? [])];
+
+      const city = await db.transaction(async (tx: DbTransaction) => {
+        const [created] = await tx.insert(cities).values({ name }).returning({ id: cities.id, name: cities.name });
+
+        if (!created) {
+          return undefined;
+        }
+
+        const createdDistricts = districtNames.length
+          ? await tx
+              .insert(districts)
+              .values(districtNames.map((districtName) => ({ cityId: created.id, name: districtName })))
+              .returning({ id: districts.id, cityId: districts.cityId, name: districts.name })
+          : [];
+
+        return { ...created, districts: createdDistricts };
+      });
+
+      if (!city) {
+        return errorResponse(500, '城市创建失败');
+      }
+
+      return { status: 201, body: city };
+    },
+
+    createDistrict: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, citiesContract.createDistrict.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const city = await db.query.cities.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+      });
+
+      if (!city) {
+        return errorResponse(404, '城市不存在');
+      }
+
+      const existing = await db.query.districts.findFirst({
+        where: { cityId: { eq: city.id }, name: { eq: body.name } },
+      });
+
+      if (existing) {
+        return errorResponse(409, '区县已存在');
+      }
+
+      const [district] = await db
+        .insert(districts)
+        .values({ cityId: city.id, name: body.name })
+        .returning({ id: districts.id, cityId: districts.cityId, name: districts.name });
+
+      if (!district) {
+        return errorResponse(500, '区县创建失败');
+      }
+
+      return { status: 201, body: district };
+    },
+  });
+};
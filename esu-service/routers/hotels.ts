@@ -1,29 +1,30 @@
-import { SQL, sql, and } from 'drizzle-orm';
+import { sql } from 'drizzle-orm';
 import * as v from 'valibot';
 
 import { hotelsContract, HotelWithRelationsSchema, HotelDetailSchema, RoomTypeWithDiscountSchema } from 'esu-types';
 import { hotels, roomTypes, promotions } from '../schema.js';
 import type { DbInstance } from '../utils/index.js';
-import {
-  buildSearchFilter,
-  buildGeoDistanceSql,
-  buildBaseCondition,
-  buildFilterConditions,
-  applyRoomTypesDiscount,
-  sortHotelsByDistance,
-  buildRulesFilter,
-  getHotelMinPrice,
-  normalizeLegacyParams,
-  DEFAULT_SEARCH_RADIUS,
-} from '../utils/hotel.js';
-import type {
-  HotelDistanceResult,
-  HotelQueryResult,
-  HotelQueryPromotion,
-  HotelQueryRoomType,
-  DrizzleCondition,
-} from '../utils/hotel.js';
+import type { HotelQueryResult } from '../utils/hotel.js';
+import { InvalidHotelCursorError, listHotelPage } from '../utils/hotel-list.js';
+import { loadPromotions, loadHotelPromotions, withDiscountedPrice, todayDate } from '../utils/pricing.js';
 import { checkPermission, errorResponse } from '../utils/permissions.js';
+import {
+  approveHotel,
+  compareHotelRevision,
+  getPendingHotelRevision,
+  HOTEL_DRAFT_STATUSES,
+  HotelRevisionConflictError,
+  rejectHotelRevision,
+  saveHotelDraft,
+} from '../utils/hotel-revision.js';
+import {
+  canTransitionHotel,
+  HOTEL_TRANSITIONS,
+  HotelTransitionError,
+  moderateHotel,
+} from '../utils/hotel-moderation.js';
+import { InvalidCityError, resolveHotelLocation } from '../utils/city.js';
+import { getHotelFacets } from '../utils/hotel-facets.js';
 
 type HotelWithRelations = v.InferOutput<typeof HotelWithRelationsSchema>;
 type HotelDetail = v.InferOutput<typeof HotelDetailSchema>;
@@ -50,10 +51,21 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         return errorResponse(400, '无效的所有者');
       }
 
+      let location;
+      try {
+        location = await resolveHotelLocation(db, { cityId: null, districtId: null }, body);
+      } catch (err) {
+        if (err instanceof InvalidCityError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
+
       const [newHotel] = await db
         .insert(hotels)
         .values({
           ...body,
+          ...location,
           status: 'pending',
         })
         .returning();
@@ -68,168 +80,47 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
     list: async ({ query }) => {
       const page = Number(query.page) || 1;
       const limit = Number(query.limit) || 10;
-      const offset = (page - 1) * limit;
-
-      const hasGeoSearch = query.userLat !== undefined && query.userLng !== undefined;
-      const userLat = typeof query.userLat === 'number' ? query.userLat : undefined;
-      const userLng = typeof query.userLng === 'number' ? query.userLng : undefined;
-
-      const { rules, sortBy, reversed } = normalizeLegacyParams({
-        ...query,
-        sortBy: query.sortBy,
-      });
-
-      const maxRadius = rules.distance?.[1] ?? DEFAULT_SEARCH_RADIUS;
-      const minRadius = rules.distance?.[0];
-
-      const searchFilter = buildSearchFilter(typeof query.keyword === 'string' ? query.keyword : undefined);
-
-      let checkDateParam: [string, string] | undefined;
-      if (rules.checkDate) {
-        const [checkInDate, checkOutDate] = rules.checkDate;
-        const checkInStr = String(checkInDate).split('T')[0] ?? '';
-        const checkOutStr = String(checkOutDate).split('T')[0] ?? '';
-        checkDateParam = [checkInStr, checkOutStr];
-      }
-
-      const hasEffectiveGeoSearch = hasGeoSearch || (userLat !== undefined && userLng !== undefined);
-      const distanceSql =
-        hasEffectiveGeoSearch && userLat !== undefined && userLng !== undefined
-          ? buildGeoDistanceSql(userLat, userLng)
-          : null;
-
-      const baseCondition = buildBaseCondition();
-      const filterConditions = buildFilterConditions({
-        facilities: query.facilities,
-        checkDate: checkDateParam,
-      });
-      const rulesFilterResult = buildRulesFilter(rules, hasGeoSearch, userLat, userLng);
-
-      let finalCondition: DrizzleCondition = baseCondition;
-      if (searchFilter) {
-        finalCondition = and(finalCondition, searchFilter as DrizzleCondition);
-      }
-      if (filterConditions) {
-        finalCondition = and(finalCondition, filterConditions);
-      }
-      if (rulesFilterResult) {
-        finalCondition = and(finalCondition, rulesFilterResult);
-      }
 
-      let hotelIdsWithDistance: Array<{ id: number; distance: number | null }> = [];
-
-      const minPriceSubquery = sql`(SELECT MIN(rt.price) FROM room_types rt WHERE rt.hotel_id = hotels.id AND rt.deleted_at IS NULL)`;
-
-      if (hasEffectiveGeoSearch && userLat !== undefined && userLng !== undefined && distanceSql) {
-        let geoCondition = finalCondition;
-        if (minRadius !== undefined && minRadius > 0) {
-          geoCondition = and(geoCondition, sql`${distanceSql} >= ${minRadius}` as DrizzleCondition);
-        }
-        geoCondition = and(geoCondition, sql`${distanceSql} <= ${maxRadius}` as DrizzleCondition);
-
-        const baseQuery = db
-          .select({
-            id: hotels.id,
-            distance: distanceSql,
-            minPrice: minPriceSubquery,
-          })
-          .from(hotels)
-          .where(geoCondition);
-
-        let distanceQuery =
-          sortBy === 'distance'
-            ? baseQuery.orderBy(reversed ? sql`${distanceSql} DESC` : sql`${distanceSql} ASC`)
-            : sortBy === 'price'
-              ? baseQuery.orderBy(reversed ? sql`${minPriceSubquery} DESC` : sql`${minPriceSubquery} ASC`)
-              : baseQuery;
-
-        try {
-          const result = (await distanceQuery) as HotelDistanceResult[];
-          hotelIdsWithDistance = result.map((h: HotelDistanceResult) => ({
-            id: h.id,
-            distance: h.distance,
-          }));
-        } catch (e: unknown) {
-          hotelIdsWithDistance = [];
-        }
-      } else {
-        const orderByClauses: SQL[] = [];
-
-        if (sortBy === 'price') {
-          orderByClauses.push(reversed ? sql`${minPriceSubquery} DESC` : sql`${minPriceSubquery} ASC`);
-        } else if (sortBy && sortBy !== 'distance') {
-          let columnName: string = sortBy;
-          if (sortBy === 'rating') {
-            columnName = 'average_rating';
-          } else if (sortBy === 'createdAt') {
-            columnName = 'created_at';
-          }
-          const direction = reversed ? 'asc' : 'desc';
-          orderByClauses.push(sql`${sql.raw(columnName)} ${sql.raw(direction)}`);
+      let result;
+      try {
+        result = await listHotelPage(db, query, { page, limit });
+      } catch (err) {
+        if (err instanceof InvalidHotelCursorError) {
+          return errorResponse(400, err.message);
         }
-
-        orderByClauses.push(sql`${hotels.id} desc`);
-
-        const filteredIds = await db
-          .select({
-            id: hotels.id,
-            minPrice: minPriceSubquery,
-          })
-          .from(hotels)
-          .where(finalCondition)
-          .orderBy(...orderByClauses);
-
-        hotelIdsWithDistance = filteredIds.map((p: { id: number }) => ({ id: p.id, distance: null }));
+        throw err;
       }
 
-      const total = hotelIdsWithDistance.length;
-      const pageHotels = hotelIdsWithDistance.slice(offset, offset + limit);
+      const { items: pageHotels, total, nextCursor } = result;
 
       if (pageHotels.length === 0) {
-        return { status: 200 as const, body: { hotels: [], total, page } };
+        return { status: 200 as const, body: { hotels: [], total, page, nextCursor } };
       }
 
       const hotelIds = pageHotels.map((h: { id: number }) => h.id);
       const distanceMap = new Map(pageHotels.map((h: { id: number; distance: number | null }) => [h.id, h.distance]));
 
-      const todayStr = new Date().toISOString().split('T')[0] ?? '';
-
       const hotelList = await db.query.hotels.findMany({
         where: { id: { in: hotelIds } },
         with: {
           roomTypes: { where: { deletedAt: { isNull: true } } },
-          promotions: { where: { deletedAt: { isNull: true } } },
         },
       });
 
+      const todayStr = todayDate();
+      const activePromos = await loadPromotions(db, hotelIds, todayStr, todayStr);
+
       const hotelsWithDiscount: HotelWithRelations[] = hotelList.map((hotel: HotelQueryResult) => {
-        const hotelPromos = (hotel.promotions ?? []).filter((p: HotelQueryPromotion) => {
-          if (p.startDate > todayStr || p.endDate < todayStr) return false;
-          if (p.hotelId !== null && p.hotelId !== hotel.id) return false;
-          return true;
-        });
-
-        const roomTypesWithDiscount = (hotel.roomTypes ?? []).map((rt: HotelQueryRoomType) => {
-          let price = Number(rt.price);
-          const roomTypePromos = hotelPromos.filter(
-            (p: HotelQueryPromotion) => p.roomTypeId === null || p.roomTypeId === rt.id,
-          );
-          for (const promo of roomTypePromos) {
-            const promoValue = Number(promo.value);
-            if (promo.type === 'percentage') {
-              price = price * promoValue;
-            } else if (promo.type === 'direct') {
-              price = price - promoValue;
-            } else if (promo.type === 'spend_and_save') {
-              price = price - promoValue;
-            }
-          }
-          return { ...rt, discountedPrice: Math.max(0, price) };
-        }) as HotelWithRelations['roomTypes'];
+        const roomTypesWithDiscount = withDiscountedPrice(
+          hotel.roomTypes ?? [],
+          activePromos,
+          todayStr,
+        ) as HotelWithRelations['roomTypes'];
 
         const hotelWithDistance: HotelWithRelations = {
           ...(hotel as unknown as HotelWithRelations),
           roomTypes: roomTypesWithDiscount,
+          promotions: activePromos.filter((p) => p.hotelId === null || p.hotelId === hotel.id),
           distance: distanceMap.get(hotel.id) ?? undefined,
         };
 
@@ -240,7 +131,11 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         .map((id: number) => hotelsWithDiscount.find((h: HotelQueryResult) => h.id === id))
         .filter((h): h is HotelWithRelations => h !== undefined);
 
-      return { status: 200 as const, body: { hotels: sortedResult, total, page } };
+      return { status: 200 as const, body: { hotels: sortedResult, total, page, nextCursor } };
+    },
+
+    facets: async ({ query }) => {
+      return { status: 200 as const, body: await getHotelFacets(db, query) };
     },
 
     get: async ({ params }) => {
@@ -248,7 +143,6 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         where: { id: { eq: params.id }, deletedAt: { isNull: true } },
         with: {
           roomTypes: { where: { deletedAt: { isNull: true } } },
-          promotions: { where: { deletedAt: { isNull: true } } },
           owner: { columns: { id: true, username: true, role: true } },
         },
       });
@@ -257,11 +151,14 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         return errorResponse(404, '酒店不存在');
       }
 
-      const roomTypesWithDiscount = await applyRoomTypesDiscount(db, hotel.id, hotel.roomTypes ?? []);
+      const todayStr = todayDate();
+      const activePromos = await loadHotelPromotions(db, hotel.id, todayStr, todayStr);
+      const roomTypesWithDiscount = withDiscountedPrice(hotel.roomTypes ?? [], activePromos, todayStr);
 
       const hotelDetail: HotelDetail = {
         ...hotel,
         roomTypes: roomTypesWithDiscount,
+        promotions: activePromos,
       };
 
       return { status: 200 as const, body: hotelDetail };
@@ -275,7 +172,7 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
       }
 
       const hotel = await db.query.hotels.findFirst({
-        where: { id: { eq: params.id } },
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
       });
 
       if (!hotel) {
@@ -286,14 +183,41 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         return errorResponse(403, '无权限修改此酒店');
       }
 
-      let newStatus = body.status;
-      if (jwt.role === 'merchant' && hotel.status === 'approved') {
-        newStatus = 'pending';
+      // 酒店状态只能通过审核操作变更；商户修改审核未通过的酒店时自动重新提交审核
+      const { status, ...fields } = body;
+      const nextStatus =
+        jwt.role === 'merchant' && canTransitionHotel('resubmit', hotel.status)
+          ? HOTEL_TRANSITIONS.resubmit.to
+          : hotel.status;
+
+      if (status !== undefined && status !== nextStatus) {
+        return errorResponse(409, '酒店状态只能通过审核通过、驳回、下线、恢复上线操作变更');
+      }
+
+      let changes;
+      try {
+        changes = { ...fields, ...(await resolveHotelLocation(db, hotel, fields)) };
+      } catch (err) {
+        if (err instanceof InvalidCityError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
+
+      // 通过过审核的酒店，商户修改进入修改稿，审核通过前线上版本保持不变
+      if (jwt.role === 'merchant' && HOTEL_DRAFT_STATUSES.includes(hotel.status)) {
+        const revision = await saveHotelDraft(db, hotel.id, jwt.id, changes);
+
+        if (!revision) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 202 as const, body: revision };
       }
 
       const [updated] = await db
         .update(hotels)
-        .set({ ...body, status: newStatus, updatedAt: new Date() })
+        .set({ ...changes, status: nextStatus, updatedAt: new Date() })
         .where(sql`${hotels.id} = ${params.id}`)
         .returning();
 
@@ -304,88 +228,192 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
       return { status: 200 as const, body: updated };
     },
 
-    approve: async ({ params, request }) => {
-      const jwt = await checkPermission(request, hotelsContract.approve.metadata.permission);
+    draft: async ({ params, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.draft.metadata.permission);
 
       if ('error' in jwt && jwt.error) {
         return errorResponse(jwt.status, jwt.message);
       }
 
-      const [updated] = await db
-        .update(hotels)
-        .set({ status: 'approved', updatedAt: new Date() })
-        .where(sql`${hotels.id} = ${params.id}`)
-        .returning();
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+      });
 
-      if (!updated) {
+      if (!hotel) {
         return errorResponse(404, '酒店不存在');
       }
 
-      return { status: 200 as const, body: updated };
+      if (jwt.role === 'merchant' && hotel.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限查看此酒店');
+      }
+
+      const revision = await getPendingHotelRevision(db, hotel);
+
+      if (!revision) {
+        return errorResponse(404, '没有待审核的修改');
+      }
+
+      return { status: 200 as const, body: revision };
     },
 
-    reject: async ({ params, body, request }) => {
-      const jwt = await checkPermission(request, hotelsContract.reject.metadata.permission);
+    compareRevision: async ({ params, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.compareRevision.metadata.permission);
 
       if ('error' in jwt && jwt.error) {
         return errorResponse(jwt.status, jwt.message);
       }
 
-      const [updated] = await db
-        .update(hotels)
-        .set({
-          status: 'rejected',
-          statusDescription: body.rejectReason,
-          updatedAt: new Date(),
-        })
-        .where(sql`${hotels.id} = ${params.id}`)
-        .returning();
+      const hotel = await db.query.hotels.findFirst({
+        where: { id: { eq: params.id }, deletedAt: { isNull: true } },
+      });
 
-      if (!updated) {
+      if (!hotel) {
         return errorResponse(404, '酒店不存在');
       }
 
-      return { status: 200 as const, body: updated };
+      return { status: 200 as const, body: await compareHotelRevision(db, hotel) };
     },
 
-    offline: async ({ params, request }) => {
-      const jwt = await checkPermission(request, hotelsContract.offline.metadata.permission);
+    approve: async ({ params, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.approve.metadata.permission);
 
       if ('error' in jwt && jwt.error) {
         return errorResponse(jwt.status, jwt.message);
       }
 
-      const [updated] = await db
-        .update(hotels)
-        .set({ status: 'offline', updatedAt: new Date() })
-        .where(sql`${hotels.id} = ${params.id}`)
-        .returning();
+      try {
+        const updated = await approveHotel(db, params.id, jwt.id);
 
-      if (!updated) {
-        return errorResponse(404, '酒店不存在');
+        if (!updated) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 200 as const, body: updated };
+      } catch (err) {
+        if (err instanceof HotelTransitionError || err instanceof HotelRevisionConflictError) {
+          return errorResponse(409, err.message);
+        }
+        throw err;
       }
+    },
 
-      return { status: 200 as const, body: updated };
+    reject: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.reject.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      try {
+        // 有待审核修改稿时只驳回修改稿，线上版本继续展示
+        const revision = await rejectHotelRevision(db, params.id, jwt.id, body.rejectReason);
+
+        if (revision) {
+          const hotel = await db.query.hotels.findFirst({ where: { id: { eq: params.id } } });
+
+          if (!hotel) {
+            return errorResponse(404, '酒店不存在');
+          }
+
+          return { status: 200 as const, body: hotel };
+        }
+
+        const updated = await moderateHotel(
+          db,
+          params.id,
+          jwt.id,
+          'reject',
+          { statusDescription: body.rejectReason },
+          body.rejectReason,
+        );
+
+        if (!updated) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 200 as const, body: updated };
+      } catch (err) {
+        if (err instanceof HotelTransitionError) {
+          return errorResponse(409, err.message);
+        }
+        throw err;
+      }
+    },
+
+    offline: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.offline.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      try {
+        const updated = await moderateHotel(db, params.id, jwt.id, 'offline', {}, body.reason);
+
+        if (!updated) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 200 as const, body: updated };
+      } catch (err) {
+        if (err instanceof HotelTransitionError) {
+          return errorResponse(409, err.message);
+        }
+        throw err;
+      }
     },
 
-    online: async ({ params, request }) => {
+    online: async ({ params, body, request }) => {
       const jwt = await checkPermission(request, hotelsContract.online.metadata.permission);
 
       if ('error' in jwt && jwt.error) {
         return errorResponse(jwt.status, jwt.message);
       }
 
-      const [updated] = await db
-        .update(hotels)
-        .set({ status: 'approved', updatedAt: new Date() })
-        .where(sql`${hotels.id} = ${params.id}`)
-        .returning();
+      try {
+        const updated = await moderateHotel(db, params.id, jwt.id, 'online', {}, body.reason);
 
-      if (!updated) {
+        if (!updated) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 200 as const, body: updated };
+      } catch (err) {
+        if (err instanceof HotelTransitionError) {
+          return errorResponse(409, err.message);
+        }
+        throw err;
+      }
+    },
+
+    moderationLog: async ({ params, request }) => {
+      const jwt = await checkPermission(request, hotelsContract.moderationLog.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      // 管理员可以查看已删除酒店的审核记录
+      const hotel = await db.query.hotels.findFirst({
+        where:
+          jwt.role === 'admin' ? { id: { eq: params.id } } : { id: { eq: params.id }, deletedAt: { isNull: true } },
+      });
+
+      if (!hotel) {
         return errorResponse(404, '酒店不存在');
       }
 
-      return { status: 200 as const, body: updated };
+      if (jwt.role === 'merchant' && hotel.ownerId !== jwt.id) {
+        return errorResponse(403, '无权限查看此酒店');
+      }
+
+      const logs = await db.query.hotelModerationLogs.findMany({
+        where: { hotelId: { eq: hotel.id } },
+        with: { actor: { columns: { id: true, username: true } } },
+        orderBy: { id: 'asc' },
+      });
+
+      return { status: 200 as const, body: logs };
     },
 
     adminList: async ({ query, request }) => {
@@ -399,19 +427,27 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
       const limit = query.limit || 10;
       const whereCondition: Record<string, unknown> = { deletedAt: { isNull: true } };
 
-      if (query.status) {
+      // 待审核列表同时包含有待审核修改稿的已上线酒店
+      if (query.status === 'pending') {
+        whereCondition.OR = [{ status: { eq: 'pending' } }, { revisions: { status: { eq: 'pending' } } }];
+      } else if (query.status) {
         whereCondition.status = { eq: query.status };
       }
 
       const hotelList = await db.query.hotels.findMany({
         where: whereCondition,
-        with: { owner: { columns: { id: true, username: true } } },
+        with: {
+          owner: { columns: { id: true, username: true } },
+          revisions: { columns: { id: true }, where: { status: { eq: 'pending' } } },
+        },
         limit,
         offset: (page - 1) * limit,
         orderBy: { createdAt: 'desc' },
       });
 
-      return { status: 200 as const, body: { hotels: hotelList, total: hotelList.length, page } };
+      const body = hotelList.map(({ revisions, ...hotel }) => ({ ...hotel, hasPendingRevision: revisions.length > 0 }));
+
+      return { status: 200 as const, body: { hotels: body, total: body.length, page } };
     },
 
     merchantList: async ({ query, request }) => {
@@ -441,12 +477,20 @@ export const createHotelsRouter = (s: ReturnType<typeof import('@ts-rest/fastify
         return errorResponse(jwt.status, jwt.message);
       }
 
-      await db
-        .update(hotels)
-        .set({ deletedAt: new Date() })
-        .where(sql`${hotels.id} = ${Number(params.id)}`);
+      try {
+        const deleted = await moderateHotel(db, Number(params.id), jwt.id, 'delete');
 
-      return { status: 200 as const, body: { message: 'Deleted' as const } };
+        if (!deleted) {
+          return errorResponse(404, '酒店不存在');
+        }
+
+        return { status: 200 as const, body: { message: 'Deleted' as const } };
+      } catch (err) {
+        if (err instanceof HotelTransitionError) {
+          return errorResponse(409, err.message);
+        }
+        throw err;
+      }
     },
   });
 };
@@ -7,8 +7,14 @@ import { createHotelsRouter } from './hotels.js';
 import { createRoomTypesRouter } from './room-types.js';
 import { createPromotionsRouter } from './promotions.js';
 import { createBookingsRouter } from './bookings.js';
+import { createPaymentsRouter } from './payments.js';
+import { createWaitlistRouter } from './waitlist.js';
+import { createNotificationsRouter } from './notifications.js';
+import { createCalendarRouter } from './calendar.js';
 import { createRatingsRouter } from './ratings.js';
 import { createCarouselRouter } from './carousel.js';
+import { createUploadsRouter } from './uploads.js';
+import { createCitiesRouter } from './cities.js';
 
 export const createRouter = (db: DbInstance) => {
   const s = initServer();
@@ -18,8 +24,14 @@ export const createRouter = (db: DbInstance) => {
   const roomTypesRouter = createRoomTypesRouter(s, db);
   const promotionsRouter = createPromotionsRouter(s, db);
   const bookingsRouter = createBookingsRouter(s, db);
+  const paymentsRouter = createPaymentsRouter(s, db);
+  const waitlistRouter = createWaitlistRouter(s, db);
+  const notificationsRouter = createNotificationsRouter(s, db);
+  const calendarRouter = createCalendarRouter(s, db);
   const ratingsRouter = createRatingsRouter(s, db);
   const carouselRouter = createCarouselRouter(s, db);
+  const uploadsRouter = createUploadsRouter(s, db);
+  const citiesRouter = createCitiesRouter(s, db);
 
   const router = s.router(contract, {
     users: usersRouter,
@@ -27,8 +39,14 @@ export const createRouter = (db: DbInstance) => {
     roomTypes: roomTypesRouter,
     promotions: promotionsRouter,
     bookings: bookingsRouter,
+    payments: paymentsRouter,
+    waitlist: waitlistRouter,
+    notifications: notificationsRouter,
+    calendar: calendarRouter,
     ratings: ratingsRouter,
     carousel: carouselRouter,
+    uploads: uploadsRouter,
+    cities: citiesRouter,
   });
 
   return s.plugin(router);
@@ -0,0 +1,62 @@
+import { eq } from 'drizzle-orm';
+
+import { notificationsContract } from 'esu-types';
+import { notifications } from '../schema.js';
+import type { DbInstance } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+
+export const createNotificationsRouter = (
+  s: ReturnType<typeof import('@ts-rest/fastify').initServer>,
+  db: DbInstance,
+) => {
+  return s.router(notificationsContract, {
+    list: async ({ query, request }) => {
+      const jwt = await checkPermission(request, notificationsContract.list.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const whereCondition: Record<string, unknown> = { userId: { eq: jwt.id } };
+
+      if (query.unread === 'true') {
+        whereCondition.readAt = { isNull: true };
+      }
+
+      const notificationList = await db.query.notifications.findMany({
+        where: whereCondition,
+        orderBy: { id: 'desc' },
+      });
+
+      return { status: 200, body: notificationList };
+    },
+
+    markRead: async ({ params, request }) => {
+      const jwt = await checkPermission(request, notificationsContract.markRead.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const notification = await db.query.notifications.findFirst({
+        where: { id: { eq: params.id } },
+      });
+
+      if (!notification) {
+        return errorResponse(404, '通知不存在');
+      }
+
+      if (notification.userId !== jwt.id) {
+        return errorResponse(403, '无权限操作此通知');
+      }
+
+      const [updated] = await db
+        .update(notifications)
+        .set({ readAt: notification.readAt ?? new Date(), updatedAt: new Date() })
+        .where(eq(notifications.id, notification.id))
+        .returning();
+
+      return { status: 200, body: updated! };
+    },
+  });
+};
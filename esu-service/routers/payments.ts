@@ -0,0 +1,148 @@
+import { paymentsContract } from 'esu-types';
+import type { DbInstance } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+import { capturePayment, createPaymentIntent, PaymentError, refundPayment } from '../utils/payment.js';
+import { PaymentProviderError } from '../utils/payment-provider.js';
+
+export const createPaymentsRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
+  /** 商户只能操作自己酒店的预订 */
+  const isHotelOwner = async (hotelId: number, userId: number) => {
+    const hotel = await db.query.hotels.findFirst({
+      where: { id: { eq: hotelId } },
+      columns: { ownerId: true },
+    });
+
+    return hotel?.ownerId === userId;
+  };
+
+  return s.router(paymentsContract, {
+    createIntent: async ({ body, request }) => {
+      const jwt = await checkPermission(request, paymentsContract.createIntent.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const booking = await db.query.bookings.findFirst({
+        where: { id: { eq: body.bookingId }, deletedAt: { isNull: true } },
+      });
+
+      if (!booking) {
+        return errorResponse(404, '预订不存在');
+      }
+
+      if (booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限支付此预订');
+      }
+
+      try {
+        const { payment, clientSecret } = await createPaymentIntent(db, booking.id, jwt.id);
+        return { status: 201, body: { ...payment, clientSecret } };
+      } catch (err) {
+        if (err instanceof PaymentError || err instanceof PaymentProviderError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
+    },
+
+    capture: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, paymentsContract.capture.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const payment = await db.query.payments.findFirst({
+        where: { id: { eq: Number(params.id) } },
+      });
+
+      if (!payment) {
+        return errorResponse(404, '支付单不存在');
+      }
+
+      if (payment.userId !== jwt.id) {
+        return errorResponse(403, '无权限操作此支付单');
+      }
+
+      try {
+        const result = await capturePayment(db, payment.id, body.paymentMethod, { id: jwt.id, role: jwt.role });
+        return { status: 200, body: result };
+      } catch (err) {
+        if (err instanceof PaymentError || err instanceof PaymentProviderError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
+    },
+
+    refund: async ({ params, body, request }) => {
+      const jwt = await checkPermission(request, paymentsContract.refund.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const payment = await db.query.payments.findFirst({
+        where: { id: { eq: Number(params.id) } },
+        with: { booking: { columns: { hotelId: true } } },
+      });
+
+      if (!payment) {
+        return errorResponse(404, '支付单不存在');
+      }
+
+      if (jwt.role === 'merchant' && payment.booking && !(await isHotelOwner(payment.booking.hotelId, jwt.id))) {
+        return errorResponse(403, '无权限操作此支付单');
+      }
+
+      try {
+        const result = await refundPayment(db, payment.id, body, { id: jwt.id, role: jwt.role });
+
+        if (!result) {
+          return errorResponse(404, '支付单不存在');
+        }
+
+        return { status: 200, body: result };
+      } catch (err) {
+        if (err instanceof PaymentError || err instanceof PaymentProviderError) {
+          return errorResponse(400, err.message);
+        }
+        throw err;
+      }
+    },
+
+    listByBooking: async ({ params, request }) => {
+      const jwt = await checkPermission(request, paymentsContract.listByBooking.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const booking = await db.query.bookings.findFirst({
+        where: { id: { eq: Number(params.id) } },
+      });
+
+      if (!booking) {
+        return errorResponse(404, '预订不存在');
+      }
+
+      if (jwt.role === 'customer' && booking.userId !== jwt.id) {
+        return errorResponse(403, '无权限查看此预订');
+      }
+
+      if (jwt.role === 'merchant' && !(await isHotelOwner(booking.hotelId, jwt.id))) {
+        return errorResponse(403, '无权限查看此预订');
+      }
+
+      const paymentList = await db.query.payments.findMany({
+        where: { bookingId: { eq: booking.id } },
+        columns: { clientSecret: false },
+        with: { refunds: { orderBy: { id: 'asc' } } },
+        orderBy: { id: 'asc' },
+      });
+
+      return { status: 200, body: paymentList };
+    },
+  });
+};
@@ -4,6 +4,8 @@ import { roomTypesContract } from 'esu-types';
 import { roomTypes, hotels } from '../schema.js';
 import type { DbInstance } from '../utils/index.js';
 import { checkPermission, errorResponse } from '../utils/permissions.js';
+import { checkCancellationPolicy } from '../utils/cancellation.js';
+import { offerWaitlistHoldsAfterCommit } from '../utils/waitlist.js';
 
 export const createRoomTypesRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
   return s.router(roomTypesContract, {
@@ -22,6 +24,16 @@ export const createRoomTypesRouter = (s: ReturnType<typeof import('@ts-rest/fast
         return errorResponse(404, '酒店不存在');
       }
 
+      const policyError = checkCancellationPolicy({
+        cancellationPolicy: body.cancellationPolicy,
+        freeCancelDays: body.freeCancelDays ?? null,
+        cancelPenaltyRate: body.cancelPenaltyRate ?? null,
+      });
+
+      if (policyError) {
+        return errorResponse(400, policyError);
+      }
+
       const [newRoomType] = await db.insert(roomTypes).values(body).returning();
 
       if (!newRoomType) {
@@ -67,6 +79,16 @@ export const createRoomTypesRouter = (s: ReturnType<typeof import('@ts-rest/fast
         return errorResponse(403, '无权限修改此房型');
       }
 
+      const policyError = checkCancellationPolicy({
+        cancellationPolicy: body.cancellationPolicy ?? rt.cancellationPolicy,
+        freeCancelDays: body.freeCancelDays !== undefined ? body.freeCancelDays : rt.freeCancelDays,
+        cancelPenaltyRate: body.cancelPenaltyRate !== undefined ? body.cancelPenaltyRate : rt.cancelPenaltyRate,
+      });
+
+      if (policyError) {
+        return errorResponse(400, policyError);
+      }
+
       const [updated] = await db
         .update(roomTypes)
         .set({ ...body, updatedAt: new Date() })
@@ -77,6 +99,11 @@ export const createRoomTypesRouter = (s: ReturnType<typeof import('@ts-rest/fast
         return errorResponse(500, '更新错误');
       }
 
+      // 增加库存后，新增的房间保留给候补用户
+      if (updated.stock > rt.stock) {
+        await offerWaitlistHoldsAfterCommit(db, [updated.id], request.log);
+      }
+
       return { status: 200, body: updated };
     },
 
@@ -0,0 +1,75 @@
+import { uploadsContract } from 'esu-types';
+import type { DbInstance } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+import type { FastifyRequest } from '../utils/permissions.js';
+import { getImageMaxBytes, InvalidImageError, storeHotelImage } from '../utils/image.js';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${+(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+
+export const createUploadsRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, _db: DbInstance) => {
+  /**
+   * 站内路径补全为完整 URL，便于直接写入酒店 images
+   * 优先使用环境变量 UPLOAD_PUBLIC_URL（如 CDN 或反向代理地址），否则使用当前请求的地址
+   */
+  const publicUrl = (request: FastifyRequest, url: string) => {
+    if (!url.startsWith('/')) {
+      return url;
+    }
+
+    const base = process.env.UPLOAD_PUBLIC_URL ?? `${request.protocol}://${request.host}`;
+    return `${base.replace(/\/$/, '')}${url}`;
+  };
+
+  return s.router(uploadsContract, {
+    image: async ({ request }) => {
+      const jwt = await checkPermission(request, uploadsContract.image.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      if (!request.isMultipart()) {
+        return errorResponse(400, '请使用 multipart/form-data 上传图片');
+      }
+
+      const maxBytes = getImageMaxBytes();
+      const file = await request.file({ limits: { fileSize: maxBytes, files: 1 } });
+
+      if (!file) {
+        return errorResponse(400, '请选择要上传的图片');
+      }
+
+      let data: Buffer;
+
+      try {
+        data = await file.toBuffer();
+      } catch (err) {
+        if (err instanceof request.server.multipartErrors.RequestFileTooLargeError) {
+          return errorResponse(413, `图片不能超过 ${formatBytes(maxBytes)}`);
+        }
+
+        throw err;
+      }
+
+      try {
+        const image = await storeHotelImage(data);
+
+        return {
+          status: 201,
+          body: {
+            ...image,
+            url: publicUrl(request, image.url),
+            thumbnailUrl: publicUrl(request, image.thumbnailUrl),
+          },
+        };
+      } catch (err) {
+        if (err instanceof InvalidImageError) {
+          return errorResponse(400, err.message);
+        }
+
+        throw err;
+      }
+    },
+  });
+};
@@ -0,0 +1,134 @@
+import { and, eq } from 'drizzle-orm';
+
+import { waitlistContract } from 'esu-types';
+import { waitlistEntries } from '../schema.js';
+import type { DbInstance } from '../utils/index.js';
+import { checkPermission, errorResponse } from '../utils/permissions.js';
+import { checkGuestCapacity } from '../utils/booking.js';
+import { hasAvailableStock } from '../utils/inventory.js';
+import { todayDate } from '../utils/pricing.js';
+
+export const createWaitlistRouter = (s: ReturnType<typeof import('@ts-rest/fastify').initServer>, db: DbInstance) => {
+  return s.router(waitlistContract, {
+    create: async ({ body, request }) => {
+      const jwt = await checkPermission(request, waitlistContract.create.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const rt = await db.query.roomTypes.findFirst({
+        where: { id: { eq: body.roomTypeId }, deletedAt: { isNull: true } },
+        with: { hotel: { columns: { status: true } } },
+      });
+
+      if (!rt) {
+        return errorResponse(404, '房型不存在');
+      }
+
+      if (rt.hotel?.status !== 'approved') {
+        return errorResponse(400, '无效的酒店');
+      }
+
+      if (body.checkIn >= body.checkOut) {
+        return errorResponse(400, '入住日期必须早于离店日期');
+      }
+
+      if (body.checkIn < todayDate()) {
+        return errorResponse(400, '入住日期已过');
+      }
+
+      const guestError = checkGuestCapacity(rt, body);
+
+      if (guestError) {
+        return errorResponse(400, guestError);
+      }
+
+      if (await hasAvailableStock(db, rt.id, body.checkIn, body.checkOut, body.quantity)) {
+        return errorResponse(400, '当前有房，请直接预订');
+      }
+
+      const existing = await db.query.waitlistEntries.findFirst({
+        where: {
+          userId: { eq: jwt.id },
+          roomTypeId: { eq: rt.id },
+          checkIn: { eq: body.checkIn },
+          checkOut: { eq: body.checkOut },
+          status: { eq: 'waiting' },
+        },
+      });
+
+      if (existing) {
+        return errorResponse(400, '已在候补队列中');
+      }
+
+      const [entry] = await db
+        .insert(waitlistEntries)
+        .values({
+          userId: jwt.id,
+          hotelId: rt.hotelId,
+          roomTypeId: rt.id,
+          checkIn: body.checkIn,
+          checkOut: body.checkOut,
+          quantity: body.quantity,
+          adults: body.adults,
+          children: body.children,
+        })
+        .returning();
+
+      return { status: 201, body: entry! };
+    },
+
+    list: async ({ request }) => {
+      const jwt = await checkPermission(request, waitlistContract.list.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const entries = await db.query.waitlistEntries.findMany({
+        where: { userId: { eq: jwt.id } },
+        with: {
+          hotel: { columns: { id: true, nameZh: true } },
+          roomType: { columns: { id: true, name: true } },
+          booking: { columns: { id: true, status: true, expiresAt: true } },
+        },
+        orderBy: { id: 'desc' },
+      });
+
+      return { status: 200, body: entries };
+    },
+
+    cancel: async ({ params, request }) => {
+      const jwt = await checkPermission(request, waitlistContract.cancel.metadata.permission);
+
+      if ('error' in jwt && jwt.error) {
+        return errorResponse(jwt.status, jwt.message);
+      }
+
+      const entry = await db.query.waitlistEntries.findFirst({
+        where: { id: { eq: params.id } },
+      });
+
+      if (!entry) {
+        return errorResponse(404, '候补不存在');
+      }
+
+      if (entry.userId !== jwt.id) {
+        return errorResponse(403, '无权限取消此候补');
+      }
+
+      const [cancelled] = await db
+        .update(waitlistEntries)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, 'waiting')))
+        .returning();
+
+      if (!cancelled) {
+        return errorResponse(400, '只能取消排队中的候补');
+      }
+
+      return { status: 200, body: cancelled };
+    },
+  });
+};
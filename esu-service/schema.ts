@@ -13,10 +13,14 @@ import {
   pgEnum, // PostgreSQL 枚举类型
   doublePrecision, // 双精度浮点数（用于经纬度）
   index, // 索引定义
+  uniqueIndex, // 唯一索引定义
+  jsonb, // JSON 类型（用于保存接口响应）
 } from 'drizzle-orm/pg-core';
 
 // 导入关系定义函数 - Drizzle beta 版使用 defineRelations
-import { defineRelations } from 'drizzle-orm';
+import { defineRelations, sql } from 'drizzle-orm';
+
+import type { PriceQuote } from './utils/pricing.js';
 
 // 导入类型定义（假设打包为 esu-types 包）
 import {
@@ -24,6 +28,15 @@ import {
   bookingStatus, // 预订状态枚举值
   promotionType, // 优惠类型枚举值
   roleType, // 用户角色枚举值
+  cancellationPolicyType, // 取消政策枚举值
+  bookingEventType, // 预订事件类型枚举值
+  paymentStatus, // 支付单状态枚举值
+  refundStatus, // 退款记录状态枚举值
+  bookingPaymentStatus, // 预订支付状态枚举值
+  waitlistStatus, // 候补状态枚举值
+  hotelRevisionStatus, // 酒店修改稿状态枚举值
+  hotelRevisionFields, // 酒店修改稿保存的字段
+  hotelModerationAction, // 酒店审核操作枚举值
 } from 'esu-types';
 
 // =============================================================================
@@ -45,9 +58,24 @@ export const hotelStatusEnum = pgEnum('hotel_status', hotelStatus);
  * - confirmed: 已确认（商户/管理员确认）
  * - cancelled: 已取消（用户/商户/管理员取消）
  * - completed: 已完成（用户已入住并退房）
+ * - checked_in: 已入住（商户/管理员办理入住）
+ * - no_show: 未到店（商户/管理员标记，释放库存）
+ *
+ * 允许的状态迁移见 utils/booking.ts
  */
 export const bookingStatusEnum = pgEnum('booking_status', bookingStatus);
 
+/**
+ * 预订事件类型枚举
+ * - created: 创建预订
+ * - status_changed: 状态变更（确认、入住、退房、未到店、取消、过期自动取消）
+ * - modified: 修改入住日期或房型（修改前的信息见 booking_modifications 表）
+ * - deleted: 删除预订
+ * - payment_captured: 支付成功
+ * - payment_refunded: 退款
+ */
+export const bookingEventTypeEnum = pgEnum('booking_event_type', bookingEventType);
+
 /**
  * 优惠类型枚举
  * - direct: 直接减免（如减100元）
@@ -64,6 +92,69 @@ export const promotionTypeEnum = pgEnum('promotion_type', promotionType);
  */
 export const roleTypeEnum = pgEnum('role_type', roleType);
 
+/**
+ * 取消政策枚举
+ * - free_until: 入住日前 N 天（含）之前免费取消，之后不退款
+ * - penalty: 随时可取消，按比例收取违约金
+ * - non_refundable: 取消不退款
+ *
+ * 退款金额的计算见 utils/cancellation.ts
+ */
+export const cancellationPolicyEnum = pgEnum('cancellation_policy', cancellationPolicyType);
+
+/**
+ * 支付单状态枚举
+ * - requires_payment: 待支付（已创建，等待用户完成支付）
+ * - succeeded: 已支付
+ * - failed: 支付失败（可重新创建支付单）
+ * - partially_refunded: 部分退款
+ * - refunded: 全额退款
+ */
+export const paymentStatusEnum = pgEnum('payment_status', paymentStatus);
+
+/**
+ * 退款记录状态枚举
+ * - succeeded: 已通过支付渠道退款
+ * - pending: 渠道退款失败，等待重试（见 utils/payment.ts 的 retryPendingRefunds）
+ */
+export const refundStatusEnum = pgEnum('refund_status', refundStatus);
+
+/**
+ * 预订支付状态枚举
+ * - unpaid: 未支付
+ * - paid: 已支付
+ * - partially_refunded: 部分退款
+ * - refunded: 全额退款
+ */
+export const bookingPaymentStatusEnum = pgEnum('booking_payment_status', bookingPaymentStatus);
+
+/**
+ * 候补状态枚举
+ * - waiting: 排队中
+ * - offered: 已为候补用户保留房间（生成待确认预订）
+ * - expired: 已过期（入住日已过，或保留期内未支付/确认）
+ * - cancelled: 用户取消候补
+ */
+export const waitlistStatusEnum = pgEnum('waitlist_status', waitlistStatus);
+
+/**
+ * 酒店修改稿状态枚举
+ * - pending: 待审核（线上仍展示上一次审核通过的版本）
+ * - approved: 审核通过（已发布到线上）
+ * - rejected: 审核未通过
+ */
+export const hotelRevisionStatusEnum = pgEnum('hotel_revision_status', hotelRevisionStatus);
+
+/**
+ * 酒店审核操作枚举
+ * - approve: 审核通过（含发布修改稿）
+ * - reject: 驳回（含驳回修改稿）
+ * - offline: 下线
+ * - online: 恢复上线
+ * - delete: 删除
+ */
+export const hotelModerationActionEnum = pgEnum('hotel_moderation_action', hotelModerationAction);
+
 // =============================================================================
 // 辅助函数
 // =============================================================================
@@ -100,6 +191,7 @@ const timestamps = () => ({
  * - role: 用户角色（customer/merchant/admin）
  * - phone: 手机号，可选
  * - email: 邮箱，可选
+ * - calendarFeedNonce: 日历订阅 token 中携带的随机串，重新生成即作废该用户签发过的所有订阅链接
  */
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -108,9 +200,48 @@ export const users = pgTable('users', {
   role: roleTypeEnum('role').notNull(),
   phone: varchar('phone', { length: 20 }),
   email: varchar('email', { length: 100 }),
+  calendarFeedNonce: varchar('calendar_feed_nonce', { length: 32 }),
+  ...timestamps(),
+});
+
+/**
+ * 城市表 (cities)
+ *
+ * 酒店所在城市，用户端按城市筛选酒店。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - name: 城市名称，唯一，不带"市"后缀（如：北京、上海）
+ */
+export const cities = pgTable('cities', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 50 }).notNull().unique(),
   ...timestamps(),
 });
 
+/**
+ * 区县表 (districts)
+ *
+ * 城市下属的区县，同一城市内名称唯一。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - cityId: 所属城市ID，外键关联cities表
+ * - name: 区县名称（如：朝阳区）
+ */
+export const districts = pgTable(
+  'districts',
+  {
+    id: serial('id').primaryKey(),
+    cityId: integer('city_id')
+      .notNull()
+      .references(() => cities.id),
+    name: varchar('name', { length: 50 }).notNull(),
+    ...timestamps(),
+  },
+  (t) => [uniqueIndex('idx_districts_city_name').on(t.cityId, t.name)],
+);
+
 /**
  * 酒店表 (hotels)
  *
@@ -123,8 +254,10 @@ export const users = pgTable('users', {
  * - nameEn: 英文名称，可选
  * - ownerId: 所属商户ID，外键关联users表
  * - address: 酒店地址，必填
- * - latitude: 纬度，用于地图定位
- * - longitude: 经度，用于地图定位
+ * - cityId: 所在城市ID，外键关联cities表，可选
+ * - districtId: 所在区县ID，外键关联districts表，可选，必须属于cityId对应的城市
+ * - latitude: 纬度，用于地图定位和位置搜索
+ * - longitude: 经度，用于地图定位和位置搜索
  * - starRating: 星级评定，1-5星
  * - openingDate: 开业日期
  * - nearbyAttractions: 附近景点数组
@@ -136,34 +269,45 @@ export const users = pgTable('users', {
  * - status: 酒店状态（pending/approved/rejected/offline）
  * - statusDescription: 状态说明（如拒绝原因）
  */
-export const hotels = pgTable('hotels', {
-  id: serial('id').primaryKey(),
-  nameZh: varchar('name_zh', { length: 50 }).unique().notNull(),
-  nameEn: varchar('name_en', { length: 100 }),
-  ownerId: integer('owner_id')
-    .notNull()
-    .references(() => users.id),
-  address: text('address').notNull(),
-  latitude: doublePrecision('latitude'),
-  longitude: doublePrecision('longitude'),
-  starRating: integer('star_rating').notNull(),
-  openingDate: date('opening_date').notNull(),
-  nearbyAttractions: varchar('nearby_attractions', {
-    length: 50,
-  }).array(),
-  images: text('images').array(),
-  facilities: varchar('facilities', { length: 50 }).array(),
-  tags: varchar('tags', { length: 50 }).array(),
-  averageRating: numeric('average_rating', {
-    mode: 'number',
-    precision: 3,
-    scale: 2,
-  }).default(0),
-  ratingCount: integer('rating_count').default(0),
-  status: hotelStatusEnum('status').notNull().default('pending'),
-  statusDescription: text('status_description'),
-  ...timestamps(),
-});
+export const hotels = pgTable(
+  'hotels',
+  {
+    id: serial('id').primaryKey(),
+    nameZh: varchar('name_zh', { length: 50 }).unique().notNull(),
+    nameEn: varchar('name_en', { length: 100 }),
+    ownerId: integer('owner_id')
+      .notNull()
+      .references(() => users.id),
+    address: text('address').notNull(),
+    cityId: integer('city_id').references(() => cities.id),
+    districtId: integer('district_id').references(() => districts.id),
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
+    starRating: integer('star_rating').notNull(),
+    openingDate: date('opening_date').notNull(),
+    nearbyAttractions: varchar('nearby_attractions', {
+      length: 50,
+    }).array(),
+    images: text('images').array(),
+    facilities: varchar('facilities', { length: 50 }).array(),
+    tags: varchar('tags', { length: 50 }).array(),
+    averageRating: numeric('average_rating', {
+      mode: 'number',
+      precision: 3,
+      scale: 2,
+    }).default(0),
+    ratingCount: integer('rating_count').default(0),
+    status: hotelStatusEnum('status').notNull().default('pending'),
+    statusDescription: text('status_description'),
+    ...timestamps(),
+  },
+  (t) => [
+    index('idx_hotels_city_id').on(t.cityId),
+    // 经纬度空间索引（PostgreSQL 内置 GiST point 索引，无需扩展），位置搜索先按外接矩形用此索引粗筛
+    // 查询中的表达式须与此处一致（hotelLocationPoint），才能用上索引
+    index('idx_hotels_location').using('gist', sql`point(${t.longitude}, ${t.latitude})`),
+  ],
+);
 
 // 为 hotels 表添加索引（优化排序查询性能）
 export const hotelsStatusIndex = index('idx_hotels_status').on(hotels.status);
@@ -182,9 +326,12 @@ export const hotelsCreatedAtIndex = index('idx_hotels_created_at').on(hotels.cre
  * - hotelId: 所属酒店ID，外键关联hotels表
  * - name: 房型名称
  * - price: 基础价格（精确数值，避免浮点误差）
- * - stock: 可预订房间数量
+ * - stock: 每晚可售房间总数（各日期已占用数量见 room_inventory 表）
  * - capacity: 房间容纳人数，默认1人
  * - description: 房型描述
+ * - cancellationPolicy: 取消政策，默认 free_until
+ * - freeCancelDays: free_until 政策下可免费取消的最晚天数（入住日前N天），为空表示入住当天前均可免费取消
+ * - cancelPenaltyRate: penalty 政策下违约金占总价的比例
  */
 export const roomTypes = pgTable('room_types', {
   id: serial('id').primaryKey(),
@@ -200,12 +347,45 @@ export const roomTypes = pgTable('room_types', {
   stock: integer('stock').notNull().default(0),
   capacity: integer('capacity').default(1),
   description: text('description'),
+  cancellationPolicy: cancellationPolicyEnum('cancellation_policy').notNull().default('free_until'),
+  freeCancelDays: integer('free_cancel_days'),
+  cancelPenaltyRate: numeric('cancel_penalty_rate', {
+    mode: 'number',
+    precision: 3,
+    scale: 2,
+  }),
   ...timestamps(),
 });
 
 // 为 room_types 表添加索引（优化价格排序查询性能）
 export const roomTypesHotelPriceIndex = index('idx_room_types_hotel_price').on(roomTypes.hotelId, roomTypes.price);
 
+/**
+ * 房型每日库存表 (room_inventory)
+ *
+ * 按房型和日期记录已占用的房间数量，实现按晚预留库存。
+ * 某晚的剩余可售数量 = room_types.stock - reserved；没有记录的日期视为尚未占用。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - roomTypeId: 房型ID，外键关联room_types表
+ * - date: 日期（表示该日入住、次日离店的一晚）
+ * - reserved: 当晚已被预订占用的房间数量
+ */
+export const roomInventory = pgTable(
+  'room_inventory',
+  {
+    id: serial('id').primaryKey(),
+    roomTypeId: integer('room_type_id')
+      .notNull()
+      .references(() => roomTypes.id),
+    date: date('date').notNull(),
+    reserved: integer('reserved').notNull().default(0),
+    ...timestamps(),
+  },
+  (t) => [uniqueIndex('idx_room_inventory_room_type_date').on(t.roomTypeId, t.date)],
+);
+
 /**
  * 优惠表 (promotions)
  *
@@ -264,6 +444,9 @@ export const roomTypePromotion = pgTable('room_type_promotion', {
   ...timestamps(),
 });
 
+/** 预订中保存的报价明细（见 quoteStay） */
+export type BookingPriceBreakdown = Pick<PriceQuote, 'nights' | 'promotions' | 'basePrice' | 'discount'>;
+
 /**
  * 预订表 (bookings)
  *
@@ -277,9 +460,22 @@ export const roomTypePromotion = pgTable('room_type_promotion', {
  * - roomTypeId: 预订房型ID，外键关联room_types表
  * - checkIn: 入住日期
  * - checkOut: 离店日期
- * - totalPrice: 预订总价（已应用优惠）
+ * - quantity: 预订房间数，每晚按此数量占用库存
+ * - adults: 入住成人数
+ * - children: 入住儿童数
+ * - guestName: 主入住人姓名（创建时未填写则取预订用户的用户名）
+ * - guestPhone: 主入住人联系电话（创建时未填写则取预订用户的手机号）
+ * - arrivalTime: 预计到店时间（HH:mm）
+ * - specialRequests: 特殊要求
+ * - totalPrice: 预订总价（已应用优惠，含所有房间）
  * - status: 预订状态
  * - promotionId: 应用的优惠ID，可选
+ * - expiresAt: 待确认预订的保留截止时间，过期未确认将被自动取消
+ * - cancellationPolicy / freeCancelDays / cancelPenaltyRate: 预订时房型取消政策的快照，取消时按快照计算退款，
+ *   不受商户之后修改房型政策的影响；更换房型时改为新房型的政策
+ * - refundAmount: 取消时按取消政策计算的应退金额，未取消时为空
+ * - paymentStatus: 支付状态（支付单和退款记录见 payments / payment_refunds 表）
+ * - priceBreakdown: 下单（或修改）时报价的逐晚价格和优惠明细，收据按此展示实际计价；早于该字段创建的预订为空
  */
 export const bookings = pgTable('bookings', {
   id: serial('id').primaryKey(),
@@ -294,6 +490,13 @@ export const bookings = pgTable('bookings', {
     .references(() => roomTypes.id),
   checkIn: date('check_in').notNull(),
   checkOut: date('check_out').notNull(),
+  quantity: integer('quantity').notNull().default(1),
+  adults: integer('adults').notNull().default(1),
+  children: integer('children').notNull().default(0),
+  guestName: varchar('guest_name', { length: 50 }),
+  guestPhone: varchar('guest_phone', { length: 20 }),
+  arrivalTime: varchar('arrival_time', { length: 5 }),
+  specialRequests: text('special_requests'),
   totalPrice: numeric('total_price', {
     mode: 'number',
     precision: 10,
@@ -301,9 +504,348 @@ export const bookings = pgTable('bookings', {
   }).notNull(),
   status: bookingStatusEnum('status').notNull().default('pending'),
   promotionId: integer('promotion_id').references(() => promotions.id),
+  expiresAt: timestamp('expires_at'),
+  cancellationPolicy: cancellationPolicyEnum('cancellation_policy'),
+  freeCancelDays: integer('free_cancel_days'),
+  cancelPenaltyRate: numeric('cancel_penalty_rate', {
+    mode: 'number',
+    precision: 3,
+    scale: 2,
+  }),
+  refundAmount: numeric('refund_amount', {
+    mode: 'number',
+    precision: 10,
+    scale: 2,
+  }),
+  paymentStatus: bookingPaymentStatusEnum('payment_status').notNull().default('unpaid'),
+  priceBreakdown: jsonb('price_breakdown').$type<BookingPriceBreakdown>(),
   ...timestamps(),
 });
 
+/**
+ * 预订修改记录表 (booking_modifications)
+ *
+ * 每次修改预订的日期或房型时，记录修改前的预订信息，便于追溯。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - bookingId: 被修改的预订ID，外键关联bookings表
+ * - userId: 操作人ID，外键关联users表
+ * - previousRoomTypeId: 修改前的房型ID
+ * - previousCheckIn: 修改前的入住日期
+ * - previousCheckOut: 修改前的离店日期
+ * - previousTotalPrice: 修改前的总价
+ * - previousPromotionId: 修改前应用的优惠ID，可选
+ */
+export const bookingModifications = pgTable('booking_modifications', {
+  id: serial('id').primaryKey(),
+  bookingId: integer('booking_id')
+    .notNull()
+    .references(() => bookings.id),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id),
+  previousRoomTypeId: integer('previous_room_type_id')
+    .notNull()
+    .references(() => roomTypes.id),
+  previousCheckIn: date('previous_check_in').notNull(),
+  previousCheckOut: date('previous_check_out').notNull(),
+  previousTotalPrice: numeric('previous_total_price', {
+    mode: 'number',
+    precision: 10,
+    scale: 2,
+  }).notNull(),
+  previousPromotionId: integer('previous_promotion_id').references(() => promotions.id),
+  ...timestamps(),
+});
+
+/**
+ * 预订事件表 (booking_events)
+ *
+ * 记录预订的每一次变更及操作人，构成预订的历史时间线，用于处理纠纷。
+ * 所有修改预订的路由都在同一事务中写入事件。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - bookingId: 预订ID，外键关联bookings表
+ * - type: 事件类型
+ * - actorId: 操作人ID，外键关联users表（系统自动操作时为空）
+ * - actorRole: 操作人角色（系统自动操作时为空）
+ * - fromStatus: 变更前的预订状态（创建时为空）
+ * - toStatus: 变更后的预订状态
+ * - note: 备注（如退款金额、修改内容）
+ */
+export const bookingEvents = pgTable(
+  'booking_events',
+  {
+    id: serial('id').primaryKey(),
+    bookingId: integer('booking_id')
+      .notNull()
+      .references(() => bookings.id),
+    type: bookingEventTypeEnum('type').notNull(),
+    actorId: integer('actor_id').references(() => users.id),
+    actorRole: roleTypeEnum('actor_role'),
+    fromStatus: bookingStatusEnum('from_status'),
+    toStatus: bookingStatusEnum('to_status'),
+    note: text('note'),
+    ...timestamps(),
+  },
+  (t) => [index('idx_booking_events_booking_id').on(t.bookingId)],
+);
+
+/**
+ * 支付单表 (payments)
+ *
+ * 记录预订的每一次支付意向，通过支付渠道（见 utils/payment-provider.ts）完成扣款和退款。
+ * 一个预订可以有多张支付单（如支付失败后重新发起），但最多一张处于已支付状态。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - bookingId: 预订ID，外键关联bookings表
+ * - userId: 付款用户ID，外键关联users表
+ * - provider: 支付渠道名称（如 mock）
+ * - providerPaymentId: 支付渠道侧的支付单号
+ * - clientSecret: 交给客户端完成支付的凭证，重复请求支付时返回同一支付单
+ * - amount: 支付金额（创建时预订的总价）
+ * - currency: 币种，默认 CNY
+ * - status: 支付单状态
+ * - refundedAmount: 已退款金额合计
+ * - failureReason: 支付失败原因
+ * - capturedAt: 扣款成功时间
+ */
+export const payments = pgTable(
+  'payments',
+  {
+    id: serial('id').primaryKey(),
+    bookingId: integer('booking_id')
+      .notNull()
+      .references(() => bookings.id),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    providerPaymentId: varchar('provider_payment_id', { length: 100 }).notNull(),
+    clientSecret: text('client_secret'),
+    amount: numeric('amount', {
+      mode: 'number',
+      precision: 10,
+      scale: 2,
+    }).notNull(),
+    currency: varchar('currency', { length: 3 }).notNull().default('CNY'),
+    status: paymentStatusEnum('status').notNull().default('requires_payment'),
+    refundedAmount: numeric('refunded_amount', {
+      mode: 'number',
+      precision: 10,
+      scale: 2,
+    })
+      .notNull()
+      .default(0),
+    failureReason: text('failure_reason'),
+    capturedAt: timestamp('captured_at'),
+    ...timestamps(),
+  },
+  (t) => [index('idx_payments_booking_id').on(t.bookingId)],
+);
+
+/**
+ * 退款记录表 (payment_refunds)
+ *
+ * 记录支付单的每一笔退款，一张支付单可以多次部分退款。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - paymentId: 支付单ID，外键关联payments表
+ * - providerRefundId: 支付渠道侧的退款单号，待重试的退款为空
+ * - amount: 退款金额
+ * - reason: 退款原因
+ * - status: 退款状态，渠道退款失败时为 pending，重试成功后改为 succeeded
+ * - failureReason: 最近一次渠道退款失败的原因
+ */
+export const paymentRefunds = pgTable('payment_refunds', {
+  id: serial('id').primaryKey(),
+  paymentId: integer('payment_id')
+    .notNull()
+    .references(() => payments.id),
+  providerRefundId: varchar('provider_refund_id', { length: 100 }),
+  amount: numeric('amount', {
+    mode: 'number',
+    precision: 10,
+    scale: 2,
+  }).notNull(),
+  reason: text('reason'),
+  status: refundStatusEnum('status').notNull().default('succeeded'),
+  failureReason: text('failure_reason'),
+  ...timestamps(),
+});
+
+/**
+ * 候补表 (waitlist_entries)
+ *
+ * 房型在某个入住区间满房时，用户可以加入候补队列。
+ * 取消预订、未到店、预订过期或增加库存释放出房间后，按加入顺序为候补用户生成限时保留的待确认预订，
+ * 并发送站内通知（见 utils/waitlist.ts）。
+ *
+ * 字段说明：
+ * - id: 自增主键（即排队顺序）
+ * - userId: 候补用户ID，外键关联users表
+ * - hotelId: 酒店ID，外键关联hotels表
+ * - roomTypeId: 房型ID，外键关联room_types表
+ * - checkIn / checkOut: 入住区间
+ * - quantity: 房间数
+ * - adults / children: 入住人数
+ * - status: 候补状态
+ * - bookingId: 释放库存后生成的保留预订ID
+ * - offeredAt: 生成保留预订的时间
+ */
+export const waitlistEntries = pgTable(
+  'waitlist_entries',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id),
+    hotelId: integer('hotel_id')
+      .notNull()
+      .references(() => hotels.id),
+    roomTypeId: integer('room_type_id')
+      .notNull()
+      .references(() => roomTypes.id),
+    checkIn: date('check_in').notNull(),
+    checkOut: date('check_out').notNull(),
+    quantity: integer('quantity').notNull().default(1),
+    adults: integer('adults').notNull().default(1),
+    children: integer('children').notNull().default(0),
+    status: waitlistStatusEnum('status').notNull().default('waiting'),
+    bookingId: integer('booking_id').references(() => bookings.id),
+    offeredAt: timestamp('offered_at'),
+    ...timestamps(),
+  },
+  (t) => [index('idx_waitlist_entries_room_type_status').on(t.roomTypeId, t.status)],
+);
+
+/**
+ * 站内通知表 (notifications)
+ *
+ * 记录发送给用户的站内通知（如候补保留房间），用户在通知列表中查看。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - userId: 接收用户ID，外键关联users表
+ * - type: 通知类型（如 waitlist_offered）
+ * - title: 标题
+ * - content: 内容
+ * - bookingId: 关联的预订ID，可选
+ * - readAt: 已读时间，未读时为空
+ */
+export const notifications = pgTable(
+  'notifications',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id),
+    type: varchar('type', { length: 50 }).notNull(),
+    title: varchar('title', { length: 100 }).notNull(),
+    content: text('content').notNull(),
+    bookingId: integer('booking_id').references(() => bookings.id),
+    readAt: timestamp('read_at'),
+    ...timestamps(),
+  },
+  (t) => [index('idx_notifications_user_id').on(t.userId)],
+);
+
+/** 酒店修改稿中保存的酒店字段 */
+export type HotelRevisionData = Pick<typeof hotels.$inferSelect, (typeof hotelRevisionFields)[number]>;
+
+/** 酒店修改稿中保存的房型快照 */
+export type HotelRevisionRoomType = Pick<
+  typeof roomTypes.$inferSelect,
+  'id' | 'name' | 'price' | 'stock' | 'capacity' | 'description'
+>;
+
+/**
+ * 酒店修改稿表 (hotel_revisions)
+ *
+ * 商户修改已上线的酒店时，修改内容保存为待审核修改稿，线上继续展示上一次审核通过的版本，
+ * 管理员审核通过后在同一事务中发布到 hotels 表。每次审核通过都会留下一条 approved 记录，
+ * 作为该酒店已发布版本的历史。每个酒店同时最多有一份待审核修改稿。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - hotelId: 酒店ID，外键关联hotels表
+ * - authorId: 提交人ID，外键关联users表
+ * - status: 修改稿状态
+ * - data: 修改后的完整酒店信息（见 HotelRevisionData）
+ * - baseData: 修改稿所基于的线上版本，与 data 不同的字段即商户修改的字段；审核通过时只发布这些字段，
+ *   早于该字段创建的修改稿为空，此时以审核时的线上版本为基础
+ * - roomTypes: 审核通过时的房型快照（房型修改即时生效，不进入修改稿，快照用于审核时对比房型变化）
+ * - reviewerId: 审核人ID，外键关联users表
+ * - reviewedAt: 审核时间
+ * - reviewNote: 驳回原因
+ */
+export const hotelRevisions = pgTable(
+  'hotel_revisions',
+  {
+    id: serial('id').primaryKey(),
+    hotelId: integer('hotel_id')
+      .notNull()
+      .references(() => hotels.id),
+    authorId: integer('author_id')
+      .notNull()
+      .references(() => users.id),
+    status: hotelRevisionStatusEnum('status').notNull().default('pending'),
+    data: jsonb('data').$type<HotelRevisionData>().notNull(),
+    baseData: jsonb('base_data').$type<HotelRevisionData>(),
+    roomTypes: jsonb('room_types').$type<HotelRevisionRoomType[]>(),
+    reviewerId: integer('reviewer_id').references(() => users.id),
+    reviewedAt: timestamp('reviewed_at'),
+    reviewNote: text('review_note'),
+    ...timestamps(),
+  },
+  (t) => [
+    index('idx_hotel_revisions_hotel_id').on(t.hotelId),
+    uniqueIndex('idx_hotel_revisions_hotel_pending')
+      .on(t.hotelId)
+      .where(sql`${t.status} = 'pending'`),
+  ],
+);
+
+/**
+ * 酒店审核记录表 (hotel_moderation_logs)
+ *
+ * 记录管理员对酒店的每一次审核操作，酒店表只保存最新状态，历史操作以此表为准。
+ * 所有审核路由都在同一事务中写入记录。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - hotelId: 酒店ID，外键关联hotels表
+ * - actorId: 操作人ID，外键关联users表
+ * - action: 审核操作
+ * - reason: 操作原因（如驳回原因）
+ * - fromStatus: 操作前的酒店状态
+ * - toStatus: 操作后的酒店状态（审核修改稿时与操作前相同）
+ * - revisionId: 审核的修改稿ID，外键关联hotel_revisions表
+ */
+export const hotelModerationLogs = pgTable(
+  'hotel_moderation_logs',
+  {
+    id: serial('id').primaryKey(),
+    hotelId: integer('hotel_id')
+      .notNull()
+      .references(() => hotels.id),
+    actorId: integer('actor_id')
+      .notNull()
+      .references(() => users.id),
+    action: hotelModerationActionEnum('action').notNull(),
+    reason: text('reason'),
+    fromStatus: hotelStatusEnum('from_status'),
+    toStatus: hotelStatusEnum('to_status'),
+    revisionId: integer('revision_id').references(() => hotelRevisions.id),
+    ...timestamps(),
+  },
+  (t) => [index('idx_hotel_moderation_logs_hotel_id').on(t.hotelId)],
+);
+
 /**
  * 评分表 (ratings)
  *
@@ -330,6 +872,38 @@ export const ratings = pgTable('ratings', {
   ...timestamps(),
 });
 
+/**
+ * 幂等键表 (idempotency_keys)
+ *
+ * 记录带 Idempotency-Key 请求头的写操作及其响应。
+ * 同一用户在同一接口上重复提交相同的幂等键和请求体时，直接返回首次请求的响应。
+ *
+ * 字段说明：
+ * - id: 自增主键
+ * - userId: 发起请求的用户ID，外键关联users表
+ * - scope: 接口标识（如 POST /bookings）
+ * - key: 客户端提供的幂等键
+ * - requestHash: 请求体摘要，用于识别同一幂等键被用于不同请求
+ * - statusCode: 首次请求的响应状态码，为空表示请求仍在处理中
+ * - responseBody: 首次请求的响应体
+ */
+export const idempotencyKeys = pgTable(
+  'idempotency_keys',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id),
+    scope: varchar('scope', { length: 100 }).notNull(),
+    key: varchar('key', { length: 255 }).notNull(),
+    requestHash: varchar('request_hash', { length: 64 }).notNull(),
+    statusCode: integer('status_code'),
+    responseBody: jsonb('response_body'),
+    ...timestamps(),
+  },
+  (t) => [uniqueIndex('idx_idempotency_keys_user_scope_key').on(t.userId, t.scope, t.key)],
+);
+
 // =============================================================================
 // 关系定义（使用 Drizzle ORM beta 版 defineRelations API）
 // =============================================================================
@@ -352,12 +926,24 @@ export const relations = defineRelations(
   // 第一个参数：所有需要定义关系的表
   {
     users,
+    cities,
+    districts,
     hotels,
     roomTypes,
+    roomInventory,
     promotions,
     roomTypePromotion,
     bookings,
+    bookingModifications,
+    bookingEvents,
+    payments,
+    paymentRefunds,
+    waitlistEntries,
+    notifications,
+    hotelRevisions,
+    hotelModerationLogs,
     ratings,
+    idempotencyKeys,
   },
   // 第二个参数：关系定义回调函数
   (r) => ({
@@ -377,11 +963,35 @@ export const relations = defineRelations(
       ratings: r.many.ratings(),
     },
 
+    /**
+     * 城市表关系
+     *
+     * 一个城市有多个区县和多个酒店
+     */
+    cities: {
+      districts: r.many.districts(),
+      hotels: r.many.hotels(),
+    },
+
+    /**
+     * 区县表关系
+     *
+     * 一个区县属于一个城市，有多个酒店
+     */
+    districts: {
+      city: r.one.cities({
+        from: r.districts.cityId,
+        to: r.cities.id,
+      }),
+      hotels: r.many.hotels(),
+    },
+
     /**
      * 酒店表关系
      *
      * 一个酒店：
      * - 属于一个商户（owner）
+     * - 可能属于一个城市和区县
      * - 有多个房型
      * - 可能有多个关联优惠
      * - 有多个预订记录
@@ -393,6 +1003,16 @@ export const relations = defineRelations(
         from: r.hotels.ownerId,
         to: r.users.id,
       }),
+      // 一对一：酒店所在城市
+      city: r.one.cities({
+        from: r.hotels.cityId,
+        to: r.cities.id,
+      }),
+      // 一对一：酒店所在区县
+      district: r.one.districts({
+        from: r.hotels.districtId,
+        to: r.districts.id,
+      }),
       // 一对多：酒店有多个房型
       roomTypes: r.many.roomTypes(),
       // 一对多：酒店有多个优惠
@@ -401,6 +1021,10 @@ export const relations = defineRelations(
       bookings: r.many.bookings(),
       // 一对多：酒店有多个评分
       ratings: r.many.ratings(),
+      // 一对多：酒店有多个修改稿
+      revisions: r.many.hotelRevisions(),
+      // 一对多：酒店有多条审核记录
+      moderationLogs: r.many.hotelModerationLogs(),
     },
 
     /**
@@ -410,6 +1034,7 @@ export const relations = defineRelations(
      * - 属于一个酒店
      * - 可能有多个关联优惠（通过中间表）
      * - 有多个预订记录
+     * - 有多个日期的库存记录
      */
     roomTypes: {
       // 一对一：房型属于一个酒店
@@ -421,6 +1046,21 @@ export const relations = defineRelations(
       bookings: r.many.bookings(),
       // 一对多：房型有多个优惠关联（通过中间表）
       promotionRelations: r.many.roomTypePromotion(),
+      // 一对多：房型有多个日期的库存记录
+      inventory: r.many.roomInventory(),
+    },
+
+    /**
+     * 房型每日库存表关系
+     *
+     * 每条记录属于一个房型
+     */
+    roomInventory: {
+      // 一对一：库存记录属于一个房型
+      roomType: r.one.roomTypes({
+        from: r.roomInventory.roomTypeId,
+        to: r.roomTypes.id,
+      }),
     },
 
     /**
@@ -478,6 +1118,7 @@ export const relations = defineRelations(
      * - 关联一个酒店
      * - 关联一个房型
      * - 可能应用了一个优惠
+     * - 有多条修改记录
      */
     bookings: {
       // 一对一：预订属于一个用户
@@ -500,6 +1141,170 @@ export const relations = defineRelations(
         from: r.bookings.promotionId,
         to: r.promotions.id,
       }),
+      // 一对多：预订有多条修改记录
+      modifications: r.many.bookingModifications(),
+      // 一对多：预订有多条事件记录
+      events: r.many.bookingEvents(),
+      // 一对多：预订有多张支付单
+      payments: r.many.payments(),
+    },
+
+    /**
+     * 预订修改记录表关系
+     *
+     * 一条修改记录：
+     * - 属于一个预订
+     * - 由一个用户操作
+     */
+    bookingModifications: {
+      // 一对一：修改记录属于一个预订
+      booking: r.one.bookings({
+        from: r.bookingModifications.bookingId,
+        to: r.bookings.id,
+      }),
+      // 一对一：修改记录由一个用户操作
+      user: r.one.users({
+        from: r.bookingModifications.userId,
+        to: r.users.id,
+      }),
+    },
+
+    /**
+     * 预订事件表关系
+     *
+     * 一个事件：
+     * - 属于一个预订
+     * - 由一个用户操作（系统自动操作时为空）
+     */
+    bookingEvents: {
+      // 一对一：事件属于一个预订
+      booking: r.one.bookings({
+        from: r.bookingEvents.bookingId,
+        to: r.bookings.id,
+      }),
+      // 一对一：事件的操作人
+      actor: r.one.users({
+        from: r.bookingEvents.actorId,
+        to: r.users.id,
+      }),
+    },
+
+    /**
+     * 支付单表关系
+     *
+     * 一张支付单：
+     * - 属于一个预订
+     * - 由一个用户支付
+     * - 有多条退款记录
+     */
+    payments: {
+      // 一对一：支付单属于一个预订
+      booking: r.one.bookings({
+        from: r.payments.bookingId,
+        to: r.bookings.id,
+      }),
+      // 一对一：支付单的付款用户
+      user: r.one.users({
+        from: r.payments.userId,
+        to: r.users.id,
+      }),
+      // 一对多：支付单有多条退款记录
+      refunds: r.many.paymentRefunds(),
+    },
+
+    /**
+     * 退款记录表关系
+     *
+     * 一条退款记录属于一张支付单
+     */
+    paymentRefunds: {
+      payment: r.one.payments({
+        from: r.paymentRefunds.paymentId,
+        to: r.payments.id,
+      }),
+    },
+
+    /**
+     * 候补表关系
+     *
+     * 一条候补：
+     * - 属于一个用户
+     * - 关联一个酒店和房型
+     * - 释放库存后关联一个保留预订
+     */
+    waitlistEntries: {
+      user: r.one.users({
+        from: r.waitlistEntries.userId,
+        to: r.users.id,
+      }),
+      hotel: r.one.hotels({
+        from: r.waitlistEntries.hotelId,
+        to: r.hotels.id,
+      }),
+      roomType: r.one.roomTypes({
+        from: r.waitlistEntries.roomTypeId,
+        to: r.roomTypes.id,
+      }),
+      booking: r.one.bookings({
+        from: r.waitlistEntries.bookingId,
+        to: r.bookings.id,
+      }),
+    },
+
+    /**
+     * 站内通知表关系
+     *
+     * 一条通知属于一个用户，可以关联一个预订
+     */
+    notifications: {
+      user: r.one.users({
+        from: r.notifications.userId,
+        to: r.users.id,
+      }),
+      booking: r.one.bookings({
+        from: r.notifications.bookingId,
+        to: r.bookings.id,
+      }),
+    },
+
+    /**
+     * 酒店修改稿表关系
+     *
+     * 一份修改稿属于一个酒店，由一个用户提交，由一个管理员审核
+     */
+    hotelRevisions: {
+      hotel: r.one.hotels({
+        from: r.hotelRevisions.hotelId,
+        to: r.hotels.id,
+      }),
+      author: r.one.users({
+        from: r.hotelRevisions.authorId,
+        to: r.users.id,
+      }),
+      reviewer: r.one.users({
+        from: r.hotelRevisions.reviewerId,
+        to: r.users.id,
+      }),
+    },
+
+    /**
+     * 酒店审核记录表关系
+     *
+     * 一条审核记录属于一个酒店，由一个管理员操作，可以关联一份修改稿
+     */
+    hotelModerationLogs: {
+      hotel: r.one.hotels({
+        from: r.hotelModerationLogs.hotelId,
+        to: r.hotels.id,
+      }),
+      actor: r.one.users({
+        from: r.hotelModerationLogs.actorId,
+        to: r.users.id,
+      }),
+      revision: r.one.hotelRevisions({
+        from: r.hotelModerationLogs.revisionId,
+        to: r.hotelRevisions.id,
+      }),
     },
 
     /**
@@ -0,0 +1,21 @@
+// 一次性数据迁移：城市模块上线前的酒店按地址回填城市（pnpm run backfill:hotel-cities）
+// 只回填地址中能唯一确定城市的酒店，其余酒店保持未设置城市，由查询时按地址匹配
+import 'dotenv/config';
+import { Pool } from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+
+import { relations } from '../schema.js';
+import { backfillHotelCities } from '../utils/city.js';
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const db = drizzle({ client: pool, relations });
+
+try {
+  const count = await backfillHotelCities(db);
+  console.log(`已按地址为 ${count} 家酒店回填城市`);
+} finally {
+  await pool.end();
+}
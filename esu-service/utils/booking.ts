@@ -0,0 +1,227 @@
+import { and, eq, inArray, lte, sql } from 'drizzle-orm';
+import type { FastifyBaseLogger } from 'fastify';
+
+import { bookingStatus, bookingEventType } from 'esu-types';
+import { bookings, bookingEvents, waitlistEntries } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+import { lockRoomTypes, releaseInventory } from './inventory.js';
+import { todayDate } from './pricing.js';
+import type { Role } from './permissions.js';
+
+export type BookingStatus = (typeof bookingStatus)[number];
+
+export type BookingEventType = (typeof bookingEventType)[number];
+
+/** 预订状态的中文名称，用于错误信息和收据 */
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: '待确认',
+  confirmed: '已确认',
+  cancelled: '已取消',
+  completed: '已完成',
+  checked_in: '已入住',
+  no_show: '未到店',
+};
+
+/**
+ * 预订状态机：每个状态允许迁移到的下一状态
+ * - pending → confirmed / cancelled
+ * - confirmed → checked_in / no_show / cancelled
+ * - checked_in → completed
+ * - cancelled、completed、no_show 为终态
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'no_show', 'cancelled'],
+  checked_in: ['completed'],
+  cancelled: [],
+  completed: [],
+  no_show: [],
+};
+
+/** 可以修改日期或房型的预订状态 */
+export const MODIFIABLE_BOOKING_STATUSES: readonly BookingStatus[] = ['pending', 'confirmed'];
+
+export const canTransitionBooking = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_TRANSITIONS[from].includes(to);
+
+/**
+ * 检查预订状态迁移是否合法，合法返回 null，否则返回错误信息
+ * 所有修改预订状态的路由都应先经过此检查
+ */
+export const checkBookingTransition = (from: BookingStatus, to: BookingStatus): string | null => {
+  if (canTransitionBooking(from, to)) {
+    return null;
+  }
+
+  return `${BOOKING_STATUS_LABELS[from]}的预订不能变更为${BOOKING_STATUS_LABELS[to]}`;
+};
+
+/**
+ * 检查房间数和入住人数是否合法，合法返回 null，否则返回错误信息
+ * 每间房至少入住一名成人，总人数不超过房型容纳人数 × 房间数（容纳人数为空时不限制）
+ */
+export const checkGuestCapacity = (
+  rt: { capacity: number | null },
+  guests: { quantity: number; adults: number; children: number },
+): string | null => {
+  if (guests.adults < guests.quantity) {
+    return '每间房至少需要一名成人入住';
+  }
+
+  if (rt.capacity !== null && guests.adults + guests.children > rt.capacity * guests.quantity) {
+    return `入住人数超过房型容纳人数（每间最多${rt.capacity}人）`;
+  }
+
+  return null;
+};
+
+/**
+ * 检查入住和离店日期（YYYY-MM-DD）是否合法，合法返回 null，否则返回错误信息
+ * 创建、修改预订和报价共用，入住日期不能早于今天
+ */
+export const checkStayDates = (stay: { checkIn: string; checkOut: string }): string | null => {
+  if (stay.checkIn >= stay.checkOut) {
+    return '入住日期必须早于离店日期';
+  }
+
+  if (stay.checkIn < todayDate()) {
+    return '入住日期不能早于今天';
+  }
+
+  return null;
+};
+
+/** 事件的操作人，系统自动操作（如过期取消）时为 null */
+export type BookingActor = { id: number; role: Role } | null;
+
+/**
+ * 在事务中写入一条预订事件，所有修改预订的操作都应调用
+ */
+export const recordBookingEvent = async (
+  tx: DbTransaction,
+  event: {
+    bookingId: number;
+    type: BookingEventType;
+    actor: BookingActor;
+    fromStatus?: BookingStatus | null;
+    toStatus?: BookingStatus | null;
+    note?: string | null;
+  },
+): Promise<void> => {
+  await tx.insert(bookingEvents).values({
+    bookingId: event.bookingId,
+    type: event.type,
+    actorId: event.actor?.id ?? null,
+    actorRole: event.actor?.role ?? null,
+    fromStatus: event.fromStatus ?? null,
+    toStatus: event.toStatus ?? null,
+    note: event.note ?? null,
+  });
+};
+
+const DEFAULT_HOLD_MINUTES = 30;
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 60;
+
+/**
+ * 待确认预订的保留时长（分钟），通过环境变量 BOOKING_HOLD_MINUTES 配置
+ */
+export const getBookingHoldMinutes = (): number => {
+  const minutes = Number(process.env.BOOKING_HOLD_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES;
+};
+
+/** 计算新预订的保留截止时间 */
+export const getBookingExpiresAt = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + getBookingHoldMinutes() * 60 * 1000);
+
+/** 待确认预订是否已超过保留时间 */
+export const isBookingExpired = (
+  booking: { status: BookingStatus; expiresAt: Date | null },
+  now: Date = new Date(),
+): boolean => booking.status === 'pending' && booking.expiresAt !== null && booking.expiresAt <= now;
+
+/**
+ * 取消所有已过期的待确认预订并释放库存，返回被取消的预订
+ * 为候补用户保留的预订过期时，对应候补一并标记为过期
+ */
+export const expirePendingBookings = async (db: DbInstance, now: Date = new Date()) => {
+  return db.transaction(async (tx: DbTransaction) => {
+    const expired = await tx
+      .update(bookings)
+      // 商户未在保留时间内确认，不属于用户取消，全额退款
+      .set({ status: 'cancelled', refundAmount: sql`${bookings.totalPrice}`, updatedAt: new Date() })
+      .where(and(eq(bookings.status, 'pending'), lte(bookings.expiresAt, now)))
+      .returning();
+
+    // 涉及的房型先按 id 顺序一次性锁定，逐个释放时才不会与修改预订、其他清理任务交叉等待
+    await lockRoomTypes(
+      tx,
+      expired.map((b) => b.roomTypeId),
+    );
+
+    for (const booking of expired) {
+      await releaseInventory(tx, booking.roomTypeId, booking.checkIn, booking.checkOut, booking.quantity);
+      await recordBookingEvent(tx, {
+        bookingId: booking.id,
+        type: 'status_changed',
+        actor: null,
+        fromStatus: 'pending',
+        toStatus: 'cancelled',
+        note: '超过保留时间未确认，自动取消',
+      });
+    }
+
+    if (expired.length > 0) {
+      await tx
+        .update(waitlistEntries)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(
+          and(
+            eq(waitlistEntries.status, 'offered'),
+            inArray(
+              waitlistEntries.bookingId,
+              expired.map((b) => b.id),
+            ),
+          ),
+        );
+    }
+
+    return expired;
+  });
+};
+
+/**
+ * 启动后台定时任务，定期清理过期的待确认预订
+ * 扫描间隔通过环境变量 BOOKING_SWEEP_INTERVAL_SECONDS 配置，返回停止函数
+ * onExpired 在每次取消预订后调用（如将释放的房间保留给候补用户）
+ */
+export const startBookingExpirySweeper = (
+  db: DbInstance,
+  log: FastifyBaseLogger,
+  onExpired?: (expired: (typeof bookings.$inferSelect)[]) => Promise<unknown>,
+): (() => void) => {
+  const seconds = Number(process.env.BOOKING_SWEEP_INTERVAL_SECONDS);
+  const interval = (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_SWEEP_INTERVAL_SECONDS) * 1000;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const expired = await expirePendingBookings(db);
+      if (expired.length > 0) {
+        log.info(`已自动取消 ${expired.length} 个过期未确认的预订`);
+        await onExpired?.(expired);
+      }
+    } catch (err) {
+      log.error(err);
+    } finally {
+      running = false;
+    }
+  }, interval);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
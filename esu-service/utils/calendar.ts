@@ -0,0 +1,219 @@
+import { randomBytes } from 'node:crypto';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+
+import { users } from '../schema.js';
+import type { FastifyRequest } from './permissions.js';
+import type { DbInstance } from './types.js';
+
+export type CalendarFeedScope = 'user' | 'hotel';
+
+/** 订阅 token 的 aud，校验时必须匹配，登录 token 不带 aud，两者不能互相冒用 */
+const CALENDAR_FEED_AUDIENCE = 'calendar-feed';
+
+/** scope/id 为订阅对象，uid 为签发人，nonce 为签发时签发人的订阅随机串 */
+type CalendarFeedTokenPayload = { scope: CalendarFeedScope; id: number; uid: number; nonce: string };
+
+export type CalendarEvent = {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  location: string | null;
+  description: string | null;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  updatedAt: Date;
+};
+
+/** 出现在日历中的预订状态（已取消、未到店的预订不再显示） */
+export const CALENDAR_BOOKING_STATUSES = ['pending', 'confirmed', 'checked_in', 'completed'] as const;
+
+/**
+ * 用户当前的订阅随机串，尚未生成时生成一个（并发生成时以先写入的为准）
+ */
+export const getCalendarFeedNonce = async (db: DbInstance, userId: number): Promise<string> => {
+  const [user] = await db
+    .update(users)
+    .set({ calendarFeedNonce: sql`COALESCE(${users.calendarFeedNonce}, ${randomBytes(16).toString('hex')})` })
+    .where(eq(users.id, userId))
+    .returning({ calendarFeedNonce: users.calendarFeedNonce });
+
+  if (!user?.calendarFeedNonce) {
+    throw new Error('生成订阅随机串失败');
+  }
+
+  return user.calendarFeedNonce;
+};
+
+/**
+ * 重新生成用户的订阅随机串，该用户签发过的订阅 token 全部失效
+ */
+export const rotateCalendarFeedNonce = async (db: DbInstance, userId: number): Promise<void> => {
+  await db
+    .update(users)
+    .set({ calendarFeedNonce: randomBytes(16).toString('hex'), updatedAt: new Date() })
+    .where(eq(users.id, userId));
+};
+
+/**
+ * 生成日历订阅 token
+ * 以 aud 区分于登录 token，payload 不含 role，无法作为登录凭证使用
+ */
+export const createCalendarFeedToken = (
+  request: FastifyRequest,
+  scope: CalendarFeedScope,
+  id: number,
+  issuer: { id: number; nonce: string },
+): string =>
+  request.server.jwt.sign({ scope, id, uid: issuer.id, nonce: issuer.nonce } satisfies CalendarFeedTokenPayload, {
+    aud: CALENDAR_FEED_AUDIENCE,
+  });
+
+/**
+ * 校验日历订阅 token：必须带订阅 aud、为指定用户/酒店签发，且签发人未删除、随机串未被重新生成
+ * 通过时返回签发人（路由据此复核签发人对酒店的权限），否则返回 undefined
+ */
+export const verifyCalendarFeedToken = async (
+  db: DbInstance,
+  request: FastifyRequest,
+  scope: CalendarFeedScope,
+  id: number,
+  token: string,
+) => {
+  let payload: Partial<CalendarFeedTokenPayload>;
+
+  try {
+    payload = request.server.jwt.verify<Partial<CalendarFeedTokenPayload>>(token, {
+      allowedAud: CALENDAR_FEED_AUDIENCE,
+      requiredClaims: ['aud'],
+    });
+  } catch {
+    return undefined;
+  }
+
+  if (payload.scope !== scope || payload.id !== id || typeof payload.uid !== 'number' || !payload.nonce) {
+    return undefined;
+  }
+
+  const [issuer] = await db
+    .select({ id: users.id, role: users.role })
+    .from(users)
+    .where(and(eq(users.id, payload.uid), eq(users.calendarFeedNonce, payload.nonce), isNull(users.deletedAt)));
+
+  return issuer;
+};
+
+/** 按 RFC 5545 转义文本值中的反斜杠、分号、逗号和换行 */
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** 按 RFC 5545 将超过 75 字节的行折叠为以空格开头的续行，不拆分多字节字符 */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length ? 74 : 75;
+
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+
+    current += char;
+    bytes += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: string): string => date.replace(/-/g, '');
+
+const formatDateTime = (date: Date): string => `${date.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`;
+
+/**
+ * 渲染 iCalendar 文档，预订按全天事件导出（离店日为结束日期，不含当天）
+ */
+export const renderCalendar = (name: string, events: CalendarEvent[]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//esu//hotel bookings//ZH',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+
+    lines.push(`STATUS:${event.status}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+/**
+ * 将预订转换为日历事件
+ * audience 为 guest 时以酒店名为标题（用户行程），为 hotel 时以入住人为标题（酒店到店日历）
+ */
+export const bookingToCalendarEvent = (
+  booking: {
+    id: number;
+    status: string;
+    checkIn: string;
+    checkOut: string;
+    quantity: number;
+    guestName: string | null;
+    guestPhone: string | null;
+    arrivalTime: string | null;
+    specialRequests: string | null;
+    updatedAt: Date;
+    hotel: { nameZh: string; address: string } | null;
+    roomType: { name: string } | null;
+  },
+  audience: 'guest' | 'hotel',
+): CalendarEvent => {
+  const roomType = `${booking.roomType?.name ?? '房间'} × ${booking.quantity}间`;
+  const details = [
+    `预订号：${booking.id}`,
+    `房型：${roomType}`,
+    booking.guestName ? `入住人：${booking.guestName}${booking.guestPhone ? ` ${booking.guestPhone}` : ''}` : null,
+    booking.arrivalTime ? `预计到店：${booking.arrivalTime}` : null,
+    audience === 'hotel' && booking.specialRequests ? `特殊要求：${booking.specialRequests}` : null,
+  ];
+
+  return {
+    uid: `booking-${booking.id}@esu`,
+    start: booking.checkIn,
+    end: booking.checkOut,
+    summary:
+      audience === 'guest'
+        ? `入住 ${booking.hotel?.nameZh ?? ''}`.trim()
+        : `到店：${booking.guestName ?? `预订 #${booking.id}`}（${roomType}）`,
+    location: booking.hotel?.address ?? null,
+    description: details.filter((line) => line !== null).join('\n'),
+    status: booking.status === 'pending' ? 'TENTATIVE' : booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: booking.updatedAt,
+  };
+};
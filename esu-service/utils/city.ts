@@ -0,0 +1,123 @@
+import { sql } from 'drizzle-orm';
+
+import { hotels } from '../schema.js';
+import type { DbInstance } from './types.js';
+
+type Hotel = typeof hotels.$inferSelect;
+type HotelLocation = Pick<Hotel, 'cityId' | 'districtId'>;
+
+/**
+ * 城市或区县无效错误，由路由转换为 400 响应
+ */
+export class InvalidCityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCityError';
+  }
+}
+
+/** 城市名称统一去掉"市"后缀，定位得到的"北京市"与城市表中的"北京"视为同一城市 */
+export const normalizeCityName = (name: string): string => {
+  const trimmed = name.trim();
+  return trimmed.length > 1 && trimmed.endsWith('市') ? trimmed.slice(0, -1) : trimmed;
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/**
+ * 未设置城市的酒店（城市模块上线前的旧数据）按地址匹配城市名称，与原先用关键词搜索城市的行为一致
+ */
+export const buildLegacyCityAddressSql = (cityName: string) =>
+  sql`(${hotels.cityId} IS NULL AND ${hotels.address} LIKE ${`%${escapeLike(normalizeCityName(cityName))}%`})`;
+
+/**
+ * 一次性数据迁移：按地址为未设置城市的旧酒店回填 cityId，返回回填的酒店数（见 scripts/backfill-hotel-cities.ts）
+ * 只回填地址中恰好出现一个城市名称的酒店，如"上海市北京路"同时匹配上海和北京则跳过，仍按查询时的地址匹配筛选；
+ * 有待审核修改稿的酒店也跳过。不修改 updated_at，已设置城市的酒店不受影响
+ */
+export const backfillHotelCities = async (db: DbInstance): Promise<number> => {
+  const result = await db.execute(sql`
+    UPDATE hotels SET city_id = matched.city_id
+    FROM (
+      SELECT h.id AS hotel_id, min(c.id) AS city_id
+      FROM hotels h
+      JOIN cities c ON c.deleted_at IS NULL AND position(c.name IN h.address) > 0
+      WHERE h.city_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hotel_revisions r WHERE r.hotel_id = h.id AND r.status = 'pending')
+      GROUP BY h.id
+      HAVING count(*) = 1
+    ) AS matched
+    WHERE hotels.id = matched.hotel_id AND hotels.city_id IS NULL
+  `);
+
+  return (result as { rowCount?: number | null }).rowCount ?? 0;
+};
+
+/**
+ * 城市列表，区县和城市都按名称排序
+ */
+export const listCities = (db: DbInstance) =>
+  db.query.cities.findMany({
+    where: { deletedAt: { isNull: true } },
+    columns: { id: true, name: true },
+    with: {
+      districts: {
+        where: { deletedAt: { isNull: true } },
+        columns: { id: true, cityId: true, name: true },
+        orderBy: { name: 'asc' },
+      },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+/**
+ * 校验酒店的城市和区县，返回需要写入酒店的 cityId/districtId
+ * - 只传区县时按区县补全城市
+ * - 更换城市且未传区县时清空原区县
+ * - 区县必须属于所选城市
+ * 请求中没有城市和区县时返回空对象，不修改酒店的城市和区县
+ */
+export const resolveHotelLocation = async (
+  db: DbInstance,
+  current: HotelLocation,
+  changes: { cityId?: number | null | undefined; districtId?: number | null | undefined },
+): Promise<Partial<HotelLocation>> => {
+  if (changes.cityId === undefined && changes.districtId === undefined) {
+    return {};
+  }
+
+  let cityId = changes.cityId !== undefined ? changes.cityId : current.cityId;
+  const districtId =
+    changes.districtId !== undefined ? changes.districtId : cityId === current.cityId ? current.districtId : null;
+
+  if (districtId !== null) {
+    const district = await db.query.districts.findFirst({
+      where: { id: { eq: districtId }, deletedAt: { isNull: true } },
+    });
+
+    if (!district) {
+      throw new InvalidCityError('区县不存在');
+    }
+
+    // 只选择了区县时，城市以区县所属城市为准
+    if (changes.cityId === undefined) {
+      cityId = district.cityId;
+    }
+
+    if (cityId !== district.cityId) {
+      throw new InvalidCityError('区县不属于所选城市');
+    }
+  }
+
+  if (cityId !== null) {
+    const city = await db.query.cities.findFirst({
+      where: { id: { eq: cityId }, deletedAt: { isNull: true } },
+    });
+
+    if (!city) {
+      throw new InvalidCityError('城市不存在');
+    }
+  }
+
+  return { cityId, districtId };
+};
@@ -0,0 +1,93 @@
+import { asc, desc, sql } from 'drizzle-orm';
+
+import { hotelPriceBuckets } from 'esu-types';
+import { hotels } from '../schema.js';
+import type { DbInstance } from './types.js';
+import { buildHotelSearchCondition, buildRulesFilter } from './hotel.js';
+import type { DrizzleCondition, HotelSearchQuery } from './hotel.js';
+
+type HotelFacet = 'starRating' | 'price' | 'facilities';
+
+/**
+ * 去掉分面自身的筛选条件：已选的星级不影响其他星级的数量，便于多选和切换
+ * 其余条件（关键词、城市、距离、其他分面）照常生效
+ */
+const withoutFacetFilter = (query: HotelSearchQuery, facet: HotelFacet): HotelSearchQuery => {
+  const { starRating, priceMin, priceMax, facilities, rules, ...rest } = query;
+  const { starRating: starRule, price: priceRule, ...otherRules } = rules ?? {};
+
+  return {
+    ...rest,
+    ...(facet !== 'starRating' && starRating !== undefined && { starRating }),
+    ...(facet !== 'price' && priceMin !== undefined && { priceMin }),
+    ...(facet !== 'price' && priceMax !== undefined && { priceMax }),
+    ...(facet !== 'facilities' && facilities !== undefined && { facilities }),
+    rules: {
+      ...otherRules,
+      ...(facet !== 'starRating' && starRule !== undefined && { starRating: starRule }),
+      ...(facet !== 'price' && priceRule !== undefined && { price: priceRule }),
+    },
+  };
+};
+
+const countSql = sql<number>`count(distinct ${hotels.id})::int`;
+
+/** 按数组字段（设施、标签）的每个取值统计酒店数 */
+const countArrayValues = async (db: DbInstance, column: typeof hotels.facilities, condition: DrizzleCondition) => {
+  const values = db
+    .select({ id: hotels.id, value: sql<string>`unnest(${column})`.as('value') })
+    .from(hotels)
+    .where(condition)
+    .as('facet_values');
+
+  return db
+    .select({ value: values.value, count: sql<number>`count(distinct ${values.id})::int` })
+    .from(values)
+    .groupBy(values.value)
+    .orderBy(desc(sql`count(distinct ${values.id})`), asc(values.value));
+};
+
+/**
+ * 酒店搜索分面统计：按星级、设施、标签、价格区间统计符合当前搜索条件的酒店数
+ * 搜索条件与酒店列表相同（buildHotelSearchCondition）；价格区间按 rules.price 的规则判断，
+ * 即酒店有任一房型价格落在区间内就计入该区间，一个酒店可能计入多个区间
+ */
+export const getHotelFacets = async (db: DbInstance, query: HotelSearchQuery) => {
+  const { condition } = buildHotelSearchCondition(query);
+  const { condition: starCondition } = buildHotelSearchCondition(withoutFacetFilter(query, 'starRating'));
+  const { condition: priceCondition } = buildHotelSearchCondition(withoutFacetFilter(query, 'price'));
+  const { condition: facilityCondition } = buildHotelSearchCondition(withoutFacetFilter(query, 'facilities'));
+
+  const priceCounts = hotelPriceBuckets.map(({ min, max }, i) =>
+    sql`count(*) filter (where ${buildRulesFilter({ price: [min, max ?? Infinity] }, false)})::int`.as(`bucket_${i}`),
+  );
+
+  const [[totalRow], starRows, facilities, tags, [priceRow]] = await Promise.all([
+    db.select({ count: countSql }).from(hotels).where(condition),
+    db
+      .select({ value: hotels.starRating, count: countSql })
+      .from(hotels)
+      .where(starCondition)
+      .groupBy(hotels.starRating),
+    countArrayValues(db, hotels.facilities, facilityCondition),
+    countArrayValues(db, hotels.tags, condition),
+    db
+      .select(Object.fromEntries(priceCounts.map((count, i) => [`bucket_${i}`, count])))
+      .from(hotels)
+      .where(priceCondition),
+  ]);
+
+  const starCounts = new Map(starRows.map((row) => [row.value, row.count]));
+
+  return {
+    total: totalRow?.count ?? 0,
+    starRating: [1, 2, 3, 4, 5].map((value) => ({ value, count: starCounts.get(value) ?? 0 })),
+    facilities,
+    tags,
+    price: hotelPriceBuckets.map(({ min, max }, i) => ({
+      min,
+      max,
+      count: Number((priceRow as Record<string, unknown> | undefined)?.[`bucket_${i}`] ?? 0),
+    })),
+  };
+};
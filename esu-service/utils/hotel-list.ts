@@ -0,0 +1,149 @@
+import { SQL, and, count, lt, or, sql } from 'drizzle-orm';
+
+import { hotels } from '../schema.js';
+import type { DbInstance } from './types.js';
+import { buildHotelSearchCondition } from './hotel.js';
+import type { DrizzleCondition, HotelSearchQuery, SortBy } from './hotel.js';
+
+/**
+ * 游标无效错误（格式错误或与当前排序方式不匹配），由路由转换为 400 响应
+ */
+export class InvalidHotelCursorError extends Error {
+  constructor(message = '无效的分页游标') {
+    super(message);
+    this.name = 'InvalidHotelCursorError';
+  }
+}
+
+/** 排序键：SQL 表达式、方向及游标值还原时的类型（游标中的值以文本保存，避免时间戳、小数精度丢失） */
+type SortKey = { name: string; expr: SQL; direction: 'asc' | 'desc'; type: string };
+
+type HotelCursor = { sort: string; values: string[]; id: number };
+
+const minPriceSql = sql`(SELECT MIN(rt.price) FROM room_types rt WHERE rt.hotel_id = hotels.id AND rt.deleted_at IS NULL)`;
+
+/**
+ * 酒店列表的排序键，最后总是按 id 降序，保证排序值相同时翻页顺序稳定
+ * 没有房型的酒店价格视为无穷大，没有评分的酒店评分视为 0，避免 NULL 破坏游标比较
+ * 位置搜索未指定排序时按距离升序
+ */
+const buildSortKeys = (sortBy: SortBy | undefined, reversed: boolean, distanceSql: SQL | null): SortKey[] => {
+  const keys: SortKey[] = [];
+  const asc = reversed ? 'desc' : 'asc';
+  const desc = reversed ? 'asc' : 'desc';
+
+  if (distanceSql && (sortBy === 'distance' || !sortBy)) {
+    keys.push({ name: 'distance', expr: distanceSql, direction: asc, type: 'double precision' });
+  } else if (sortBy === 'price') {
+    keys.push({
+      name: 'price',
+      expr: sql`COALESCE(${minPriceSql}, 'Infinity'::numeric)`,
+      direction: asc,
+      type: 'numeric',
+    });
+  } else if (sortBy === 'rating') {
+    keys.push({ name: 'rating', expr: sql`COALESCE(${hotels.averageRating}, 0)`, direction: desc, type: 'numeric' });
+  } else if (sortBy === 'createdAt') {
+    keys.push({ name: 'createdAt', expr: sql`${hotels.createdAt}`, direction: desc, type: 'timestamp' });
+  }
+
+  return keys;
+};
+
+/** 排序方式签名，写入游标，防止用一种排序的游标请求另一种排序 */
+const sortSignature = (keys: SortKey[]) => keys.map((key) => `${key.name}:${key.direction}`).join(',') || 'id';
+
+const encodeCursor = (cursor: HotelCursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string, keys: SortKey[]): HotelCursor => {
+  let cursor: unknown;
+
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidHotelCursorError();
+  }
+
+  const { sort, values, id } = (cursor ?? {}) as Partial<HotelCursor>;
+
+  if (
+    typeof sort !== 'string' ||
+    !Array.isArray(values) ||
+    values.length !== keys.length ||
+    !values.every((value) => typeof value === 'string') ||
+    !Number.isInteger(id)
+  ) {
+    throw new InvalidHotelCursorError();
+  }
+
+  if (sort !== sortSignature(keys)) {
+    throw new InvalidHotelCursorError('分页游标与当前排序方式不一致');
+  }
+
+  return { sort, values, id: id as number };
+};
+
+/**
+ * 游标之后的记录：按排序键逐个比较，前面的键相等时比较后一个键，最后比较 id
+ */
+const buildAfterCursorCondition = (keys: SortKey[], cursor: HotelCursor): DrizzleCondition => {
+  let condition: DrizzleCondition = lt(hotels.id, cursor.id);
+
+  for (let i = keys.length - 1; i >= 0; i--) {
+    const key = keys[i]!;
+    const value = sql`CAST(${cursor.values[i]} AS ${sql.raw(key.type)})`;
+    const after = key.direction === 'asc' ? sql`${key.expr} > ${value}` : sql`${key.expr} < ${value}`;
+    condition = or(after, and(sql`${key.expr} = ${value}`, condition));
+  }
+
+  return condition;
+};
+
+/**
+ * 酒店列表分页：在数据库中完成筛选、排序、分页和总数统计，只返回当前页的酒店 id 和距离
+ * - 传 cursor 时从游标之后开始取（忽略 page），用于无限滚动
+ * - 否则按 page/limit 偏移分页
+ * 有下一页时返回 nextCursor，可直接用于请求下一页
+ */
+export const listHotelPage = async (
+  db: DbInstance,
+  query: HotelSearchQuery & { cursor?: string | undefined },
+  { page, limit }: { page: number; limit: number },
+) => {
+  const { condition, distanceSql, sortBy, reversed } = buildHotelSearchCondition(query);
+  const keys = buildSortKeys(sortBy, reversed, distanceSql);
+  const cursor = query.cursor ? decodeCursor(query.cursor, keys) : undefined;
+
+  const orderBy = [...keys.map((key) => sql`${key.expr} ${sql.raw(key.direction)}`), sql`${hotels.id} desc`];
+
+  const rows = await db
+    .select({
+      id: hotels.id,
+      distance: distanceSql ? sql<number>`${distanceSql}` : sql<null>`NULL`,
+      ...Object.fromEntries(keys.map((key, i) => [`sort${i}`, sql<string>`(${key.expr})::text`])),
+    })
+    .from(hotels)
+    .where(cursor ? and(condition, buildAfterCursorCondition(keys, cursor)) : condition)
+    .orderBy(...orderBy)
+    .limit(limit + 1)
+    .offset(cursor ? 0 : (page - 1) * limit);
+
+  const [totalRow] = await db.select({ total: count() }).from(hotels).where(condition);
+
+  const pageRows = rows.slice(0, limit) as Array<{ id: number; distance: number | null } & Record<string, unknown>>;
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeCursor({
+          sort: sortSignature(keys),
+          values: keys.map((_, i) => String(last[`sort${i}`])),
+          id: last.id,
+        })
+      : null;
+
+  return {
+    items: pageRows.map((row) => ({ id: row.id, distance: row.distance === null ? null : Number(row.distance) })),
+    total: totalRow?.total ?? 0,
+    nextCursor,
+  };
+};
@@ -0,0 +1,158 @@
+import { eq } from 'drizzle-orm';
+
+import { hotelModerationAction } from 'esu-types';
+import { hotelModerationLogs, hotels } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+
+export type HotelModerationAction = (typeof hotelModerationAction)[number];
+
+type Hotel = typeof hotels.$inferSelect;
+type HotelStatus = Hotel['status'];
+
+const HOTEL_STATUS_LABELS: Record<HotelStatus, string> = {
+  pending: '待审核',
+  approved: '已上线',
+  rejected: '审核未通过',
+  offline: '已下线',
+};
+
+/** 改变酒店状态的操作：审核操作，以及商户修改审核未通过的酒店后重新提交审核 */
+export type HotelStatusAction = Exclude<HotelModerationAction, 'delete'> | 'resubmit';
+
+const HOTEL_ACTION_LABELS: Record<HotelStatusAction, string> = {
+  approve: '审核通过',
+  reject: '驳回',
+  offline: '下线',
+  online: '恢复上线',
+  resubmit: '重新提交审核',
+};
+
+/**
+ * 酒店状态机：每个操作允许的当前状态和操作后的状态
+ * - approve: pending → approved
+ * - reject: pending → rejected
+ * - offline: approved → offline
+ * - online: offline → approved
+ * - resubmit: rejected → pending（商户修改审核未通过的酒店）
+ *
+ * 审核修改稿不改变酒店状态，见 utils/hotel-revision.ts；删除不限状态，已删除的酒店不能再执行任何操作
+ */
+export const HOTEL_TRANSITIONS: Record<HotelStatusAction, { from: readonly HotelStatus[]; to: HotelStatus }> = {
+  approve: { from: ['pending'], to: 'approved' },
+  reject: { from: ['pending'], to: 'rejected' },
+  offline: { from: ['approved'], to: 'offline' },
+  online: { from: ['offline'], to: 'approved' },
+  resubmit: { from: ['rejected'], to: 'pending' },
+};
+
+export const canTransitionHotel = (action: HotelStatusAction, from: HotelStatus): boolean =>
+  HOTEL_TRANSITIONS[action].from.includes(from);
+
+/**
+ * 检查酒店状态迁移是否合法，合法返回 null，否则返回错误信息
+ * 所有修改酒店状态的路由都应先经过此检查
+ */
+export const checkHotelTransition = (action: HotelStatusAction, from: HotelStatus): string | null => {
+  if (canTransitionHotel(action, from)) {
+    return null;
+  }
+
+  return `${HOTEL_STATUS_LABELS[from]}的酒店不能${HOTEL_ACTION_LABELS[action]}`;
+};
+
+/**
+ * 酒店状态迁移不合法，由路由转换为 409 响应
+ */
+export class HotelTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HotelTransitionError';
+  }
+}
+
+/** 已删除的酒店不能再执行审核操作 */
+export const assertHotelNotDeleted = (hotel: Pick<Hotel, 'deletedAt'>): void => {
+  if (hotel.deletedAt) {
+    throw new HotelTransitionError('酒店已删除');
+  }
+};
+
+/**
+ * 在事务中写入一条酒店审核记录，所有审核路由都应调用
+ */
+export const recordHotelModeration = async (
+  tx: DbTransaction,
+  log: {
+    hotelId: number;
+    actorId: number;
+    action: HotelModerationAction;
+    reason?: string | null | undefined;
+    fromStatus?: HotelStatus | null;
+    toStatus?: HotelStatus | null;
+    revisionId?: number | null;
+  },
+): Promise<void> => {
+  await tx.insert(hotelModerationLogs).values({
+    hotelId: log.hotelId,
+    actorId: log.actorId,
+    action: log.action,
+    reason: log.reason || null,
+    fromStatus: log.fromStatus ?? null,
+    toStatus: log.toStatus ?? null,
+    revisionId: log.revisionId ?? null,
+  });
+};
+
+/**
+ * 在事务中按状态机修改酒店状态（删除时标记删除）并写入审核记录，酒店不存在时返回 undefined
+ * 以酒店行锁保证状态检查和记录中的操作前状态准确，迁移不合法时抛出 HotelTransitionError
+ */
+export const moderateHotel = async (
+  db: DbInstance,
+  hotelId: number,
+  actorId: number,
+  action: HotelModerationAction,
+  changes: Partial<Pick<Hotel, 'statusDescription'>> = {},
+  reason?: string,
+): Promise<Hotel | undefined> =>
+  db.transaction(async (tx: DbTransaction) => {
+    const [hotel] = await tx.select().from(hotels).where(eq(hotels.id, hotelId)).for('update');
+
+    if (!hotel) {
+      return undefined;
+    }
+
+    assertHotelNotDeleted(hotel);
+
+    const now = new Date();
+    let next: Partial<Hotel>;
+
+    if (action === 'delete') {
+      next = { deletedAt: now };
+    } else {
+      const transitionError = checkHotelTransition(action, hotel.status);
+
+      if (transitionError) {
+        throw new HotelTransitionError(transitionError);
+      }
+
+      next = { ...changes, status: HOTEL_TRANSITIONS[action].to };
+    }
+
+    const [updated] = await tx
+      .update(hotels)
+      .set({ ...next, updatedAt: now })
+      .where(eq(hotels.id, hotelId))
+      .returning();
+
+    await recordHotelModeration(tx, {
+      hotelId,
+      actorId,
+      action,
+      reason,
+      fromStatus: hotel.status,
+      toStatus: updated?.status ?? null,
+    });
+
+    return updated;
+  });
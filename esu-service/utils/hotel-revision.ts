@@ -0,0 +1,371 @@
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+import { hotelRevisionFields } from 'esu-types';
+import { hotelRevisions, hotels, roomTypes } from '../schema.js';
+import type { HotelRevisionData, HotelRevisionRoomType } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+import {
+  assertHotelNotDeleted,
+  checkHotelTransition,
+  HotelTransitionError,
+  recordHotelModeration,
+} from './hotel-moderation.js';
+
+type Hotel = typeof hotels.$inferSelect;
+type HotelRevision = typeof hotelRevisions.$inferSelect;
+type HotelRevisionField = (typeof hotelRevisionFields)[number];
+
+/**
+ * 修改稿创建后线上版本的同一字段已被其他操作（管理员修改、数据回填等）更新，由路由转换为 409 响应
+ */
+export class HotelRevisionConflictError extends Error {
+  constructor(fields: HotelRevisionField[]) {
+    super(`修改稿创建后线上版本已变更（${fields.join('、')}），请驳回修改稿，由商户基于最新版本重新修改`);
+    this.name = 'HotelRevisionConflictError';
+  }
+}
+
+/**
+ * 商户修改需要进入修改稿的酒店状态：通过过审核的酒店（已上线或已下线）。
+ * 这两个状态都不会再迁移回待审核，因此有修改稿的酒店始终处于这两个状态
+ */
+export const HOTEL_DRAFT_STATUSES: readonly Hotel['status'][] = ['approved', 'offline'];
+
+/** 取出修改稿保存的酒店字段，忽略未提供的字段 */
+export const pickHotelRevisionData = (source: {
+  [K in keyof HotelRevisionData]?: HotelRevisionData[K] | undefined;
+}): Partial<HotelRevisionData> =>
+  Object.fromEntries(
+    hotelRevisionFields.filter((field) => source[field] !== undefined).map((field) => [field, source[field]]),
+  );
+
+/** 酒店当前线上版本的快照 */
+const snapshotHotel = (hotel: Hotel): HotelRevisionData => pickHotelRevisionData(hotel) as HotelRevisionData;
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 修改稿中商户修改的字段及修改后的值，即与修改稿所基于的线上版本不同的字段。
+ * 早于记录基础版本的修改稿以传入的当前线上版本为基础
+ */
+const revisionChanges = (revision: HotelRevision, live: HotelRevisionData): Partial<HotelRevisionData> => {
+  const base = revision.baseData ?? live;
+  return Object.fromEntries(
+    hotelRevisionFields
+      .filter((field) => !isSameValue(revision.data[field], base[field]))
+      .map((field) => [field, revision.data[field]]),
+  );
+};
+
+/** 酒店当前房型的快照，按房型ID排序 */
+const snapshotRoomTypes = (db: DbInstance | DbTransaction, hotelId: number): Promise<HotelRevisionRoomType[]> =>
+  db
+    .select({
+      id: roomTypes.id,
+      name: roomTypes.name,
+      price: roomTypes.price,
+      stock: roomTypes.stock,
+      capacity: roomTypes.capacity,
+      description: roomTypes.description,
+    })
+    .from(roomTypes)
+    .where(and(eq(roomTypes.hotelId, hotelId), isNull(roomTypes.deletedAt)))
+    .orderBy(asc(roomTypes.id));
+
+/** 锁定酒店行，防止同一酒店的修改稿保存与审核并发 */
+const lockHotel = async (tx: DbTransaction, hotelId: number): Promise<Hotel | undefined> => {
+  const [hotel] = await tx.select().from(hotels).where(eq(hotels.id, hotelId)).for('update');
+  return hotel;
+};
+
+const findPendingRevision = async (tx: DbTransaction, hotelId: number): Promise<HotelRevision | undefined> => {
+  const [revision] = await tx
+    .select()
+    .from(hotelRevisions)
+    .where(and(eq(hotelRevisions.hotelId, hotelId), eq(hotelRevisions.status, 'pending')));
+  return revision;
+};
+
+/**
+ * 查询酒店待审核的修改稿
+ *
+ * 修改稿的内容以当前线上版本为基础展示：商户未修改的字段取线上版本，
+ * 不展示修改稿创建后已被更新的旧值，商户在此基础上继续修改也不会带回旧值
+ */
+export const getPendingHotelRevision = async (db: DbInstance, hotel: Hotel): Promise<HotelRevision | undefined> => {
+  const revision = await db.query.hotelRevisions.findFirst({
+    where: { hotelId: { eq: hotel.id }, status: { eq: 'pending' } },
+  });
+
+  if (!revision) {
+    return undefined;
+  }
+
+  const live = snapshotHotel(hotel);
+  return { ...revision, data: { ...live, ...revisionChanges(revision, live) } };
+};
+
+/**
+ * 保存商户对已上线酒店的修改
+ *
+ * 已有待审核修改稿时在其基础上合并本次修改，否则以当前线上版本为基础新建修改稿；
+ * 线上版本保持不变，直到管理员审核通过。
+ * 修改稿记录所基于的线上版本（baseData）：已修改的字段保留修改时的线上值，用于审核时发现此后线上版本的变更，
+ * 其余字段随当前线上版本更新
+ */
+export const saveHotelDraft = async (
+  db: DbInstance,
+  hotelId: number,
+  authorId: number,
+  changes: Parameters<typeof pickHotelRevisionData>[0],
+): Promise<HotelRevision | undefined> =>
+  db.transaction(async (tx: DbTransaction) => {
+    const hotel = await lockHotel(tx, hotelId);
+
+    if (!hotel) {
+      return undefined;
+    }
+
+    assertHotelNotDeleted(hotel);
+
+    const live = snapshotHotel(hotel);
+    const pending = await findPendingRevision(tx, hotelId);
+    const previous = pending ? revisionChanges(pending, live) : {};
+    const previousBase = pending?.baseData ?? live;
+
+    const baseData = Object.fromEntries(
+      hotelRevisionFields.map((field) => [field, field in previous ? previousBase[field] : live[field]]),
+    ) as HotelRevisionData;
+    const data = { ...live, ...previous, ...pickHotelRevisionData(changes) };
+
+    if (pending) {
+      const [updated] = await tx
+        .update(hotelRevisions)
+        .set({ data, baseData, authorId, updatedAt: new Date() })
+        .where(eq(hotelRevisions.id, pending.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await tx.insert(hotelRevisions).values({ hotelId, authorId, data, baseData }).returning();
+    return created;
+  });
+
+/**
+ * 审核通过酒店
+ *
+ * 有待审核修改稿时，在同一事务中将修改稿发布到线上并标记为已通过，酒店状态不变。
+ * 只发布商户修改的字段，修改稿创建后线上版本的其他变更保持不变；
+ * 商户修改的字段在线上也已被改为其他值时不覆盖，抛出 HotelRevisionConflictError。
+ * 没有修改稿时按状态机将酒店状态改为 approved，并记录一条已通过的版本快照，作为线上版本的历史。
+ * 两种情况都会记录审核通过时的房型快照，状态迁移不合法时抛出 HotelTransitionError
+ */
+export const approveHotel = async (db: DbInstance, hotelId: number, reviewerId: number): Promise<Hotel | undefined> =>
+  db.transaction(async (tx: DbTransaction) => {
+    const hotel = await lockHotel(tx, hotelId);
+
+    if (!hotel) {
+      return undefined;
+    }
+
+    assertHotelNotDeleted(hotel);
+
+    const now = new Date();
+    const pending = await findPendingRevision(tx, hotelId);
+
+    if (!pending) {
+      const transitionError = checkHotelTransition('approve', hotel.status);
+
+      if (transitionError) {
+        throw new HotelTransitionError(transitionError);
+      }
+    }
+
+    const roomTypeSnapshot = await snapshotRoomTypes(tx, hotelId);
+
+    if (pending) {
+      const live = snapshotHotel(hotel);
+      const changes = revisionChanges(pending, live);
+      const conflicts = hotelRevisionFields.filter(
+        (field) =>
+          field in changes &&
+          !isSameValue(live[field], pending.baseData?.[field] ?? live[field]) &&
+          !isSameValue(live[field], changes[field]),
+      );
+
+      if (conflicts.length > 0) {
+        throw new HotelRevisionConflictError(conflicts);
+      }
+
+      const [updated] = await tx
+        .update(hotels)
+        .set({ ...changes, updatedAt: now })
+        .where(eq(hotels.id, hotelId))
+        .returning();
+
+      // 已通过的修改稿作为线上版本的历史，保存发布后的完整酒店信息
+      await tx
+        .update(hotelRevisions)
+        .set({
+          status: 'approved',
+          data: { ...live, ...changes },
+          baseData: live,
+          roomTypes: roomTypeSnapshot,
+          reviewerId,
+          reviewedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(hotelRevisions.id, pending.id));
+
+      await recordHotelModeration(tx, {
+        hotelId,
+        actorId: reviewerId,
+        action: 'approve',
+        fromStatus: hotel.status,
+        toStatus: hotel.status,
+        revisionId: pending.id,
+      });
+
+      return updated;
+    }
+
+    const [updated] = await tx
+      .update(hotels)
+      .set({ status: 'approved', updatedAt: now })
+      .where(eq(hotels.id, hotelId))
+      .returning();
+
+    const [snapshot] = await tx
+      .insert(hotelRevisions)
+      .values({
+        hotelId,
+        authorId: hotel.ownerId,
+        status: 'approved',
+        data: snapshotHotel(hotel),
+        roomTypes: roomTypeSnapshot,
+        reviewerId,
+        reviewedAt: now,
+      })
+      .returning();
+
+    await recordHotelModeration(tx, {
+      hotelId,
+      actorId: reviewerId,
+      action: 'approve',
+      fromStatus: hotel.status,
+      toStatus: 'approved',
+      revisionId: snapshot?.id ?? null,
+    });
+
+    return updated;
+  });
+
+/**
+ * 驳回酒店的待审核修改稿，线上版本保持不变
+ * 没有待审核修改稿时返回 undefined
+ */
+export const rejectHotelRevision = async (
+  db: DbInstance,
+  hotelId: number,
+  reviewerId: number,
+  reason: string,
+): Promise<HotelRevision | undefined> =>
+  db.transaction(async (tx: DbTransaction) => {
+    const hotel = await lockHotel(tx, hotelId);
+    const pending = hotel && (await findPendingRevision(tx, hotelId));
+
+    if (!hotel || !pending) {
+      return undefined;
+    }
+
+    assertHotelNotDeleted(hotel);
+
+    const now = new Date();
+    const [rejected] = await tx
+      .update(hotelRevisions)
+      .set({ status: 'rejected', reviewerId, reviewedAt: now, reviewNote: reason, updatedAt: now })
+      .where(eq(hotelRevisions.id, pending.id))
+      .returning();
+
+    await recordHotelModeration(tx, {
+      hotelId,
+      actorId: reviewerId,
+      action: 'reject',
+      reason,
+      fromStatus: hotel.status,
+      toStatus: hotel.status,
+      revisionId: pending.id,
+    });
+
+    return rejected;
+  });
+
+export type HotelVersion = {
+  revisionId: number | null;
+  data: HotelRevisionData;
+  roomTypes: HotelRevisionRoomType[];
+  updatedAt: Date;
+};
+
+type HotelVersionField = HotelRevisionField | 'roomTypes';
+
+/** 逐字段比较两个酒店版本，返回有差异的字段；没有旧版本时所有字段都视为变更 */
+export const diffHotelVersions = (before: HotelVersion | null, after: HotelVersion): HotelVersionField[] => {
+  const fields: HotelVersionField[] = hotelRevisionFields.filter(
+    (field) => !before || !isSameValue(before.data[field], after.data[field]),
+  );
+
+  if (!before || !isSameValue(before.roomTypes, after.roomTypes)) {
+    fields.push('roomTypes');
+  }
+
+  return fields;
+};
+
+/**
+ * 获取酒店的审核对比：待审核版本与上一次审核通过的版本
+ *
+ * 待审核版本为待审核修改稿，或状态为 pending 的酒店本身。
+ * 房型不进入修改稿：房型的价格和库存直接决定可预订房量与订单金额，进行中的预订、库存和候补都依赖当前房型，
+ * 若修改待审核期间仍按旧房型售卖会造成超售或价格不一致，因此房型修改即时生效，待审核版本取当前房型，
+ * 管理员通过与上一次审核通过时的房型快照对比来审核房型变化。
+ * 上一次审核通过的版本取最近一条 approved 修改稿；早于修改稿功能通过审核的酒店没有该记录，
+ * 此时已上线或已下线的酒店以线上版本作为审核通过的版本
+ */
+export const compareHotelRevision = async (
+  db: DbInstance,
+  hotel: Hotel,
+): Promise<{ submitted: HotelVersion | null; approved: HotelVersion | null; changedFields: HotelVersionField[] }> => {
+  const currentRoomTypes = await snapshotRoomTypes(db, hotel.id);
+  const pending = await getPendingHotelRevision(db, hotel);
+  const lastApproved = await db.query.hotelRevisions.findFirst({
+    where: { hotelId: { eq: hotel.id }, status: { eq: 'approved' } },
+    orderBy: { reviewedAt: 'desc', id: 'desc' },
+  });
+
+  const liveVersion: HotelVersion = {
+    revisionId: null,
+    data: snapshotHotel(hotel),
+    roomTypes: currentRoomTypes,
+    updatedAt: hotel.updatedAt,
+  };
+
+  const submitted: HotelVersion | null = pending
+    ? { revisionId: pending.id, data: pending.data, roomTypes: currentRoomTypes, updatedAt: pending.updatedAt }
+    : hotel.status === 'pending'
+      ? liveVersion
+      : null;
+
+  const approved: HotelVersion | null = lastApproved
+    ? {
+        revisionId: lastApproved.id,
+        data: lastApproved.data,
+        roomTypes: lastApproved.roomTypes ?? [],
+        updatedAt: lastApproved.reviewedAt ?? lastApproved.updatedAt,
+      }
+    : hotel.status === 'approved' || hotel.status === 'offline'
+      ? liveVersion
+      : null;
+
+  return { submitted, approved, changedFields: submitted ? diffHotelVersions(approved, submitted) : [] };
+};
@@ -1,38 +1,14 @@
 import { SQL, sql, and, eq, isNull, exists, gt, lt, gte, lte, or } from 'drizzle-orm';
 import * as v from 'valibot';
 
-import { hotels, roomTypes, bookings } from '../schema.js';
+import { hotels, roomTypes, bookings, cities } from '../schema.js';
 import type { DbInstance } from './types.js';
-import { RoomTypeWithDiscountSchema, HotelFilterRulesSchema } from 'esu-types';
+import { buildAvailabilitySql } from './inventory.js';
+import { buildLegacyCityAddressSql, normalizeCityName } from './city.js';
+import { RoomTypeWithDiscountSchema, HotelFilterRulesSchema, HotelListRequestSchema } from 'esu-types';
 
 export type RoomTypeWithDiscount = v.InferOutput<typeof RoomTypeWithDiscountSchema>;
 
-export type Promotion = {
-  id: number;
-  type: 'direct' | 'percentage' | 'spend_and_save';
-  value: number;
-  deletedAt?: string | null;
-  startDate: string;
-  endDate: string;
-  hotelId: number | null;
-  roomTypeId?: number | null;
-};
-
-type PromoInfo = {
-  id: number;
-  type: 'direct' | 'percentage' | 'spend_and_save';
-  value: number;
-};
-
-const PROMO_TYPES = ['direct', 'percentage', 'spend_and_save'] as const;
-
-function toPromoType(value: string): PromoInfo['type'] {
-  if ((PROMO_TYPES as readonly string[]).includes(value)) {
-    return value as PromoInfo['type'];
-  }
-  return 'direct';
-}
-
 export interface HotelDistanceResult {
   id: number;
   distance: number | null;
@@ -41,6 +17,7 @@ export interface HotelDistanceResult {
 
 export interface HotelQueryRoomType {
   id: number;
+  hotelId: number;
   price: number;
 }
 
@@ -65,46 +42,6 @@ const EARTH_RADIUS_KM = 6371;
 
 export const DEFAULT_SEARCH_RADIUS = DEFAULT_RADIUS;
 
-export const calculateDiscountedPrice = (originalPrice: number, promotion: PromoInfo): number => {
-  const value = Number(promotion.value);
-  switch (promotion.type) {
-    case 'percentage':
-      return originalPrice * value;
-    case 'direct':
-      return originalPrice - value;
-    case 'spend_and_save':
-      return originalPrice - value;
-    default:
-      return originalPrice;
-  }
-};
-
-export const getActivePromotions = async (
-  db: DbInstance,
-  hotelId: number,
-  roomTypeId?: number,
-): Promise<PromoInfo[]> => {
-  const now = new Date();
-  const todayStr = now.toISOString().split('T')[0] ?? '';
-
-  const allPromotions = await db.query.promotions.findMany();
-
-  const validPromotions = allPromotions.filter((p) => {
-    if (p.deletedAt) return false;
-    if (p.startDate > todayStr || p.endDate < todayStr) return false;
-    if (p.hotelId !== null && p.hotelId !== hotelId && p.roomTypeId !== roomTypeId) {
-      if (p.hotelId !== null) return false;
-    }
-    return true;
-  });
-
-  return validPromotions.map((p) => ({
-    id: p.id,
-    type: toPromoType(p.type),
-    value: Number(p.value),
-  }));
-};
-
 export const buildSearchFilter = (keyword: string | undefined): SQL | undefined => {
   if (!keyword || !keyword.trim()) {
     return undefined;
@@ -145,6 +82,59 @@ export const buildGeoDistanceSql = (userLat: number, userLng: number): SQL => {
   `;
 };
 
+/** 酒店坐标点，与 idx_hotels_location 索引表达式一致 */
+export const hotelLocationPoint = sql`point(${hotels.longitude}, ${hotels.latitude})`;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// 外接矩形向外放宽约 0.1 米，避免浮点误差把恰好在半径边界上的酒店排除
+const BOUNDING_BOX_MARGIN = 1e-6;
+
+/**
+ * 位置搜索的外接矩形粗筛条件：以用户位置为圆心、radiusKm 为半径的球面圆的经纬度外接矩形
+ * 使用 idx_hotels_location 索引，之后仍按 buildGeoDistanceSql 精确判断距离
+ * - 圆覆盖南北极时经度不做限制
+ * - 跨越 180° 经线时拆成两个矩形
+ * 半径覆盖整个地球时返回 undefined
+ */
+export const buildGeoBoundingBoxSql = (userLat: number, userLng: number, radiusKm: number): SQL | undefined => {
+  const angle = radiusKm / EARTH_RADIUS_KM;
+
+  if (!Number.isFinite(angle) || angle >= Math.PI) {
+    return undefined;
+  }
+
+  const latDelta = toDegrees(angle) + BOUNDING_BOX_MARGIN;
+  const minLat = userLat - latDelta;
+  const maxLat = userLat + latDelta;
+
+  const box = (fromLng: number, toLng: number) =>
+    sql`${hotelLocationPoint} <@ box(point(${fromLng}, ${Math.max(minLat, -90)}), point(${toLng}, ${Math.min(maxLat, 90)}))`;
+
+  if (minLat <= -90 || maxLat >= 90) {
+    return box(-180, 180);
+  }
+
+  const lngDelta =
+    toDegrees(Math.asin(Math.min(1, Math.sin(angle) / Math.cos((userLat * Math.PI) / 180)))) + BOUNDING_BOX_MARGIN;
+
+  if (lngDelta >= 180) {
+    return box(-180, 180);
+  }
+
+  const minLng = userLng - lngDelta;
+  const maxLng = userLng + lngDelta;
+
+  if (minLng < -180) {
+    return sql`(${box(minLng + 360, 180)} OR ${box(-180, maxLng)})`;
+  }
+  if (maxLng > 180) {
+    return sql`(${box(minLng, 180)} OR ${box(-180, maxLng - 360)})`;
+  }
+
+  return box(minLng, maxLng);
+};
+
 export type DrizzleCondition = ReturnType<typeof and> | ReturnType<typeof eq> | undefined;
 
 export const buildBaseCondition = (): DrizzleCondition => {
@@ -152,6 +142,7 @@ export const buildBaseCondition = (): DrizzleCondition => {
 };
 
 export const buildFilterConditions = (query: {
+  city?: string | undefined;
   starRating?: number | undefined;
   facilities?: string[] | undefined;
   priceMin?: number | undefined;
@@ -160,6 +151,14 @@ export const buildFilterConditions = (query: {
 }): DrizzleCondition => {
   const conditions: (ReturnType<typeof and> | undefined)[] = [];
 
+  if (query.city !== undefined) {
+    const citySql = sql`SELECT ${cities.id} FROM ${cities} WHERE ${cities.name} = ${normalizeCityName(query.city)}`;
+    // 未设置城市的旧酒店按地址匹配
+    conditions.push(
+      sql`(${hotels.cityId} IN (${citySql}) OR ${buildLegacyCityAddressSql(query.city)})` as ReturnType<typeof and>,
+    );
+  }
+
   if (query.starRating !== undefined) {
     conditions.push(eq(hotels.starRating, query.starRating));
   }
@@ -187,19 +186,7 @@ export const buildFilterConditions = (query: {
 
   if (query.checkDate) {
     const [checkInStr, checkOutStr] = query.checkDate;
-    conditions.push(
-      sql.raw(`
-      NOT EXISTS (
-        SELECT 1 FROM bookings b
-        INNER JOIN room_types rt ON b.room_type_id = rt.id
-        WHERE rt.hotel_id = hotels.id
-        AND rt.deleted_at IS NULL
-        AND b.status IN ('pending', 'confirmed')
-        AND b.check_in < '${checkOutStr}'
-        AND b.check_out > '${checkInStr}'
-      )
-    `) as ReturnType<typeof and>,
-    );
+    conditions.push(buildAvailabilitySql(checkInStr, checkOutStr) as ReturnType<typeof and>);
   }
 
   const validConditions = conditions.filter((c): c is ReturnType<typeof and> => c !== undefined);
@@ -211,46 +198,6 @@ export const buildFilterConditions = (query: {
   return and(...validConditions);
 };
 
-export const applyRoomTypesDiscount = async (
-  db: DbInstance,
-  hotelId: number,
-  roomTypesList: Array<{ id: number; price: unknown }>,
-  preloadedPromos?: Promotion[],
-): Promise<RoomTypeWithDiscount[]> => {
-  let activePromos: PromoInfo[];
-
-  if (preloadedPromos) {
-    const todayStr = new Date().toISOString().split('T')[0] ?? '';
-    activePromos = preloadedPromos
-      .filter((p) => {
-        if (p.deletedAt) return false;
-        if (p.startDate > todayStr || p.endDate < todayStr) return false;
-        if (p.hotelId !== null && p.hotelId !== hotelId) {
-          if (p.hotelId !== null) return false;
-        }
-        return true;
-      })
-      .map((p) => ({
-        id: p.id,
-        type: toPromoType(p.type),
-        value: Number(p.value),
-      }));
-  } else {
-    activePromos = await getActivePromotions(db, hotelId);
-  }
-
-  return roomTypesList.map((rt) => {
-    let discountedPrice = Number(rt.price);
-    for (const promo of activePromos) {
-      discountedPrice = calculateDiscountedPrice(discountedPrice, promo);
-    }
-    return {
-      ...rt,
-      discountedPrice: Math.max(0, discountedPrice),
-    } as RoomTypeWithDiscount;
-  });
-};
-
 export type SortBy = 'distance' | 'price' | 'rating' | 'createdAt';
 
 export type FilterRules = v.InferOutput<typeof HotelFilterRulesSchema>;
@@ -380,6 +327,70 @@ export const buildRulesFilter = (
   return and(...validConditions);
 };
 
+export type HotelSearchQuery = v.InferOutput<typeof HotelListRequestSchema>;
+
+/**
+ * 用户端酒店搜索条件：关键词、城市、设施、入住日期、筛选规则，有用户坐标时还包括距离范围（默认 DEFAULT_SEARCH_RADIUS 公里内）
+ * 距离范围先按外接矩形走空间索引粗筛，再精确计算距离
+ * 酒店列表和分面统计共用此条件，保证统计数量与列表结果一致
+ */
+export const buildHotelSearchCondition = (query: HotelSearchQuery) => {
+  const userLat = typeof query.userLat === 'number' ? query.userLat : undefined;
+  const userLng = typeof query.userLng === 'number' ? query.userLng : undefined;
+  const hasGeoSearch = userLat !== undefined && userLng !== undefined;
+
+  const { rules, sortBy, reversed } = normalizeLegacyParams({
+    ...query,
+    sortBy: query.sortBy,
+  });
+
+  let checkDateParam: [string, string] | undefined;
+  if (rules.checkDate) {
+    const [checkInDate, checkOutDate] = rules.checkDate;
+    const checkInStr = String(checkInDate).split('T')[0] ?? '';
+    const checkOutStr = String(checkOutDate).split('T')[0] ?? '';
+    checkDateParam = [checkInStr, checkOutStr];
+  }
+
+  const searchFilter = buildSearchFilter(typeof query.keyword === 'string' ? query.keyword : undefined);
+  const filterConditions = buildFilterConditions({
+    city: query.city,
+    facilities: query.facilities,
+    checkDate: checkDateParam,
+  });
+  const rulesFilterResult = buildRulesFilter(rules, hasGeoSearch, userLat, userLng);
+
+  let condition: DrizzleCondition = buildBaseCondition();
+  if (searchFilter) {
+    condition = and(condition, searchFilter as DrizzleCondition);
+  }
+  if (filterConditions) {
+    condition = and(condition, filterConditions);
+  }
+  if (rulesFilterResult) {
+    condition = and(condition, rulesFilterResult);
+  }
+
+  const distanceSql = hasGeoSearch ? buildGeoDistanceSql(userLat, userLng) : null;
+
+  if (hasGeoSearch && distanceSql) {
+    const minRadius = rules.distance?.[0];
+    const maxRadius = rules.distance?.[1] ?? DEFAULT_SEARCH_RADIUS;
+
+    if (minRadius !== undefined && minRadius > 0) {
+      condition = and(condition, sql`${distanceSql} >= ${minRadius}` as DrizzleCondition);
+    }
+    condition = and(condition, sql`${distanceSql} <= ${maxRadius}` as DrizzleCondition);
+
+    const boundingBox = buildGeoBoundingBoxSql(userLat, userLng, maxRadius);
+    if (boundingBox) {
+      condition = and(condition, boundingBox as DrizzleCondition);
+    }
+  }
+
+  return { condition, distanceSql, sortBy, reversed };
+};
+
 export const getHotelMinPrice = (hotel: {
   roomTypes?: Array<{ discountedPrice?: number | null | undefined }> | undefined;
 }): number => {
@@ -0,0 +1,140 @@
+import { createHash } from 'node:crypto';
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { idempotencyKeys } from '../schema.js';
+import type { DbInstance } from './types.js';
+import type { FastifyRequest } from './permissions.js';
+import { errorResponse } from './permissions.js';
+
+/** 客户端传递幂等键的请求头 */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+const MAX_KEY_LENGTH = 255;
+const DEFAULT_TTL_HOURS = 24;
+
+/**
+ * 请求处理中的幂等键的租约时长（毫秒）
+ * 超过租约仍未保存响应的幂等键视为进程异常退出后遗留的记录，允许客户端重试
+ */
+const IN_PROGRESS_LEASE_MS = 60 * 1000;
+
+type RouteResponse = { status: number; body: unknown };
+
+/**
+ * 幂等键的保留时长（小时），通过环境变量 IDEMPOTENCY_KEY_TTL_HOURS 配置
+ * 超过保留时长的幂等键视为未使用过
+ */
+export const getIdempotencyKeyTtlHours = (): number => {
+  const hours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+};
+
+/** 读取请求中的幂等键，未提供时返回 undefined */
+export const getIdempotencyKey = (request: FastifyRequest): string | undefined => {
+  const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+  const key = Array.isArray(header) ? header[0] : header;
+  return key?.trim() || undefined;
+};
+
+/** 按键名排序后序列化，保证字段顺序不同的相同请求体得到相同摘要 */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (body: unknown): string => createHash('sha256').update(stableStringify(body)).digest('hex');
+
+/**
+ * 以幂等方式执行写操作
+ * - 未提供幂等键时直接执行 handler
+ * - 首次请求：占用幂等键后执行 handler，并保存响应（5xx 响应不保存，允许客户端重试）
+ * - 重复请求：请求体相同则返回首次请求保存的响应；请求体不同返回 400；首次请求尚未完成返回 409
+ * - handler 抛出异常时释放幂等键；首次请求超过租约仍未完成（如进程崩溃）时视为已放弃，重新执行
+ *
+ * scope 用于区分不同接口（如 'POST /bookings'），同一用户在不同接口上可以使用相同的幂等键
+ */
+export const withIdempotency = async <R extends RouteResponse>(
+  db: DbInstance,
+  request: FastifyRequest,
+  scope: string,
+  userId: number,
+  body: unknown,
+  handler: () => Promise<R>,
+): Promise<R | ReturnType<typeof errorResponse<400 | 409>>> => {
+  const key = getIdempotencyKey(request);
+
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return errorResponse(400, '无效的幂等键');
+  }
+
+  const requestHash = hashRequest(body);
+
+  const existing = await db.query.idempotencyKeys.findFirst({
+    where: { userId: { eq: userId }, scope: { eq: scope }, key: { eq: key } },
+  });
+
+  if (existing) {
+    const expiresAt = existing.createdAt.getTime() + getIdempotencyKeyTtlHours() * 60 * 60 * 1000;
+    const abandoned = existing.statusCode === null && existing.createdAt.getTime() + IN_PROGRESS_LEASE_MS <= Date.now();
+
+    if (expiresAt <= Date.now()) {
+      await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, existing.id));
+    } else if (abandoned) {
+      // 只删除仍未完成的记录，租约到期的同时首次请求刚好完成时保留其响应
+      await db
+        .delete(idempotencyKeys)
+        .where(and(eq(idempotencyKeys.id, existing.id), isNull(idempotencyKeys.statusCode)));
+    } else if (existing.requestHash !== requestHash) {
+      return errorResponse(400, '幂等键已被用于其他请求');
+    } else if (existing.statusCode === null) {
+      return errorResponse(409, '相同幂等键的请求正在处理中');
+    } else {
+      return { status: existing.statusCode, body: existing.responseBody } as R;
+    }
+  }
+
+  // 依赖唯一索引占用幂等键，并发的重复请求只有一个能占用成功
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({ userId, scope, key, requestHash })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!claimed) {
+    return errorResponse(409, '相同幂等键的请求正在处理中');
+  }
+
+  let result: R;
+
+  try {
+    result = await handler();
+  } catch (err) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, claimed.id));
+    throw err;
+  }
+
+  if (result.status >= 500) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, claimed.id));
+  } else {
+    await db
+      .update(idempotencyKeys)
+      .set({ statusCode: result.status, responseBody: result.body, updatedAt: new Date() })
+      .where(eq(idempotencyKeys.id, claimed.id));
+  }
+
+  return result;
+};
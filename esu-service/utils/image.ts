@@ -0,0 +1,84 @@
+import { randomUUID } from 'node:crypto';
+import sharp from 'sharp';
+
+import { getStorageBackend } from './storage.js';
+import type { StorageBackend } from './storage.js';
+
+/** 允许上传的图片格式（sharp 识别的格式）及对应的扩展名和 Content-Type */
+export const IMAGE_FORMATS = {
+  jpeg: { ext: 'jpg', contentType: 'image/jpeg' },
+  png: { ext: 'png', contentType: 'image/png' },
+  webp: { ext: 'webp', contentType: 'image/webp' },
+} as const;
+
+type ImageFormat = keyof typeof IMAGE_FORMATS;
+
+const SUPPORTED_EXTENSIONS = Object.values(IMAGE_FORMATS)
+  .map((f) => f.ext)
+  .join('、');
+
+/** 缩略图最大宽高，等比缩放，不放大小图 */
+export const THUMBNAIL_SIZE = 400;
+
+/** 图片大小上限（字节），环境变量 UPLOAD_MAX_BYTES 指定，默认 5MB */
+export const getImageMaxBytes = (): number => {
+  const value = Number(process.env.UPLOAD_MAX_BYTES);
+  return Number.isInteger(value) && value > 0 ? value : 5 * 1024 * 1024;
+};
+
+/**
+ * 图片无效错误（格式不支持或文件损坏），由路由转换为 400 响应
+ */
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+const isImageFormat = (format: string | undefined): format is ImageFormat =>
+  format !== undefined && Object.hasOwn(IMAGE_FORMATS, format);
+
+/** sharp 无法解码时（文件损坏、截断等）按无效图片处理 */
+const rejectUndecodableImage = (): never => {
+  throw new InvalidImageError('无法识别的图片文件');
+};
+
+/**
+ * 校验图片并保存原图和缩略图
+ * 图片格式以文件内容为准，不信任客户端声明的文件名和 Content-Type。
+ * 原图按原格式重新编码后保存，去除 EXIF（含拍摄地点）等元数据，并按 EXIF 方向摆正
+ */
+export const storeHotelImage = async (data: Buffer, storage: StorageBackend = getStorageBackend()) => {
+  const metadata = await sharp(data).metadata().catch(rejectUndecodableImage);
+
+  if (!isImageFormat(metadata.format)) {
+    throw new InvalidImageError(`不支持的图片格式，仅支持 ${SUPPORTED_EXTENSIONS}`);
+  }
+
+  const { ext, contentType } = IMAGE_FORMATS[metadata.format];
+  // metadata() 只读取文件头，截断的文件要到解码像素时才会报错
+  const original = await sharp(data)
+    .rotate() // 按 EXIF 方向摆正
+    .toFormat(metadata.format)
+    .toBuffer({ resolveWithObject: true })
+    .catch(rejectUndecodableImage);
+  const thumbnail = await sharp(original.data)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer()
+    .catch(rejectUndecodableImage);
+
+  const id = randomUUID();
+  const stored = await storage.put(`images/${id}.${ext}`, original.data, contentType);
+  const thumb = await storage.put(`images/${id}_thumb.jpg`, thumbnail, 'image/jpeg');
+
+  return {
+    url: stored.url,
+    thumbnailUrl: thumb.url,
+    contentType,
+    size: original.data.length,
+    width: original.info.width,
+    height: original.info.height,
+  };
+};
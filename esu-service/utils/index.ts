@@ -1,3 +1,21 @@
 export * from './permissions.js';
 export * from './hotel.js';
+export * from './inventory.js';
+export * from './pricing.js';
+export * from './booking.js';
+export * from './cancellation.js';
+export * from './idempotency.js';
+export * from './payment-provider.js';
+export * from './payment.js';
+export * from './receipt.js';
+export * from './calendar.js';
+export * from './notification.js';
+export * from './waitlist.js';
+export * from './hotel-revision.js';
+export * from './hotel-moderation.js';
+export * from './storage.js';
+export * from './image.js';
+export * from './city.js';
+export * from './hotel-facets.js';
+export * from './hotel-list.js';
 export type { DbInstance, DbTransaction } from '../schema.js';
@@ -0,0 +1,182 @@
+import { SQL, sql, and, eq, gte, inArray, lt } from 'drizzle-orm';
+
+import { roomInventory, roomTypes } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * 库存不足错误，在事务中抛出以回滚已做的库存变更
+ */
+export class InsufficientStockError extends Error {
+  constructor() {
+    super('库存不足');
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/**
+ * 列出 [checkIn, checkOut) 区间内的每一晚（YYYY-MM-DD）
+ */
+export const listStayNights = (checkIn: string, checkOut: string): string[] => {
+  const nights: string[] = [];
+  const end = new Date(`${checkOut}T00:00:00Z`).getTime();
+
+  for (let t = new Date(`${checkIn}T00:00:00Z`).getTime(); t < end; t += DAY_MS) {
+    nights.push(new Date(t).toISOString().split('T')[0] ?? '');
+  }
+
+  return nights;
+};
+
+const stayRangeCondition = (roomTypeId: number, checkIn: string, checkOut: string) =>
+  and(eq(roomInventory.roomTypeId, roomTypeId), gte(roomInventory.date, checkIn), lt(roomInventory.date, checkOut));
+
+/**
+ * 按 id 顺序以 SELECT ... FOR UPDATE 锁定房型行
+ *
+ * 库存的占用与释放都先锁房型行、再改 room_inventory 行，所有事务按同一顺序加锁才不会互相死锁；
+ * 同一事务涉及多个房型时（如修改预订换房型）需在释放前调用本函数一次性锁定
+ */
+export const lockRoomTypes = async (tx: DbTransaction, roomTypeIds: number[]): Promise<void> => {
+  const ids = [...new Set(roomTypeIds)];
+
+  if (!ids.length) {
+    return;
+  }
+
+  await tx
+    .select({ id: roomTypes.id })
+    .from(roomTypes)
+    .where(inArray(roomTypes.id, ids))
+    .orderBy(roomTypes.id)
+    .for('update');
+};
+
+/**
+ * 在事务中为入住区间内的每一晚占用 quantity 间库存，任一晚余房不足时抛出 InsufficientStockError
+ *
+ * 先以 SELECT ... FOR UPDATE 锁定房型行，同一房型的并发预订在此排队，
+ * 前一个事务提交后才读取各晚的占用数量，保证检查与占用之间不会被其他预订插入
+ */
+export const reserveInventory = async (
+  tx: DbTransaction,
+  roomTypeId: number,
+  checkIn: string,
+  checkOut: string,
+  quantity: number = 1,
+): Promise<void> => {
+  const nights = listStayNights(checkIn, checkOut);
+
+  if (!nights.length) {
+    return;
+  }
+
+  const [rt] = await tx
+    .select({ stock: roomTypes.stock })
+    .from(roomTypes)
+    .where(eq(roomTypes.id, roomTypeId))
+    .for('update');
+
+  if (!rt) {
+    throw new InsufficientStockError();
+  }
+
+  const [overbooked] = await tx
+    .select({ date: roomInventory.date })
+    .from(roomInventory)
+    .where(
+      and(
+        stayRangeCondition(roomTypeId, checkIn, checkOut),
+        sql`${roomInventory.reserved} + ${quantity} > ${rt.stock}`,
+      ),
+    )
+    .limit(1);
+
+  if (overbooked || quantity > rt.stock) {
+    throw new InsufficientStockError();
+  }
+
+  await tx
+    .insert(roomInventory)
+    .values(nights.map((date) => ({ roomTypeId, date, reserved: quantity })))
+    .onConflictDoUpdate({
+      target: [roomInventory.roomTypeId, roomInventory.date],
+      set: {
+        reserved: sql`${roomInventory.reserved} + ${quantity}`,
+        updatedAt: new Date(),
+      },
+    });
+};
+
+/**
+ * 入住区间内每一晚是否都还有 quantity 间余房（只读检查，不占用库存）
+ */
+export const hasAvailableStock = async (
+  db: DbInstance,
+  roomTypeId: number,
+  checkIn: string,
+  checkOut: string,
+  quantity: number = 1,
+): Promise<boolean> => {
+  const [rt] = await db.select({ stock: roomTypes.stock }).from(roomTypes).where(eq(roomTypes.id, roomTypeId));
+
+  if (!rt || quantity > rt.stock) {
+    return false;
+  }
+
+  const [overbooked] = await db
+    .select({ date: roomInventory.date })
+    .from(roomInventory)
+    .where(
+      and(
+        stayRangeCondition(roomTypeId, checkIn, checkOut),
+        sql`${roomInventory.reserved} + ${quantity} > ${rt.stock}`,
+      ),
+    )
+    .limit(1);
+
+  return !overbooked;
+};
+
+/**
+ * 释放入住区间内每一晚占用的库存，先锁定房型行，与 reserveInventory 的加锁顺序一致
+ */
+export const releaseInventory = async (
+  tx: DbTransaction,
+  roomTypeId: number,
+  checkIn: string,
+  checkOut: string,
+  quantity: number = 1,
+): Promise<void> => {
+  await lockRoomTypes(tx, [roomTypeId]);
+
+  await tx
+    .update(roomInventory)
+    .set({
+      reserved: sql`GREATEST(${roomInventory.reserved} - ${quantity}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(stayRangeCondition(roomTypeId, checkIn, checkOut));
+};
+
+/**
+ * 酒店在入住区间内是否至少有一个房型每晚都有余房（用于酒店列表的 checkDate 筛选）
+ */
+export const buildAvailabilitySql = (checkIn: string, checkOut: string): SQL => {
+  return sql`
+    EXISTS (
+      SELECT 1 FROM ${roomTypes}
+      WHERE ${roomTypes.hotelId} = hotels.id
+      AND ${roomTypes.deletedAt} IS NULL
+      AND ${roomTypes.stock} > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM ${roomInventory}
+        WHERE ${roomInventory.roomTypeId} = ${roomTypes.id}
+        AND ${roomInventory.date} >= ${checkIn}
+        AND ${roomInventory.date} < ${checkOut}
+        AND ${roomInventory.reserved} >= ${roomTypes.stock}
+      )
+    )
+  `;
+};
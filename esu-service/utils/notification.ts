@@ -0,0 +1,24 @@
+import { notifications } from '../schema.js';
+import type { DbTransaction } from './types.js';
+
+/**
+ * 在事务中写入一条站内通知，与触发通知的业务变更一同提交或回滚
+ */
+export const sendNotification = async (
+  tx: DbTransaction,
+  notification: {
+    userId: number;
+    type: string;
+    title: string;
+    content: string;
+    bookingId?: number | null;
+  },
+): Promise<void> => {
+  await tx.insert(notifications).values({
+    userId: notification.userId,
+    type: notification.type,
+    title: notification.title,
+    content: notification.content,
+    bookingId: notification.bookingId ?? null,
+  });
+};
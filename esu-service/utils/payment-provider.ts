@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * 支付渠道接口
+ * 支付模块只通过此接口与支付渠道交互，接入新渠道时实现此接口并调用 registerPaymentProvider
+ */
+export interface PaymentProvider {
+  /** 渠道名称，记录在支付单的 provider 字段 */
+  readonly name: string;
+
+  /** 创建支付意向，返回渠道侧支付单号和交给客户端完成支付的 clientSecret */
+  createIntent(params: {
+    amount: number;
+    currency: string;
+    metadata: Record<string, string>;
+  }): Promise<{ providerPaymentId: string; clientSecret: string }>;
+
+  /** 扣款，失败时返回失败原因而不是抛出异常 */
+  capture(params: {
+    providerPaymentId: string;
+    amount: number;
+    paymentMethod?: string | undefined;
+  }): Promise<{ success: true } | { success: false; failureReason: string }>;
+
+  /** 退款，返回渠道侧退款单号 */
+  refund(params: { providerPaymentId: string; amount: number }): Promise<{ providerRefundId: string }>;
+}
+
+/**
+ * 支付渠道调用失败错误
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+/** 模拟渠道中表示支付被拒的支付凭证，用于测试支付失败流程 */
+export const MOCK_DECLINED_PAYMENT_METHOD = 'mock_card_declined';
+
+/**
+ * 本地模拟支付渠道，不依赖任何外部服务，仅用于测试和本地开发（PAYMENT_PROVIDER=mock）
+ * 在内存中记录支付意向，服务重启后丢失，除 MOCK_DECLINED_PAYMENT_METHOD 外的支付凭证均扣款成功
+ */
+export const createMockPaymentProvider = (): PaymentProvider => {
+  const intents = new Map<string, { amount: number; captured: boolean; refunded: number }>();
+
+  return {
+    name: 'mock',
+
+    async createIntent({ amount }) {
+      const providerPaymentId = `mock_pi_${randomUUID()}`;
+      intents.set(providerPaymentId, { amount, captured: false, refunded: 0 });
+      return { providerPaymentId, clientSecret: `${providerPaymentId}_secret` };
+    },
+
+    async capture({ providerPaymentId, amount, paymentMethod }) {
+      const intent = intents.get(providerPaymentId);
+
+      if (!intent) {
+        throw new PaymentProviderError('支付单不存在');
+      }
+
+      if (paymentMethod === MOCK_DECLINED_PAYMENT_METHOD) {
+        return { success: false, failureReason: '支付被拒绝' };
+      }
+
+      if (amount !== intent.amount) {
+        return { success: false, failureReason: '支付金额不一致' };
+      }
+
+      intent.captured = true;
+      return { success: true };
+    },
+
+    async refund({ providerPaymentId, amount }) {
+      const intent = intents.get(providerPaymentId);
+
+      if (!intent || !intent.captured) {
+        throw new PaymentProviderError('支付单未扣款，无法退款');
+      }
+
+      if (intent.refunded + amount > intent.amount) {
+        throw new PaymentProviderError('退款金额超过已支付金额');
+      }
+
+      intent.refunded += amount;
+      return { providerRefundId: `mock_re_${randomUUID()}` };
+    },
+  };
+};
+
+const providers = new Map<string, PaymentProvider>();
+
+/** 注册支付渠道，同名渠道会被替换 */
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+registerPaymentProvider(createMockPaymentProvider());
+
+/** 环境变量 PAYMENT_PROVIDER 指定的支付渠道，未配置时测试环境（NODE_ENV=test）使用 mock 渠道 */
+const configuredProviderName = (): string | undefined =>
+  process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'test' ? 'mock' : undefined);
+
+/** 是否配置了支付渠道，未配置时在线支付不可用，预订等其他功能不受影响 */
+export const isPaymentConfigured = (): boolean => configuredProviderName() !== undefined;
+
+/**
+ * 获取支付渠道，默认使用 PAYMENT_PROVIDER 指定的渠道
+ * 未配置时抛出错误（支付接口返回 400）；mock 渠道的支付单只保存在内存中，生产环境（NODE_ENV=production）不可使用
+ */
+export const getPaymentProvider = (name: string | undefined = configuredProviderName()): PaymentProvider => {
+  if (!name) {
+    throw new PaymentProviderError('未配置支付渠道，在线支付暂不可用');
+  }
+
+  if (name === 'mock' && process.env.NODE_ENV === 'production') {
+    throw new PaymentProviderError('生产环境不能使用模拟支付渠道 mock');
+  }
+
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new PaymentProviderError(`未注册的支付渠道：${name}`);
+  }
+
+  return provider;
+};
@@ -0,0 +1,446 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import type { FastifyBaseLogger } from 'fastify';
+
+import { paymentStatus } from 'esu-types';
+import { bookings, payments, paymentRefunds } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+import { isBookingExpired, recordBookingEvent } from './booking.js';
+import type { BookingActor, BookingStatus } from './booking.js';
+import { getPaymentProvider, PaymentProviderError } from './payment-provider.js';
+
+export type PaymentStatus = (typeof paymentStatus)[number];
+
+/** 可以发起支付的预订状态 */
+const PAYABLE_BOOKING_STATUSES: readonly BookingStatus[] = ['pending', 'confirmed'];
+
+/** 已扣款、仍有可退金额的支付单状态 */
+const REFUNDABLE_PAYMENT_STATUSES: readonly PaymentStatus[] = ['succeeded', 'partially_refunded'];
+
+/**
+ * 支付业务错误，在事务中抛出以回滚已做的变更，路由层转换为 400 响应
+ */
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+const DEFAULT_REFUND_RETRY_INTERVAL_SECONDS = 300;
+
+/** 金额按分取整，避免浮点误差累积 */
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * 检查预订当前是否可以支付，可以返回 null，否则返回错误信息
+ */
+export const checkBookingPayable = (booking: {
+  status: BookingStatus;
+  paymentStatus: string;
+  expiresAt: Date | null;
+}): string | null => {
+  if (!PAYABLE_BOOKING_STATUSES.includes(booking.status)) {
+    return '当前状态的预订不能支付';
+  }
+
+  if (booking.paymentStatus !== 'unpaid') {
+    return '预订已支付';
+  }
+
+  if (isBookingExpired(booking)) {
+    return '预订已超过保留时间';
+  }
+
+  return null;
+};
+
+/**
+ * 为预订创建支付单，返回支付单和 clientSecret
+ *
+ * 锁定预订行后查找待支付的支付单，同一预订的重试、重复点击和并发请求都返回同一张支付单，
+ * 保证预订最多只有一张可扣款的支付单。金额与当前预订总价不一致（如修改了预订）的旧支付单
+ * 标记为 failed，再创建新的支付单
+ */
+export const createPaymentIntent = async (db: DbInstance, bookingId: number, userId: number) =>
+  db.transaction(async (tx: DbTransaction) => {
+    const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for('update');
+
+    if (!booking) {
+      throw new PaymentError('预订不存在');
+    }
+
+    const payableError = checkBookingPayable(booking);
+
+    if (payableError) {
+      throw new PaymentError(payableError);
+    }
+
+    const open = await tx
+      .select()
+      .from(payments)
+      .where(and(eq(payments.bookingId, booking.id), eq(payments.status, 'requires_payment')))
+      .orderBy(payments.id);
+
+    for (const payment of open) {
+      if (roundAmount(payment.amount) === roundAmount(booking.totalPrice) && payment.clientSecret) {
+        return { payment, clientSecret: payment.clientSecret };
+      }
+
+      await tx
+        .update(payments)
+        .set({ status: 'failed', failureReason: '预订金额已变更', updatedAt: new Date() })
+        .where(eq(payments.id, payment.id));
+    }
+
+    const provider = getPaymentProvider();
+    const { providerPaymentId, clientSecret } = await provider.createIntent({
+      amount: booking.totalPrice,
+      currency: 'CNY',
+      metadata: { bookingId: String(booking.id) },
+    });
+
+    const [payment] = await tx
+      .insert(payments)
+      .values({
+        bookingId: booking.id,
+        userId,
+        provider: provider.name,
+        providerPaymentId,
+        clientSecret,
+        amount: booking.totalPrice,
+      })
+      .returning();
+
+    return { payment: payment!, clientSecret };
+  });
+
+/**
+ * 通过支付渠道扣款
+ *
+ * 在事务中锁定预订行后再调用渠道扣款，同一预订的并发支付在此排队，保证最多一张支付单扣款成功。
+ * 渠道返回失败时支付单标记为 failed 并记录原因；扣款成功后预订标记为已支付，
+ * 并清除保留截止时间（已支付的预订不会被自动过期取消）
+ */
+export const capturePayment = async (
+  db: DbInstance,
+  paymentId: number,
+  paymentMethod: string | undefined,
+  actor: BookingActor,
+) =>
+  db.transaction(async (tx: DbTransaction) => {
+    const [payment] = await tx.select().from(payments).where(eq(payments.id, paymentId)).for('update');
+
+    if (!payment) {
+      throw new PaymentError('支付单不存在');
+    }
+
+    if (payment.status !== 'requires_payment') {
+      throw new PaymentError('支付单状态不允许支付');
+    }
+
+    const [booking] = await tx.select().from(bookings).where(eq(bookings.id, payment.bookingId)).for('update');
+
+    if (!booking) {
+      throw new PaymentError('预订不存在');
+    }
+
+    const payableError = checkBookingPayable(booking);
+
+    if (payableError) {
+      throw new PaymentError(payableError);
+    }
+
+    if (roundAmount(booking.totalPrice) !== roundAmount(payment.amount)) {
+      throw new PaymentError('预订金额已变更，请重新创建支付单');
+    }
+
+    const result = await getPaymentProvider(payment.provider).capture({
+      providerPaymentId: payment.providerPaymentId,
+      amount: payment.amount,
+      paymentMethod,
+    });
+
+    if (!result.success) {
+      const [failed] = await tx
+        .update(payments)
+        .set({ status: 'failed', failureReason: result.failureReason, updatedAt: new Date() })
+        .where(eq(payments.id, payment.id))
+        .returning();
+
+      return failed!;
+    }
+
+    const [captured] = await tx
+      .update(payments)
+      .set({ status: 'succeeded', capturedAt: new Date(), updatedAt: new Date() })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    await tx
+      .update(bookings)
+      .set({ paymentStatus: 'paid', expiresAt: null, updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id));
+
+    await recordBookingEvent(tx, {
+      bookingId: booking.id,
+      type: 'payment_captured',
+      actor,
+      fromStatus: booking.status,
+      toStatus: booking.status,
+      note: `支付金额 ${payment.amount}`,
+    });
+
+    return captured!;
+  });
+
+type Payment = typeof payments.$inferSelect;
+
+/** 支付单上待重试的退款金额合计（渠道退款失败、尚未退出的部分） */
+const pendingRefundTotal = async (tx: DbTransaction, paymentId: number): Promise<number> => {
+  const pending = await tx
+    .select({ amount: paymentRefunds.amount })
+    .from(paymentRefunds)
+    .where(and(eq(paymentRefunds.paymentId, paymentId), eq(paymentRefunds.status, 'pending')));
+
+  return roundAmount(pending.reduce((sum, refund) => sum + refund.amount, 0));
+};
+
+/**
+ * 对已锁定的支付单调用渠道退款并记账：写入（或将重试的待退款记录更新为）成功的退款记录，
+ * 更新支付单和预订的支付状态，记录预订事件。渠道失败时抛出 PaymentProviderError，不做任何变更
+ */
+const applyProviderRefund = async (
+  tx: DbTransaction,
+  payment: Payment,
+  amount: number,
+  reason: string | null,
+  actor: BookingActor,
+  pendingRefundId?: number,
+) => {
+  const { providerRefundId } = await getPaymentProvider(payment.provider).refund({
+    providerPaymentId: payment.providerPaymentId,
+    amount,
+  });
+
+  if (pendingRefundId !== undefined) {
+    await tx
+      .update(paymentRefunds)
+      .set({ status: 'succeeded', providerRefundId, failureReason: null, updatedAt: new Date() })
+      .where(eq(paymentRefunds.id, pendingRefundId));
+  } else {
+    await tx.insert(paymentRefunds).values({ paymentId: payment.id, providerRefundId, amount, reason });
+  }
+
+  const refundedAmount = roundAmount(payment.refundedAmount + amount);
+  const status = refundedAmount >= payment.amount ? 'refunded' : 'partially_refunded';
+
+  await tx.update(payments).set({ refundedAmount, status, updatedAt: new Date() }).where(eq(payments.id, payment.id));
+
+  const [booking] = await tx
+    .update(bookings)
+    .set({ paymentStatus: status, updatedAt: new Date() })
+    .where(eq(bookings.id, payment.bookingId))
+    .returning();
+
+  await recordBookingEvent(tx, {
+    bookingId: payment.bookingId,
+    type: 'payment_refunded',
+    actor,
+    fromStatus: booking?.status ?? null,
+    toStatus: booking?.status ?? null,
+    note: reason ? `退款 ${amount}（${reason}）` : `退款 ${amount}`,
+  });
+
+  return amount;
+};
+
+/**
+ * 在事务中对支付单退款，amount 为空时退还全部剩余金额
+ * 锁定支付单行后检查可退金额（扣除已退款和待重试的退款），并发退款不会超过已支付金额
+ */
+const refundPaymentInTx = async (
+  tx: DbTransaction,
+  paymentId: number,
+  refund: { amount?: number | undefined; reason?: string | null | undefined },
+  actor: BookingActor,
+) => {
+  const [payment] = await tx.select().from(payments).where(eq(payments.id, paymentId)).for('update');
+
+  if (!payment) {
+    throw new PaymentError('支付单不存在');
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+    throw new PaymentError('支付单未支付或已全额退款');
+  }
+
+  const remaining = roundAmount(payment.amount - payment.refundedAmount - (await pendingRefundTotal(tx, payment.id)));
+  const amount = roundAmount(refund.amount ?? remaining);
+
+  if (amount <= 0 || amount > remaining) {
+    throw new PaymentError(`退款金额超过可退金额（可退 ${remaining}）`);
+  }
+
+  return applyProviderRefund(tx, payment, amount, refund.reason ?? null, actor);
+};
+
+/**
+ * 对支付单退款，返回带退款记录的支付单
+ */
+export const refundPayment = async (
+  db: DbInstance,
+  paymentId: number,
+  refund: { amount?: number | undefined; reason?: string | null | undefined },
+  actor: BookingActor,
+) => {
+  await db.transaction((tx: DbTransaction) => refundPaymentInTx(tx, paymentId, refund, actor));
+
+  return db.query.payments.findFirst({
+    where: { id: { eq: paymentId } },
+    columns: { clientSecret: false },
+    with: { refunds: { orderBy: { id: 'asc' } } },
+  });
+};
+
+/**
+ * 按预订的应退金额依次对已扣款的支付单退款，返回实际退款金额和待重试金额
+ * 预订未支付时不做任何操作。渠道退款失败不影响调用方（如已提交的取消预订），
+ * 失败的部分记录为待重试的退款（status 为 pending），由 retryPendingRefunds 重试
+ */
+export const refundBookingPayments = async (
+  db: DbInstance,
+  bookingId: number,
+  amount: number,
+  reason: string,
+  actor: BookingActor,
+): Promise<{ refunded: number; pending: number }> =>
+  db.transaction(async (tx: DbTransaction) => {
+    const captured = await tx
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(eq(payments.bookingId, bookingId), inArray(payments.status, REFUNDABLE_PAYMENT_STATUSES)))
+      .orderBy(payments.id);
+
+    let left = roundAmount(amount);
+    let refunded = 0;
+    let pending = 0;
+
+    for (const { id } of captured) {
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, id)).for('update');
+
+      if (!payment) {
+        continue;
+      }
+
+      const remaining = roundAmount(payment.amount - payment.refundedAmount - (await pendingRefundTotal(tx, id)));
+
+      if (left <= 0 || remaining <= 0) {
+        continue;
+      }
+
+      const refundAmount = Math.min(left, remaining);
+      left = roundAmount(left - refundAmount);
+
+      try {
+        refunded = roundAmount(refunded + (await applyProviderRefund(tx, payment, refundAmount, reason, actor)));
+      } catch (err) {
+        if (!(err instanceof PaymentProviderError)) {
+          throw err;
+        }
+
+        await tx.insert(paymentRefunds).values({
+          paymentId: payment.id,
+          amount: refundAmount,
+          reason,
+          status: 'pending',
+          failureReason: err.message,
+        });
+        pending = roundAmount(pending + refundAmount);
+      }
+    }
+
+    return { refunded, pending };
+  });
+
+/**
+ * 重试渠道退款失败的待退款记录，返回重试成功的记录数
+ * 每条记录单独事务处理并锁定支付单，仍然失败时更新失败原因，等待下次重试
+ */
+export const retryPendingRefunds = async (db: DbInstance): Promise<number> => {
+  const pending = await db
+    .select({ id: paymentRefunds.id })
+    .from(paymentRefunds)
+    .where(eq(paymentRefunds.status, 'pending'))
+    .orderBy(paymentRefunds.id);
+
+  let succeeded = 0;
+
+  for (const { id } of pending) {
+    const done = await db.transaction(async (tx: DbTransaction) => {
+      const [refund] = await tx.select().from(paymentRefunds).where(eq(paymentRefunds.id, id));
+
+      if (!refund) {
+        return false;
+      }
+
+      // 锁定支付单后重新读取，同一支付单的其他退款在此排队，已被其他进程重试成功的记录跳过
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).for('update');
+      const [current] = await tx.select().from(paymentRefunds).where(eq(paymentRefunds.id, id));
+
+      if (!payment || current?.status !== 'pending') {
+        return false;
+      }
+
+      try {
+        await applyProviderRefund(tx, payment, current.amount, current.reason, null, current.id);
+        return true;
+      } catch (err) {
+        if (!(err instanceof PaymentProviderError)) {
+          throw err;
+        }
+
+        await tx
+          .update(paymentRefunds)
+          .set({ failureReason: err.message, updatedAt: new Date() })
+          .where(eq(paymentRefunds.id, current.id));
+        return false;
+      }
+    });
+
+    if (done) {
+      succeeded++;
+    }
+  }
+
+  return succeeded;
+};
+
+/**
+ * 启动后台定时任务，定期重试待退款记录
+ * 重试间隔通过环境变量 REFUND_RETRY_INTERVAL_SECONDS 配置（默认 300 秒），返回停止函数
+ */
+export const startRefundRetrySweeper = (db: DbInstance, log: FastifyBaseLogger): (() => void) => {
+  const seconds = Number(process.env.REFUND_RETRY_INTERVAL_SECONDS);
+  const interval = (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_REFUND_RETRY_INTERVAL_SECONDS) * 1000;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const retried = await retryPendingRefunds(db);
+      if (retried > 0) {
+        log.info(`已重试成功 ${retried} 笔退款`);
+      }
+    } catch (err) {
+      log.error(err);
+    } finally {
+      running = false;
+    }
+  }, interval);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
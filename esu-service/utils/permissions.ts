@@ -23,7 +23,7 @@ export interface PermissionErrorResult {
 
 export type PermissionResult = PermissionCheckResult | PermissionErrorResult;
 
-type HttpStatusCode = 400 | 401 | 403 | 404 | 500;
+type HttpStatusCode = 400 | 401 | 403 | 404 | 409 | 413 | 500;
 
 export const errorResponse = <const T extends HttpStatusCode>(
   status: T,
@@ -40,7 +40,14 @@ export const checkPermission = async (
   if (permissions === null) return { error: false, id: 0, role: 'customer' as Role };
 
   await request.jwtVerify();
-  const parsed = v.parse(JwtSchema, request.user);
+  const result = v.safeParse(JwtSchema, request.user);
+
+  // 签名有效但不是登录 token（如日历订阅 token）
+  if (!result.success) {
+    return { error: true, status: 401, message: '无效的登录凭证' };
+  }
+
+  const parsed = result.output;
   const perms = permissions as readonly Role[];
 
   if (!perms.includes(parsed.role)) {
@@ -0,0 +1,189 @@
+import * as v from 'valibot';
+
+import { PriceQuoteSchema, AppliedPromotionSchema, NightlyPriceSchema } from 'esu-types';
+import type { BookingPriceBreakdown, promotions } from '../schema.js';
+import type { DbInstance } from './types.js';
+import { listStayNights } from './inventory.js';
+
+export type PriceQuote = v.InferOutput<typeof PriceQuoteSchema>;
+export type AppliedPromotion = v.InferOutput<typeof AppliedPromotionSchema>;
+export type NightlyPrice = v.InferOutput<typeof NightlyPriceSchema>;
+
+export type PricingPromotion = {
+  id: number;
+  hotelId: number | null;
+  roomTypeId: number | null;
+  type: 'direct' | 'percentage' | 'spend_and_save';
+  value: number;
+  startDate: string;
+  endDate: string;
+  description: string | null;
+};
+
+type Promotion = typeof promotions.$inferSelect;
+
+export type PricingRoomType = {
+  id: number;
+  hotelId: number;
+  price: number;
+};
+
+/** 金额保留两位小数 */
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+/**
+ * 判断优惠在某晚是否适用于指定房型
+ * hotelId / roomTypeId 为空表示不限酒店 / 房型
+ */
+const promotionApplies = (promo: PricingPromotion, rt: PricingRoomType, date: string): boolean => {
+  if (promo.startDate > date || promo.endDate < date) return false;
+  if (promo.hotelId !== null && promo.hotelId !== rt.hotelId) return false;
+  if (promo.roomTypeId !== null && promo.roomTypeId !== rt.id) return false;
+  return true;
+};
+
+const applyPromotion = (price: number, promo: PricingPromotion): number => {
+  switch (promo.type) {
+    case 'percentage':
+      return price * promo.value;
+    case 'direct':
+    case 'spend_and_save':
+      return price - promo.value;
+    default:
+      return price;
+  }
+};
+
+/**
+ * 计算房型某一晚的价格，按优惠 ID 顺序叠加所有适用优惠
+ */
+export const priceNight = (rt: PricingRoomType, date: string, promos: PricingPromotion[]): NightlyPrice => {
+  const basePrice = Number(rt.price);
+  let price = basePrice;
+  const applied: AppliedPromotion[] = [];
+
+  for (const promo of promos) {
+    if (!promotionApplies(promo, rt, date)) continue;
+
+    const next = Math.max(0, applyPromotion(price, promo));
+    applied.push({
+      promotionId: promo.id,
+      type: promo.type,
+      value: promo.value,
+      description: promo.description,
+      discount: roundPrice(price - next),
+    });
+    price = next;
+  }
+
+  return { date, basePrice, price: roundPrice(price), promotions: applied };
+};
+
+/**
+ * 批量加载在 [startDate, endDate] 内有效、且可能适用于这些酒店的优惠（含不限酒店的通用优惠）
+ * 返回完整的优惠记录，酒店列表和详情直接用作响应中的 promotions
+ */
+export const loadPromotions = async (
+  db: DbInstance,
+  hotelIds: number[],
+  startDate: string,
+  endDate: string,
+): Promise<Promotion[]> =>
+  db.query.promotions.findMany({
+    where: {
+      deletedAt: { isNull: true },
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+      OR: [{ hotelId: { isNull: true } }, { hotelId: { in: hotelIds } }],
+    },
+    orderBy: { id: 'asc' },
+  });
+
+/**
+ * 加载在 [startDate, endDate] 内有效、且可能适用于该酒店的优惠
+ */
+export const loadHotelPromotions = (
+  db: DbInstance,
+  hotelId: number,
+  startDate: string,
+  endDate: string,
+): Promise<Promotion[]> => loadPromotions(db, [hotelId], startDate, endDate);
+
+/**
+ * 取出报价的价格明细，与总价一起写入预订，收据按此展示下单时的实际计价
+ */
+export const snapshotPriceBreakdown = (quote: PriceQuote): BookingPriceBreakdown => ({
+  nights: quote.nights,
+  promotions: quote.promotions,
+  basePrice: quote.basePrice,
+  discount: quote.discount,
+});
+
+/** 今天的日期（YYYY-MM-DD） */
+export const todayDate = (): string => new Date().toISOString().split('T')[0] ?? '';
+
+/**
+ * 为房型列表附加指定日期（默认今天）的优惠后价格 discountedPrice
+ * 酒店列表和酒店详情使用，promos 应由 loadPromotions / loadHotelPromotions 预先加载
+ */
+export const withDiscountedPrice = <T extends PricingRoomType>(
+  roomTypeList: T[],
+  promos: PricingPromotion[],
+  date: string = todayDate(),
+): Array<T & { discountedPrice: number }> => {
+  return roomTypeList.map((rt) => ({
+    ...rt,
+    discountedPrice: priceNight(rt, date, promos).price,
+  }));
+};
+
+/**
+ * 计算入住区间 [checkIn, checkOut) 预订 quantity 间房的报价：逐晚单间价格、各优惠的减免合计和总价
+ * 预订创建与报价接口共用此函数，保证展示价与实付价一致
+ */
+export const quoteStay = async (
+  db: DbInstance,
+  rt: PricingRoomType,
+  checkIn: string,
+  checkOut: string,
+  quantity: number = 1,
+): Promise<PriceQuote> => {
+  const dates = listStayNights(checkIn, checkOut);
+  const promos = dates.length ? await loadHotelPromotions(db, rt.hotelId, checkIn, dates[dates.length - 1]!) : [];
+  const nights = dates.map((date) => priceNight(rt, date, promos));
+
+  const promotionTotals = new Map<number, AppliedPromotion>();
+  for (const night of nights) {
+    for (const applied of night.promotions) {
+      const total = promotionTotals.get(applied.promotionId);
+      promotionTotals.set(applied.promotionId, {
+        ...applied,
+        discount: roundPrice((total?.discount ?? 0) + applied.discount * quantity),
+      });
+    }
+  }
+
+  const appliedPromotions = [...promotionTotals.values()];
+  const basePrice = roundPrice(nights.reduce((sum, n) => sum + n.basePrice, 0) * quantity);
+  const totalPrice = roundPrice(nights.reduce((sum, n) => sum + n.price, 0) * quantity);
+
+  // 记录减免最多的优惠作为预订关联的优惠
+  const mainPromotion = appliedPromotions.reduce<AppliedPromotion | undefined>(
+    (best, p) => (!best || p.discount > best.discount ? p : best),
+    undefined,
+  );
+
+  return {
+    hotelId: rt.hotelId,
+    roomTypeId: rt.id,
+    checkIn,
+    checkOut,
+    quantity,
+    nights,
+    promotions: appliedPromotions,
+    basePrice,
+    discount: roundPrice(basePrice - totalPrice),
+    totalPrice,
+    promotionId: mainPromotion?.promotionId ?? null,
+  };
+};
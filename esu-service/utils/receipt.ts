@@ -0,0 +1,162 @@
+import { BOOKING_STATUS_LABELS } from './booking.js';
+import type { BookingStatus } from './booking.js';
+import type { AppliedPromotion, NightlyPrice } from './pricing.js';
+
+const DEFAULT_TAX_RATE = 0.06;
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  unpaid: '未支付',
+  paid: '已支付',
+  partially_refunded: '部分退款',
+  refunded: '全额退款',
+};
+
+export type ReceiptData = {
+  booking: {
+    id: number;
+    status: BookingStatus;
+    paymentStatus: string;
+    checkIn: string;
+    checkOut: string;
+    quantity: number;
+    adults: number;
+    children: number;
+    guestName: string | null;
+    guestPhone: string | null;
+    totalPrice: number;
+    refundAmount: number | null;
+    createdAt: Date;
+  };
+  hotel: { nameZh: string; nameEn: string | null; address: string; starRating: number | null };
+  roomType: { name: string };
+  nights: NightlyPrice[];
+  promotions: AppliedPromotion[];
+  basePrice: number;
+  discount: number;
+  paidAmount: number;
+  refundedAmount: number;
+  issuedAt: Date;
+};
+
+/**
+ * 收据中房价包含的增值税税率，通过环境变量 RECEIPT_TAX_RATE 配置（如 0.06 表示 6%）
+ */
+export const getReceiptTaxRate = (): number => {
+  const rate = Number(process.env.RECEIPT_TAX_RATE);
+  return Number.isFinite(rate) && rate >= 0 && rate < 1 ? rate : DEFAULT_TAX_RATE;
+};
+
+/** 按含税价计算其中包含的税额 */
+export const calculateIncludedTax = (amount: number, rate: number = getReceiptTaxRate()): number =>
+  Math.round((amount - amount / (1 + rate)) * 100) / 100;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatMoney = (amount: number): string => `¥${Number(amount).toFixed(2)}`;
+
+const formatDateTime = (date: Date): string => date.toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * 渲染预订收据的可打印 HTML 文档
+ * 房价均为含税价，税额按 getReceiptTaxRate 从应付总价中拆分
+ */
+export const renderReceiptHtml = (data: ReceiptData): string => {
+  const { booking, hotel, roomType } = data;
+  const taxRate = getReceiptTaxRate();
+  const tax = calculateIncludedTax(booking.totalPrice, taxRate);
+
+  const nightRows = data.nights
+    .map(
+      (night) => `
+        <tr>
+          <td>${escapeHtml(night.date)}</td>
+          <td class="amount">${formatMoney(night.basePrice)}</td>
+          <td class="amount">${formatMoney(night.price)}</td>
+          <td class="amount">${booking.quantity}</td>
+          <td class="amount">${formatMoney(night.price * booking.quantity)}</td>
+        </tr>`,
+    )
+    .join('');
+
+  const promotionRows = data.promotions
+    .map(
+      (promo) => `
+        <tr>
+          <td>${escapeHtml(promo.description ?? '优惠')}</td>
+          <td class="amount">-${formatMoney(promo.discount)}</td>
+        </tr>`,
+    )
+    .join('');
+
+  const refundRow =
+    booking.status === 'cancelled' && booking.refundAmount !== null
+      ? `<tr><td>取消应退金额</td><td class="amount">${formatMoney(booking.refundAmount)}</td></tr>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <title>预订收据 #${booking.id}</title>
+  <style>
+    body { font-family: "PingFang SC", "Microsoft YaHei", sans-serif; color: #333; max-width: 720px; margin: 24px auto; padding: 0 16px; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    h2 { font-size: 16px; margin-top: 24px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+    .muted { color: #888; font-size: 13px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { padding: 6px 4px; text-align: left; border-bottom: 1px solid #f0f0f0; }
+    .amount { text-align: right; }
+    .total td { font-weight: bold; font-size: 16px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(hotel.nameZh)}</h1>
+  ${hotel.nameEn ? `<div class="muted">${escapeHtml(hotel.nameEn)}</div>` : ''}
+  <div class="muted">${escapeHtml(hotel.address)}${hotel.starRating ? ` · ${hotel.starRating}星级` : ''}</div>
+
+  <h2>预订信息</h2>
+  <table>
+    <tr><td>预订号</td><td class="amount">#${booking.id}</td></tr>
+    <tr><td>预订状态</td><td class="amount">${BOOKING_STATUS_LABELS[booking.status]}</td></tr>
+    <tr><td>入住人</td><td class="amount">${escapeHtml(booking.guestName ?? '-')}${booking.guestPhone ? ` ${escapeHtml(booking.guestPhone)}` : ''}</td></tr>
+    <tr><td>房型</td><td class="amount">${escapeHtml(roomType.name)} × ${booking.quantity}间</td></tr>
+    <tr><td>入住人数</td><td class="amount">成人${booking.adults}人${booking.children ? `，儿童${booking.children}人` : ''}</td></tr>
+    <tr><td>入住 / 离店</td><td class="amount">${escapeHtml(booking.checkIn)} ~ ${escapeHtml(booking.checkOut)}（${data.nights.length}晚）</td></tr>
+    <tr><td>下单时间</td><td class="amount">${formatDateTime(booking.createdAt)}</td></tr>
+  </table>
+
+  <h2>逐晚房费</h2>
+  <table>
+    <tr><th>日期</th><th class="amount">原价</th><th class="amount">优惠后</th><th class="amount">间数</th><th class="amount">小计</th></tr>
+    ${nightRows}
+  </table>
+
+  <h2>费用明细</h2>
+  <table>
+    <tr><td>原价合计</td><td class="amount">${formatMoney(data.basePrice)}</td></tr>
+    ${promotionRows}
+    <tr><td>优惠减免合计</td><td class="amount">-${formatMoney(data.discount)}</td></tr>
+    <tr class="total"><td>应付总价</td><td class="amount">${formatMoney(booking.totalPrice)}</td></tr>
+    <tr><td>其中增值税（${Math.round(taxRate * 10000) / 100}%）</td><td class="amount">${formatMoney(tax)}</td></tr>
+  </table>
+
+  <h2>支付信息</h2>
+  <table>
+    <tr><td>支付状态</td><td class="amount">${PAYMENT_STATUS_LABELS[booking.paymentStatus] ?? escapeHtml(booking.paymentStatus)}</td></tr>
+    <tr><td>已支付</td><td class="amount">${formatMoney(data.paidAmount)}</td></tr>
+    <tr><td>已退款</td><td class="amount">${formatMoney(data.refundedAmount)}</td></tr>
+    ${refundRow}
+  </table>
+
+  <p class="muted">开具时间：${formatDateTime(data.issuedAt)}。房价均为含税价。</p>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,98 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * 文件存储接口
+ * 上传模块只通过此接口保存文件，接入对象存储等新后端时实现此接口并调用 registerStorageBackend
+ */
+export interface StorageBackend {
+  /** 存储后端名称 */
+  readonly name: string;
+
+  /**
+   * 保存文件，key 为以 / 分隔的相对路径（如 images/xxx.jpg），同名文件会被覆盖
+   * 返回文件的访问地址，可以是完整 URL，也可以是以 / 开头的站内路径（由路由补全为完整 URL）
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<{ url: string }>;
+
+  /** 删除文件，文件不存在时不报错 */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * 文件存储失败错误
+ */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/** 本地存储默认的访问路径前缀，main.ts 以此前缀提供静态文件 */
+export const LOCAL_STORAGE_URL_PREFIX = '/uploads/';
+
+/** 本地存储目录，环境变量 UPLOAD_DIR 指定（未配置时为工作目录下的 uploads） */
+export const getLocalStorageRoot = (): string => path.resolve(process.env.UPLOAD_DIR ?? 'uploads');
+
+/**
+ * 本地磁盘存储，文件保存在 root 目录下，通过 publicBaseUrl + key 访问
+ */
+export const createLocalStorage = ({
+  root,
+  publicBaseUrl = LOCAL_STORAGE_URL_PREFIX,
+}: {
+  root: string;
+  publicBaseUrl?: string;
+}): StorageBackend => {
+  /** key 解析为 root 下的绝对路径，拒绝跳出 root 的 key */
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new StorageError(`无效的文件路径：${key}`);
+    }
+
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+      return { url: `${publicBaseUrl.replace(/\/$/, '')}/${key}` };
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+const backends = new Map<string, StorageBackend>();
+
+/** 注册存储后端，同名后端会被替换 */
+export const registerStorageBackend = (backend: StorageBackend): void => {
+  backends.set(backend.name, backend);
+};
+
+/**
+ * 获取存储后端，默认使用环境变量 STORAGE_BACKEND 指定的后端（未配置时为 local）
+ * local 后端未注册时按当前 UPLOAD_DIR 创建
+ */
+export const getStorageBackend = (name: string = process.env.STORAGE_BACKEND ?? 'local'): StorageBackend => {
+  if (name === 'local' && !backends.has(name)) {
+    registerStorageBackend(createLocalStorage({ root: getLocalStorageRoot() }));
+  }
+
+  const backend = backends.get(name);
+
+  if (!backend) {
+    throw new StorageError(`未注册的存储后端：${name}`);
+  }
+
+  return backend;
+};
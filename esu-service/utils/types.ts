@@ -1 +1 @@
-export type { DbInstance } from '../schema.js';
+export type { DbInstance, DbTransaction } from '../schema.js';
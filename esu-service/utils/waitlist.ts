@@ -0,0 +1,190 @@
+import { and, eq, lt } from 'drizzle-orm';
+import type { FastifyBaseLogger } from 'fastify';
+
+import { waitlistStatus } from 'esu-types';
+import { bookings, waitlistEntries } from '../schema.js';
+import type { DbInstance, DbTransaction } from './types.js';
+import { hasAvailableStock, InsufficientStockError, lockRoomTypes, reserveInventory } from './inventory.js';
+import { quoteStay, snapshotPriceBreakdown, todayDate } from './pricing.js';
+import type { PriceQuote } from './pricing.js';
+import { snapshotCancellationPolicy } from './cancellation.js';
+import type { CancellationPolicy } from './cancellation.js';
+import { recordBookingEvent } from './booking.js';
+import { sendNotification } from './notification.js';
+
+export type WaitlistStatus = (typeof waitlistStatus)[number];
+
+const DEFAULT_WAITLIST_HOLD_MINUTES = 30;
+
+/**
+ * 为候补用户保留房间的时长（分钟），通过环境变量 WAITLIST_HOLD_MINUTES 配置
+ * 保留期内未支付或未被商户确认的预订由过期清理任务自动取消，房间继续释放给下一位候补用户
+ */
+export const getWaitlistHoldMinutes = (): number => {
+  const minutes = Number(process.env.WAITLIST_HOLD_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_WAITLIST_HOLD_MINUTES;
+};
+
+type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+/**
+ * 在事务中为一条候补生成限时保留的待确认预订并通知用户
+ * 先锁房型行再锁候补行，与预订、修改的加锁顺序一致；候补行锁防止与用户取消候补并发
+ * 库存不足时抛出 InsufficientStockError
+ */
+const offerHold = async (
+  tx: DbTransaction,
+  entry: WaitlistEntry,
+  rt: { id: number; hotelId: number; name: string } & CancellationPolicy,
+  hotelName: string,
+  quote: PriceQuote,
+  guest: { username: string; phone: string | null } | undefined,
+  now: Date,
+) => {
+  await lockRoomTypes(tx, [entry.roomTypeId]);
+
+  const [locked] = await tx
+    .select({ status: waitlistEntries.status })
+    .from(waitlistEntries)
+    .where(eq(waitlistEntries.id, entry.id))
+    .for('update');
+
+  if (locked?.status !== 'waiting') {
+    return undefined;
+  }
+
+  await reserveInventory(tx, entry.roomTypeId, entry.checkIn, entry.checkOut, entry.quantity);
+
+  const holdMinutes = getWaitlistHoldMinutes();
+  const [booking] = await tx
+    .insert(bookings)
+    .values({
+      userId: entry.userId,
+      hotelId: entry.hotelId,
+      roomTypeId: entry.roomTypeId,
+      checkIn: entry.checkIn,
+      checkOut: entry.checkOut,
+      quantity: entry.quantity,
+      adults: entry.adults,
+      children: entry.children,
+      guestName: guest?.username ?? null,
+      guestPhone: guest?.phone ?? null,
+      totalPrice: quote.totalPrice,
+      promotionId: quote.promotionId,
+      priceBreakdown: snapshotPriceBreakdown(quote),
+      ...snapshotCancellationPolicy(rt),
+      status: 'pending',
+      expiresAt: new Date(now.getTime() + holdMinutes * 60 * 1000),
+    })
+    .returning();
+
+  if (!booking) {
+    throw new Error('创建候补保留预订失败');
+  }
+
+  await recordBookingEvent(tx, {
+    bookingId: booking.id,
+    type: 'created',
+    actor: null,
+    toStatus: 'pending',
+    note: `候补释放库存，保留${holdMinutes}分钟`,
+  });
+
+  const [offered] = await tx
+    .update(waitlistEntries)
+    .set({ status: 'offered', bookingId: booking.id, offeredAt: now, updatedAt: now })
+    .where(eq(waitlistEntries.id, entry.id))
+    .returning();
+
+  await sendNotification(tx, {
+    userId: entry.userId,
+    type: 'waitlist_offered',
+    title: '候补成功，已为您保留房间',
+    content: `${hotelName} ${rt.name}（${entry.checkIn} ~ ${entry.checkOut}）已为您保留，请在${holdMinutes}分钟内完成支付，逾期将自动取消`,
+    bookingId: booking.id,
+  });
+
+  return offered;
+};
+
+/**
+ * 房型释放库存后（取消、未到店、预订过期、增加库存），按加入顺序为候补用户保留房间
+ *
+ * 入住日已过的候补标记为过期；排在前面的候补所需房间不足时，继续尝试后面入住区间或房间数不同的候补。
+ * 返回本次生成保留预订的候补
+ */
+export const offerWaitlistHolds = async (
+  db: DbInstance,
+  roomTypeIds: number[],
+  now: Date = new Date(),
+): Promise<WaitlistEntry[]> => {
+  const offered: WaitlistEntry[] = [];
+
+  for (const roomTypeId of new Set(roomTypeIds)) {
+    await db
+      .update(waitlistEntries)
+      .set({ status: 'expired', updatedAt: now })
+      .where(
+        and(
+          eq(waitlistEntries.roomTypeId, roomTypeId),
+          eq(waitlistEntries.status, 'waiting'),
+          lt(waitlistEntries.checkIn, todayDate()),
+        ),
+      );
+
+    const rt = await db.query.roomTypes.findFirst({
+      where: { id: { eq: roomTypeId }, deletedAt: { isNull: true } },
+      with: { hotel: { columns: { nameZh: true, status: true } } },
+    });
+
+    if (!rt || rt.hotel?.status !== 'approved') {
+      continue;
+    }
+
+    const waiting = await db.query.waitlistEntries.findMany({
+      where: { roomTypeId: { eq: roomTypeId }, status: { eq: 'waiting' } },
+      with: { user: { columns: { username: true, phone: true } } },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const { user, ...entry } of waiting) {
+      if (!(await hasAvailableStock(db, roomTypeId, entry.checkIn, entry.checkOut, entry.quantity))) {
+        continue;
+      }
+
+      const quote = await quoteStay(db, rt, entry.checkIn, entry.checkOut, entry.quantity);
+
+      try {
+        const result = await db.transaction((tx: DbTransaction) =>
+          offerHold(tx, entry, rt, rt.hotel!.nameZh, quote, user ?? undefined, now),
+        );
+
+        if (result) {
+          offered.push(result);
+        }
+      } catch (err) {
+        if (!(err instanceof InsufficientStockError)) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  return offered;
+};
+
+/**
+ * 在主操作（取消、未到店、修改预订、增加库存）提交后为候补用户保留房间
+ * 主操作已生效，候补保留失败只记录日志，不影响响应；剩余房间在下次释放库存时会再次尝试保留
+ */
+export const offerWaitlistHoldsAfterCommit = async (
+  db: DbInstance,
+  roomTypeIds: number[],
+  log: FastifyBaseLogger,
+): Promise<void> => {
+  try {
+    await offerWaitlistHolds(db, roomTypeIds);
+  } catch (err) {
+    log.error(err, '为候补用户保留房间失败');
+  }
+};
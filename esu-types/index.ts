@@ -17,12 +17,36 @@
 
 export const hotelStatus = ['pending', 'approved', 'rejected', 'offline'] as const;
 
-export const bookingStatus = ['pending', 'confirmed', 'cancelled', 'completed'] as const;
+export const bookingStatus = ['pending', 'confirmed', 'cancelled', 'completed', 'checked_in', 'no_show'] as const;
 
 export const promotionType = ['direct', 'percentage', 'spend_and_save'] as const;
 
+// 预订事件类型：创建 / 状态变更 / 修改日期或房型 / 删除 / 支付成功 / 退款
+export const bookingEventType = ['created', 'status_changed', 'modified', 'deleted', 'payment_captured', 'payment_refunded'] as const;
+
 export const roleType = ['customer', 'merchant', 'admin'] as const;
 
+// 取消政策：free_until 入住前N天免费取消 / penalty 按比例收取违约金 / non_refundable 不可退款
+export const cancellationPolicyType = ['free_until', 'penalty', 'non_refundable'] as const;
+
+// 支付单状态：待支付 / 已支付 / 支付失败 / 部分退款 / 全额退款
+export const paymentStatus = ['requires_payment', 'succeeded', 'failed', 'partially_refunded', 'refunded'] as const;
+
+// 退款记录状态：已退款 / 渠道退款失败待重试
+export const refundStatus = ['succeeded', 'pending'] as const;
+
+// 预订的支付状态：未支付 / 已支付 / 部分退款 / 全额退款
+export const bookingPaymentStatus = ['unpaid', 'paid', 'partially_refunded', 'refunded'] as const;
+
+// 候补状态：排队中 / 已保留房间 / 已过期 / 已取消
+export const waitlistStatus = ['waiting', 'offered', 'expired', 'cancelled'] as const;
+
+// 酒店修改稿状态：待审核 / 已通过（已发布到线上） / 已驳回
+export const hotelRevisionStatus = ['pending', 'approved', 'rejected'] as const;
+
+// 酒店审核操作：审核通过 / 驳回 / 下线 / 恢复上线 / 删除
+export const hotelModerationAction = ['approve', 'reject', 'offline', 'online', 'delete'] as const;
+
 // 2. 类型定义 (Valibot schemas)
 // 导入Valibot（假设环境已安装）
 import * as v from 'valibot';
@@ -44,6 +68,7 @@ export const CommonResponseErrors = {
   401: StatusError(401),
   403: StatusError(403),
   404: StatusError(404),
+  409: StatusError(409),
   500: StatusError(500),
 };
 
@@ -90,6 +115,8 @@ export const HotelSchema = v.object({
   nameEn: v.nullable(v.string()), // 英文名，可选
   ownerId: v.pipe(v.number(), v.integer(), v.minValue(1, 'ID不能为空')), // 所属商户ID
   address: v.pipe(v.string(), v.minLength(1)), // 地址
+  cityId: v.nullish(v.pipe(v.number(), v.integer(), v.minValue(1))), // 所在城市ID
+  districtId: v.nullish(v.pipe(v.number(), v.integer(), v.minValue(1))), // 所在区县ID，须属于所在城市
   latitude: v.nullable(v.pipe(v.number(), v.minValue(-90), v.maxValue(90))), // 纬度
   longitude: v.nullable(v.pipe(v.number(), v.minValue(-180), v.maxValue(180))), // 经度
   starRating: v.pipe(v.number(), v.integer(), v.minValue(1, '星级至少1'), v.maxValue(5, '星级最多5')), // 星级
@@ -121,6 +148,7 @@ export const HotelFilterRulesSchema = v.object({
 
 export const HotelListRequestSchema = v.object({
   keyword: v.optional(v.string()),
+  city: v.optional(v.pipe(v.string(), v.trim(), v.minLength(1))), // 城市名称，如：北京（"北京市"同样匹配）
   // 旧版参数（向后兼容）
   checkIn: v.optional(v.pipe(v.string(), v.isoDate())),
   checkOut: v.optional(v.pipe(v.string(), v.isoDate())),
@@ -138,6 +166,7 @@ export const HotelListRequestSchema = v.object({
   rules: v.optional(HotelFilterRulesSchema),
   page: v.optional(v.pipe(v.string(), v.toNumber(), v.integer(), v.minValue(1))),
   limit: v.optional(v.pipe(v.string(), v.toNumber(), v.integer(), v.minValue(1))),
+  cursor: v.optional(v.pipe(v.string(), v.minLength(1))), // 上一页返回的 nextCursor，传入时忽略 page（无限滚动）
 });
 
 export const HotelAdminListRequestSchema = v.object({
@@ -155,12 +184,90 @@ export const RoomTypeSchema = v.object({
   stock: v.pipe(v.number(), v.integer(), v.minValue(0, '库存不能为负')),
   capacity: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))),
   description: v.nullable(v.string()),
+  cancellationPolicy: v.picklist(cancellationPolicyType, '无效取消政策'),
+  freeCancelDays: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(0))), // free_until：入住日前N天（含）之前取消全额退款
+  cancelPenaltyRate: v.nullable(v.pipe(v.number(), v.minValue(0), v.maxValue(1))), // penalty：违约金占总价的比例，如0.2表示扣除20%
   ...vTimestamps()
 });
 
+// 房型创建 Schema（取消政策默认入住当天前免费取消）
+export const RoomTypeCreateSchema = v.object({
+  ...v.omit(RoomTypeSchema, ['id', 'createdAt', 'updatedAt', 'deletedAt', 'cancellationPolicy', 'freeCancelDays', 'cancelPenaltyRate']).entries,
+  cancellationPolicy: v.optional(RoomTypeSchema.entries.cancellationPolicy, 'free_until'),
+  freeCancelDays: v.optional(RoomTypeSchema.entries.freeCancelDays),
+  cancelPenaltyRate: v.optional(RoomTypeSchema.entries.cancelPenaltyRate),
+});
+
 // 房型创建/更新 Partial
 export const PartialRoomTypeSchema = v.partial(RoomTypeSchema);
 
+// 酒店修改稿中保存的可编辑字段
+export const hotelRevisionFields = ['nameZh', 'nameEn', 'address', 'cityId', 'districtId', 'latitude', 'longitude', 'starRating', 'openingDate', 'nearbyAttractions', 'images', 'facilities', 'tags'] as const;
+
+export const HotelRevisionDataSchema = v.pick(HotelSchema, [...hotelRevisionFields]);
+
+// 修改稿中的房型快照（房型修改即时生效，审核通过时记录当时的房型，用于与后续修改对比）
+export const HotelRevisionRoomTypeSchema = v.pick(RoomTypeSchema, ['id', 'name', 'price', 'stock', 'capacity', 'description']);
+
+// 酒店修改稿 Schema（已上线酒店的商户修改先保存为待审核修改稿，审核通过后才发布到线上）
+export const HotelRevisionSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  hotelId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  authorId: v.pipe(v.number(), v.integer(), v.minValue(1)), // 提交人
+  status: v.picklist(hotelRevisionStatus, '无效修改稿状态'),
+  data: HotelRevisionDataSchema, // 修改后的完整酒店信息（商户未修改的字段取当前线上版本）
+  roomTypes: v.nullable(v.array(HotelRevisionRoomTypeSchema)), // 审核通过时的房型快照
+  reviewerId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 审核人
+  reviewedAt: v.nullable(v.date('无效日期')),
+  reviewNote: v.nullable(v.string()), // 驳回原因
+  ...vTimestamps()
+});
+
+// 酒店审核记录 Schema
+export const HotelModerationLogSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  hotelId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  actorId: v.pipe(v.number(), v.integer(), v.minValue(1)), // 操作的管理员
+  action: v.picklist(hotelModerationAction, '无效审核操作'),
+  reason: v.nullable(v.string()), // 驳回、下线等操作的原因
+  fromStatus: v.nullable(v.picklist(hotelStatus)),
+  toStatus: v.nullable(v.picklist(hotelStatus)),
+  revisionId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 审核的修改稿
+  ...vTimestamps()
+});
+
+// 酒店审核记录响应 Schema（按时间先后排列，附带操作人用户名）
+export const HotelModerationLogResponseSchema = v.array(v.intersect([
+  HotelModerationLogSchema,
+  v.object({
+    actor: v.nullable(v.object({
+      id: v.number(),
+      username: v.string(),
+    })),
+  }),
+]));
+
+// 下线/恢复上线请求 Schema
+export const HotelModerationReasonSchema = v.object({
+  reason: v.optional(v.string()), // 操作原因，记录到审核记录中
+});
+
+// 用于审核对比的酒店版本
+export const HotelVersionSchema = v.object({
+  revisionId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 对应的修改稿，待审核的新酒店本身为 null
+  data: HotelRevisionDataSchema,
+  roomTypes: v.array(HotelRevisionRoomTypeSchema),
+  updatedAt: v.date(), // 提交或审核通过的时间
+});
+
+// 审核对比响应 Schema：待审核版本与上一次审核通过的版本
+export const HotelRevisionCompareSchema = v.object({
+  submitted: v.nullable(HotelVersionSchema), // 待审核的修改稿，或待审核的酒店本身；没有待审核内容时为 null
+  approved: v.nullable(HotelVersionSchema), // 上一次审核通过的版本，从未通过审核时为 null
+  changedFields: v.array(v.picklist([...hotelRevisionFields, 'roomTypes'])), // 两个版本间有差异的字段
+});
+
+
 // 优惠Schema（基于原始Room Schema修正，添加type/value）
 export const PromotionSchema = v.object({
   id: v.pipe(v.number(), v.integer(), v.minValue(1)),
@@ -186,14 +293,77 @@ export const BookingSchema = v.object({
   roomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
   checkIn: v.pipe(v.string(), v.isoDate()),
   checkOut: v.pipe(v.string(), v.isoDate()),
+  quantity: v.pipe(v.number(), v.integer(), v.minValue(1, '房间数至少为1')),
+  adults: v.pipe(v.number(), v.integer(), v.minValue(1, '成人数至少为1')),
+  children: v.pipe(v.number(), v.integer(), v.minValue(0, '儿童数不能为负')),
+  guestName: v.nullable(v.pipe(v.string(), v.minLength(1, '入住人姓名不能为空'), v.maxLength(50, '入住人姓名最多50字符'))), // 主入住人姓名
+  guestPhone: v.nullable(v.pipe(v.string(), v.minLength(6, '手机号至少6位'), v.maxLength(20, '手机号最多20位'))), // 主入住人联系电话
+  arrivalTime: v.nullable(v.pipe(v.string(), v.regex(/^([01]\d|2[0-3]):[0-5]\d$/, '到店时间格式应为HH:mm'))), // 预计到店时间
+  specialRequests: v.nullable(v.pipe(v.string(), v.maxLength(500, '特殊要求最多500字符'))), // 特殊要求（如高楼层、无烟房）
   totalPrice: v.pipe(v.number(), v.minValue(0)),
   status: v.picklist(bookingStatus, '无效预订状态'),
   promotionId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))),
+  expiresAt: v.nullable(v.date('无效日期')), // 待确认预订的保留截止时间（用于倒计时）
+  refundAmount: v.nullable(v.pipe(v.number(), v.minValue(0))), // 取消时按取消政策计算的应退金额
+  paymentStatus: v.picklist(bookingPaymentStatus, '无效支付状态'),
   ...vTimestamps()
 });
 
 // 预订创建 Schema（无ID、时间、status默认pending，userId从token获取）
-export const BookingCreateSchema = v.omit(BookingSchema, ['id', 'createdAt', 'updatedAt', 'deletedAt', 'status', 'totalPrice', 'userId']); // totalPrice后端计算，userId从token获取
+export const BookingCreateSchema = v.object({
+  ...v.omit(BookingSchema, ['id', 'createdAt', 'updatedAt', 'deletedAt', 'status', 'totalPrice', 'userId', 'expiresAt', 'refundAmount', 'paymentStatus', 'quantity', 'adults', 'children', 'guestName', 'guestPhone', 'arrivalTime', 'specialRequests']).entries, // totalPrice、expiresAt、refundAmount后端计算，userId从token获取
+  quantity: v.optional(BookingSchema.entries.quantity, 1), // 房间数，默认1间
+  adults: v.optional(BookingSchema.entries.adults, 1), // 成人数，默认1人（不超过房型容纳人数 × 房间数）
+  children: v.optional(BookingSchema.entries.children, 0),
+  guestName: v.optional(BookingSchema.entries.guestName), // 不填时使用预订用户的用户名
+  guestPhone: v.optional(BookingSchema.entries.guestPhone), // 不填时使用预订用户的手机号
+  arrivalTime: v.optional(BookingSchema.entries.arrivalTime),
+  specialRequests: v.optional(BookingSchema.entries.specialRequests),
+});
+
+// 预订修改 Schema（新的入住区间，可选更换同酒店的房型）
+export const BookingModifySchema = v.object({
+  roomTypeId: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+  checkIn: v.pipe(v.string(), v.isoDate()),
+  checkOut: v.pipe(v.string(), v.isoDate()),
+});
+
+// 预订修改记录 Schema（记录修改前的预订信息）
+export const BookingModificationSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  bookingId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  userId: v.pipe(v.number(), v.integer(), v.minValue(1)), // 操作人
+  previousRoomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  previousCheckIn: v.pipe(v.string(), v.isoDate()),
+  previousCheckOut: v.pipe(v.string(), v.isoDate()),
+  previousTotalPrice: v.pipe(v.number(), v.minValue(0)),
+  previousPromotionId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))),
+  ...vTimestamps()
+});
+
+// 预订事件 Schema（预订历史时间线的一条记录）
+export const BookingEventSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  bookingId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  type: v.picklist(bookingEventType, '无效事件类型'),
+  actorId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 操作人，系统自动操作时为空
+  actorRole: v.nullable(v.picklist(roleType)),
+  fromStatus: v.nullable(v.picklist(bookingStatus)),
+  toStatus: v.nullable(v.picklist(bookingStatus)),
+  note: v.nullable(v.string()),
+  ...vTimestamps()
+});
+
+// 预订历史响应 Schema（按时间先后排列，附带操作人用户名）
+export const BookingHistoryResponseSchema = v.array(v.intersect([
+  BookingEventSchema,
+  v.object({
+    actor: v.nullable(v.object({
+      id: v.number(),
+      username: v.string(),
+    })),
+  }),
+]));
 
 export const BookingListRequestSchema = v.object({
   status: v.optional(v.picklist(bookingStatus)),
@@ -214,6 +384,106 @@ export const BookingAdminListRequestSchema = v.object({
   limit: v.optional(v.number()),
 });
 
+// 报价请求 Schema（房型 + 入住区间）
+export const PriceQuoteRequestSchema = v.object({
+  roomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  checkIn: v.pipe(v.string(), v.isoDate()),
+  checkOut: v.pipe(v.string(), v.isoDate()),
+  quantity: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1)), 1), // 房间数，默认1间
+});
+
+// 报价中已应用的优惠（discount 为减免金额）
+export const AppliedPromotionSchema = v.object({
+  promotionId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  type: v.picklist(promotionType, '无效优惠类型'),
+  value: v.number(),
+  description: v.nullable(v.string()),
+  discount: v.number(),
+});
+
+// 报价中每一晚的价格明细
+export const NightlyPriceSchema = v.object({
+  date: v.pipe(v.string(), v.isoDate()),
+  basePrice: v.number(), // 原价
+  price: v.number(), // 优惠后价格
+  promotions: v.array(AppliedPromotionSchema),
+});
+
+// 报价响应 Schema（预订创建时使用同一计算结果）
+export const PriceQuoteSchema = v.object({
+  hotelId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  roomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  checkIn: v.pipe(v.string(), v.isoDate()),
+  checkOut: v.pipe(v.string(), v.isoDate()),
+  quantity: v.pipe(v.number(), v.integer(), v.minValue(1)), // 房间数
+  nights: v.array(NightlyPriceSchema), // 单间每晚价格
+  promotions: v.array(AppliedPromotionSchema), // 按优惠汇总整个入住期间（所有房间）的减免
+  basePrice: v.number(), // 原价合计
+  discount: v.number(), // 减免合计
+  totalPrice: v.number(), // 应付总价
+  promotionId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 减免最多的优惠
+});
+
+// 支付单 Schema（一次支付意向，金额为创建时预订的总价）
+export const PaymentSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  bookingId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  userId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  provider: v.string(), // 支付渠道，如 mock
+  providerPaymentId: v.string(), // 支付渠道侧的支付单号
+  amount: v.pipe(v.number(), v.minValue(0)),
+  currency: v.string(),
+  status: v.picklist(paymentStatus, '无效支付状态'),
+  refundedAmount: v.pipe(v.number(), v.minValue(0)), // 已退款金额合计
+  failureReason: v.nullable(v.string()),
+  capturedAt: v.nullable(v.date('无效日期')),
+  ...vTimestamps()
+});
+
+// 退款记录 Schema
+export const PaymentRefundSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  paymentId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  providerRefundId: v.nullable(v.string()), // 渠道侧退款单号，待重试的退款为 null
+  amount: v.pipe(v.number(), v.minValue(0)),
+  reason: v.nullable(v.string()),
+  status: v.picklist(refundStatus, '无效退款状态'),
+  failureReason: v.nullable(v.string()), // 最近一次渠道退款失败的原因
+  ...vTimestamps()
+});
+
+// 支付单带退款记录 Schema
+export const PaymentWithRefundsSchema = v.intersect([
+  PaymentSchema,
+  v.object({
+    refunds: v.array(PaymentRefundSchema),
+  }),
+]);
+
+// 创建支付单请求 Schema
+export const PaymentIntentCreateSchema = v.object({
+  bookingId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+});
+
+// 创建支付单响应 Schema（clientSecret 交给客户端完成支付）
+export const PaymentIntentResponseSchema = v.intersect([
+  PaymentSchema,
+  v.object({
+    clientSecret: v.string(),
+  }),
+]);
+
+// 确认支付请求 Schema（paymentMethod 为支付渠道提供的支付凭证）
+export const PaymentCaptureSchema = v.object({
+  paymentMethod: v.optional(v.string()),
+});
+
+// 退款请求 Schema（不填金额时退还全部剩余金额）
+export const PaymentRefundCreateSchema = v.object({
+  amount: v.optional(v.pipe(v.number(), v.minValue(0.01, '退款金额必须大于0'))),
+  reason: v.optional(v.pipe(v.string(), v.maxLength(200))),
+});
+
 // 评分Schema（新增）
 export const RatingSchema = v.object({
   id: v.pipe(v.number(), v.integer(), v.minValue(1)),
@@ -242,6 +512,29 @@ export const CarouselItemSchema = v.object({
 // 轮播图响应 Schema
 export const CarouselResponseSchema = v.array(CarouselItemSchema);
 
+// 区县 Schema
+export const DistrictSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  cityId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  name: v.pipe(v.string(), v.minLength(1), v.maxLength(50)),
+});
+
+// 城市 Schema（含下属区县）
+export const CitySchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  name: v.pipe(v.string(), v.minLength(1), v.maxLength(50)),
+  districts: v.array(DistrictSchema),
+});
+
+// 城市创建 Schema（可同时创建区县）
+export const CityCreateSchema = v.object({
+  name: v.pipe(v.string(), v.trim(), v.minLength(1, '城市名称不能为空'), v.maxLength(50)),
+  districts: v.optional(v.array(v.pipe(v.string(), v.trim(), v.minLength(1, '区县名称不能为空'), v.maxLength(50)))),
+});
+
+// 区县创建 Schema
+export const DistrictCreateSchema = v.pick(CityCreateSchema, ['name']);
+
 // 房型带折扣价格 Schema
 export const RoomTypeWithDiscountSchema = v.intersect([
   RoomTypeSchema,
@@ -257,6 +550,7 @@ export const HotelWithRelationsSchema = v.intersect([
     roomTypes: v.optional(v.array(RoomTypeWithDiscountSchema)),
     promotions: v.optional(v.array(PromotionSchema)),
     distance: v.optional(v.number()), // 距离用户的公里数（仅位置搜索时返回）
+    hasPendingRevision: v.optional(v.boolean()), // 是否有待审核的修改稿（仅管理员列表返回）
   }),
 ]);
 
@@ -264,7 +558,43 @@ export const HotelWithRelationsSchema = v.intersect([
 export const HotelListResponseSchema = v.object({ 
   hotels: v.array(HotelWithRelationsSchema), 
   total: v.number(), 
-  page: v.number() 
+  page: v.number(),
+  nextCursor: v.optional(v.nullable(v.string())), // 下一页游标，没有下一页时为 null（仅用户端酒店列表返回）
+});
+
+// 酒店分面统计的价格区间（与用户端快捷价格标签一致），max 为 null 表示不设上限
+// 区间两端都包含，与 rules.price 筛选一致：统计数量即选中该区间后的酒店数
+export const hotelPriceBuckets = [
+  { min: 0, max: 100 },
+  { min: 100, max: 150 },
+  { min: 150, max: 200 },
+  { min: 200, max: 250 },
+  { min: 250, max: 300 },
+  { min: 300, max: 350 },
+  { min: 350, max: 400 },
+  { min: 400, max: null },
+] as const;
+
+// 分面选项数量 Schema
+export const HotelFacetCountSchema = v.object({
+  value: v.string(),
+  count: v.pipe(v.number(), v.integer(), v.minValue(0)),
+});
+
+// 酒店搜索分面统计响应 Schema
+export const HotelFacetsSchema = v.object({
+  total: v.pipe(v.number(), v.integer(), v.minValue(0)), // 符合全部筛选条件的酒店数
+  starRating: v.array(v.object({
+    value: v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(5)),
+    count: v.pipe(v.number(), v.integer(), v.minValue(0)),
+  })),
+  facilities: v.array(HotelFacetCountSchema), // 按数量降序
+  tags: v.array(HotelFacetCountSchema), // 按数量降序
+  price: v.array(v.object({
+    min: v.number(),
+    max: v.nullable(v.number()),
+    count: v.pipe(v.number(), v.integer(), v.minValue(0)),
+  })),
 });
 
 // 酒店详情响应 Schema（包含 owner 信息）
@@ -352,6 +682,16 @@ export const hotelsContract = c.router({
     summary: '用户端酒店列表（支持筛选、上滑加载，价格考虑优惠实时计算）',
     metadata: { permission: null },
   },
+  facets: {
+    method: 'GET',
+    path: '/hotels/facets',
+    query: HotelListRequestSchema, // 与酒店列表相同的筛选参数，忽略分页和排序
+    responses: {
+      200: HotelFacetsSchema,
+    },
+    summary: '酒店搜索分面统计（按星级、设施、标签、价格区间统计酒店数，每个分面不受自身已选条件影响）',
+    metadata: { permission: null },
+  },
   get: {
     method: 'GET',
     path: '/hotels/:id',
@@ -368,11 +708,32 @@ export const hotelsContract = c.router({
     pathParams: v.object({ id: ParamIdSchema }),
     body: PartialHotelSchema, // Request body: 部分更新
     responses: {
-      200: HotelSchema,
+      200: HotelSchema, // 直接修改（管理员，或商户修改未上线的酒店）
+      202: HotelRevisionSchema, // 商户修改已上线酒店：保存为待审核修改稿，线上版本保持不变
+    },
+    summary: '编辑酒店（商户仅自己的，已上线酒店的修改进入修改稿待审核，admin直接修改）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
+  draft: {
+    method: 'GET',
+    path: '/hotels/:id/draft',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: HotelRevisionSchema,
     },
-    summary: '编辑酒店（商户仅自己的，pending/rejected可编，admin无限）',
+    summary: '查看酒店待审核的修改稿',
     metadata: { permission: ['merchant', 'admin'] },
   },
+  compareRevision: {
+    method: 'GET',
+    path: '/hotels/:id/revisions/compare',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: HotelRevisionCompareSchema,
+    },
+    summary: '审核对比：待审核版本与上一次审核通过的版本（含房型）',
+    metadata: { permission: ['admin'] },
+  },
   approve: {
     method: 'POST',
     path: '/hotels/:id/approve',
@@ -381,7 +742,7 @@ export const hotelsContract = c.router({
     responses: {
       200: HotelSchema,
     },
-    summary: '管理员审核通过（status → approved）',
+    summary: '管理员审核通过（status → approved；有待审核修改稿时将商户修改的字段发布到线上，与线上版本冲突时返回 409）',
     metadata: { permission: ['admin'] },
   },
   reject: {
@@ -392,13 +753,13 @@ export const hotelsContract = c.router({
     responses: {
       200: HotelSchema,
     },
-    summary: '管理员审核不通过',
+    summary: '管理员审核不通过（有待审核修改稿时仅驳回修改稿，线上版本保持不变）',
     metadata: { permission: ['admin'] },
   },
   offline: {
     method: 'PUT',
     path: '/hotels/:id/offline',
-    body: v.any(),
+    body: HotelModerationReasonSchema,
     pathParams: v.object({ id: ParamIdSchema }),
     responses: {
       200: HotelSchema,
@@ -409,7 +770,7 @@ export const hotelsContract = c.router({
   online: {
     method: 'PUT',
     path: '/hotels/:id/online',
-    body: v.any(),
+    body: HotelModerationReasonSchema,
     pathParams: v.object({ id: ParamIdSchema }),
     responses: {
       200: HotelSchema,
@@ -417,6 +778,16 @@ export const hotelsContract = c.router({
     summary: '管理员恢复上线（status → approved）',
     metadata: { permission: ['admin'] },
   },
+  moderationLog: {
+    method: 'GET',
+    path: '/hotels/:id/moderation-log',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: HotelModerationLogResponseSchema,
+    },
+    summary: '酒店审核记录（审核通过、驳回、下线、恢复上线、删除的操作人、原因和时间；商户仅自己的）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
   adminList: {
     method: 'GET',
     path: '/hotels/admin',
@@ -458,7 +829,7 @@ export const roomTypesContract = c.router({
   create: {
     method: 'POST',
     path: '/room-types',
-    body: v.omit(RoomTypeSchema, ['id', 'createdAt', 'updatedAt', 'deletedAt']), // Request: 创建数据
+    body: RoomTypeCreateSchema, // Request: 创建数据
     responses: {
       201: RoomTypeSchema,
     },
@@ -563,13 +934,23 @@ export const bookingsContract = c.router({
   create: {
     method: 'POST',
     path: '/bookings',
-    body: BookingCreateSchema, // Request: 预订数据（后端检查库存、计算totalPrice考虑优惠）
+    body: BookingCreateSchema, // Request: 预订数据（后端检查库存、计算totalPrice考虑优惠，promotionId以后端报价为准）
     responses: {
       201: BookingSchema,
     },
-    summary: '创建预订（用户端，检查库存减1，计算价格）',
+    summary: '创建预订（用户端，按晚占用库存，按报价计算价格；支持 Idempotency-Key 请求头防止重复提交）',
     metadata: { permission: ['customer'] },
   },
+  quote: {
+    method: 'POST',
+    path: '/bookings/quote',
+    body: PriceQuoteRequestSchema, // Request: 房型和入住区间
+    responses: {
+      200: PriceQuoteSchema, // Response: 逐晚价格和优惠明细
+    },
+    summary: '预订报价（逐晚计算优惠，创建预订时使用同一计算）',
+    metadata: { permission: null },
+  },
   list: {
     method: 'GET',
     path: '/bookings',
@@ -597,7 +978,7 @@ export const bookingsContract = c.router({
     responses: {
       200: BookingListResponseSchema,
     },
-    summary: '商户预订列表（自己的酒店）',
+    summary: '商户预订列表（自己的酒店，含入住人姓名、电话、到店时间和特殊要求）',
     metadata: { permission: ['merchant'] },
   },
   get: {
@@ -607,7 +988,27 @@ export const bookingsContract = c.router({
     responses: {
       200: BookingSchema,
     },
-    summary: '获取单个预订详情（用户/商户/admin根据权限）',
+    summary: '获取单个预订详情（用户/商户/admin根据权限，含入住人信息）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  history: {
+    method: 'GET',
+    path: '/bookings/:id/history',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: BookingHistoryResponseSchema,
+    },
+    summary: '预订历史（创建、状态变更、修改的操作人和时间；用户/商户/admin根据权限）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  receipt: {
+    method: 'GET',
+    path: '/bookings/:id/receipt',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: v.string(), // text/html 文档
+    },
+    summary: '预订收据（可打印的HTML，含酒店信息、逐晚房费、优惠、税费和支付状态；用户/商户/admin根据权限）',
     metadata: { permission: ['customer', 'merchant', 'admin'] },
   },
   confirm: {
@@ -621,6 +1022,39 @@ export const bookingsContract = c.router({
     summary: '确认预订（商户/admin，status → confirmed）',
     metadata: { permission: ['merchant', 'admin'] },
   },
+  checkIn: {
+    method: 'PUT',
+    path: '/bookings/:id/check-in',
+    body: v.any(),
+    pathParams: v.object({ id: v.string() }),
+    responses: {
+      200: BookingSchema,
+    },
+    summary: '办理入住（商户/admin，confirmed → checked_in）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
+  checkOut: {
+    method: 'PUT',
+    path: '/bookings/:id/check-out',
+    body: v.any(),
+    pathParams: v.object({ id: v.string() }),
+    responses: {
+      200: BookingSchema,
+    },
+    summary: '办理退房（商户/admin，checked_in → completed）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
+  noShow: {
+    method: 'PUT',
+    path: '/bookings/:id/no-show',
+    body: v.any(),
+    pathParams: v.object({ id: v.string() }),
+    responses: {
+      200: BookingSchema,
+    },
+    summary: '标记未到店（商户/admin，confirmed → no_show，释放库存）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
   cancel: {
     method: 'PUT',
     path: '/bookings/:id/cancel',
@@ -629,7 +1063,18 @@ export const bookingsContract = c.router({
     responses: {
       200: BookingSchema,
     },
-    summary: '取消预订（用户/商户/admin，恢复库存，status → cancelled）',
+    summary: '取消预订（用户/商户/admin，恢复库存，按取消政策计算 refundAmount，status → cancelled）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  modify: {
+    method: 'PUT',
+    path: '/bookings/:id/modify',
+    body: BookingModifySchema,
+    pathParams: v.object({ id: v.string() }),
+    responses: {
+      200: BookingSchema,
+    },
+    summary: '修改预订日期或房型（用户/商户/admin，同一事务内重新计价并转移库存，记录修改前信息）',
     metadata: { permission: ['customer', 'merchant', 'admin'] },
   },
   delete: {
@@ -646,6 +1091,270 @@ export const bookingsContract = c.router({
   commonResponses: CommonResponseErrors,
 });
 
+// 支付相关 API
+export const paymentsContract = c.router({
+  createIntent: {
+    method: 'POST',
+    path: '/payments',
+    body: PaymentIntentCreateSchema,
+    responses: {
+      201: PaymentIntentResponseSchema,
+    },
+    summary: '为预订创建支付单（用户端，金额为预订总价；已有待支付的支付单时直接返回）',
+    metadata: { permission: ['customer'] },
+  },
+  capture: {
+    method: 'POST',
+    path: '/payments/:id/capture',
+    pathParams: v.object({ id: ParamIdSchema }),
+    body: PaymentCaptureSchema,
+    responses: {
+      200: PaymentSchema,
+    },
+    summary: '确认支付（用户端，通过支付渠道扣款，成功后预订标记为已支付）',
+    metadata: { permission: ['customer'] },
+  },
+  refund: {
+    method: 'POST',
+    path: '/payments/:id/refund',
+    pathParams: v.object({ id: ParamIdSchema }),
+    body: PaymentRefundCreateSchema,
+    responses: {
+      200: PaymentWithRefundsSchema,
+    },
+    summary: '退款（商户/admin，可部分退款；用户取消预订时按取消政策自动退款）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
+  listByBooking: {
+    method: 'GET',
+    path: '/bookings/:id/payments',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: v.array(PaymentWithRefundsSchema),
+    },
+    summary: '预订的支付单和退款记录（用户/商户/admin根据权限）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
+// 候补 Schema（满房时排队，释放库存后按顺序生成限时保留的待确认预订）
+export const WaitlistEntrySchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  userId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  hotelId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  roomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  checkIn: v.pipe(v.string(), v.isoDate()),
+  checkOut: v.pipe(v.string(), v.isoDate()),
+  quantity: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  adults: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  children: v.pipe(v.number(), v.integer(), v.minValue(0)),
+  status: v.picklist(waitlistStatus, '无效候补状态'),
+  bookingId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))), // 释放库存后生成的保留预订
+  offeredAt: v.nullable(v.date('无效日期')),
+  ...vTimestamps()
+});
+
+// 加入候补请求 Schema
+export const WaitlistCreateSchema = v.object({
+  roomTypeId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  checkIn: v.pipe(v.string(), v.isoDate()),
+  checkOut: v.pipe(v.string(), v.isoDate()),
+  quantity: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1)), 1),
+  adults: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1)), 1),
+  children: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0)), 0),
+});
+
+// 候补列表项 Schema（带酒店、房型和保留预订的截止时间）
+export const WaitlistEntryWithRelationsSchema = v.intersect([
+  WaitlistEntrySchema,
+  v.object({
+    hotel: v.nullable(v.object({ id: v.number(), nameZh: v.string() })),
+    roomType: v.nullable(v.object({ id: v.number(), name: v.string() })),
+    booking: v.nullable(v.object({ id: v.number(), status: v.picklist(bookingStatus), expiresAt: v.nullable(v.date()) })),
+  }),
+]);
+
+// 站内通知 Schema
+export const NotificationSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  userId: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  type: v.string(), // 通知类型，如 waitlist_offered
+  title: v.string(),
+  content: v.string(),
+  bookingId: v.nullable(v.pipe(v.number(), v.integer(), v.minValue(1))),
+  readAt: v.nullable(v.date('无效日期')),
+  ...vTimestamps()
+});
+
+// 日历订阅链接请求 Schema（商户/admin 订阅酒店到店日历时填写 hotelId，用户订阅自己的行程不填）
+export const CalendarFeedTokenCreateSchema = v.object({
+  hotelId: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+});
+
+// 日历订阅链接响应 Schema（token 长期有效，日历应用通过 url 定期拉取）
+export const CalendarFeedTokenSchema = v.object({
+  scope: v.picklist(['user', 'hotel']),
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  token: v.string(),
+  url: v.string(),
+});
+
+// 日历订阅查询参数（签名 token，日历应用无法携带 Authorization 请求头）
+export const CalendarFeedQuerySchema = v.object({
+  token: v.string(),
+});
+
+// 候补相关 API
+export const waitlistContract = c.router({
+  create: {
+    method: 'POST',
+    path: '/waitlist',
+    body: WaitlistCreateSchema,
+    responses: {
+      201: WaitlistEntrySchema,
+    },
+    summary: '加入房型候补（用户端，仅在所选入住区间满房时可加入）',
+    metadata: { permission: ['customer'] },
+  },
+  list: {
+    method: 'GET',
+    path: '/waitlist',
+    responses: {
+      200: v.array(WaitlistEntryWithRelationsSchema),
+    },
+    summary: '我的候补列表（用户端）',
+    metadata: { permission: ['customer'] },
+  },
+  cancel: {
+    method: 'DELETE',
+    path: '/waitlist/:id',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: WaitlistEntrySchema,
+    },
+    summary: '取消候补（用户端，仅排队中的候补可取消）',
+    metadata: { permission: ['customer'] },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
+// 站内通知相关 API
+export const notificationsContract = c.router({
+  list: {
+    method: 'GET',
+    path: '/notifications',
+    query: v.object({
+      unread: v.optional(v.picklist(['true', 'false'])),
+    }),
+    responses: {
+      200: v.array(NotificationSchema),
+    },
+    summary: '我的站内通知（按时间倒序）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  markRead: {
+    method: 'PUT',
+    path: '/notifications/:id/read',
+    pathParams: v.object({ id: ParamIdSchema }),
+    body: v.any(),
+    responses: {
+      200: NotificationSchema,
+    },
+    summary: '标记通知为已读',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
+// 日历（iCalendar）导出 API，响应均为 text/calendar 文档
+export const calendarContract = c.router({
+  booking: {
+    method: 'GET',
+    path: '/bookings/:id/calendar.ics',
+    pathParams: v.object({ id: ParamIdSchema }),
+    responses: {
+      200: v.string(), // text/calendar 文档
+    },
+    summary: '导出单个预订的 .ics 日历文件（用户/商户/admin根据权限）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  createFeedToken: {
+    method: 'POST',
+    path: '/calendar/feed-tokens',
+    body: CalendarFeedTokenCreateSchema,
+    responses: {
+      201: CalendarFeedTokenSchema,
+    },
+    summary: '生成日历订阅链接（用户：自己的行程；商户/admin：指定酒店的到店日历）',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  revokeFeedTokens: {
+    method: 'DELETE',
+    path: '/calendar/feed-tokens',
+    responses: {
+      200: v.object({ message: v.literal('Revoked') }),
+    },
+    summary: '作废当前用户生成过的所有日历订阅链接',
+    metadata: { permission: ['customer', 'merchant', 'admin'] },
+  },
+  userFeed: {
+    method: 'GET',
+    path: '/calendar/users/:id/feed.ics',
+    pathParams: v.object({ id: ParamIdSchema }),
+    query: CalendarFeedQuerySchema,
+    responses: {
+      200: v.string(), // text/calendar 文档
+    },
+    summary: '用户行程日历订阅（通过签名 token 访问）',
+    metadata: { permission: null },
+  },
+  hotelFeed: {
+    method: 'GET',
+    path: '/calendar/hotels/:id/feed.ics',
+    pathParams: v.object({ id: ParamIdSchema }),
+    query: CalendarFeedQuerySchema,
+    responses: {
+      200: v.string(), // text/calendar 文档
+    },
+    summary: '酒店到店日历订阅（通过签名 token 访问）',
+    metadata: { permission: null },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
+// 上传图片响应 Schema（url 和 thumbnailUrl 可直接写入酒店 images）
+export const UploadedImageSchema = v.object({
+  url: v.pipe(v.string(), v.url('无效URL')),
+  thumbnailUrl: v.pipe(v.string(), v.url('无效URL')),
+  contentType: v.string(),
+  size: v.pipe(v.number(), v.integer(), v.minValue(0)), // 原图字节数
+  width: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  height: v.pipe(v.number(), v.integer(), v.minValue(1)),
+});
+
+// 文件上传相关 API
+export const uploadsContract = c.router({
+  image: {
+    method: 'POST',
+    path: '/uploads/images',
+    contentType: 'multipart/form-data',
+    body: v.any(), // 表单字段 file，由 @fastify/multipart 解析
+    responses: {
+      201: UploadedImageSchema,
+      413: StatusError(413), // 文件超过大小限制
+    },
+    summary: '上传酒店图片，校验类型和大小并生成缩略图（商户/admin）',
+    metadata: { permission: ['merchant', 'admin'] },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
 // 评分相关 API
 export const ratingsContract = c.router({
   create: {
@@ -725,6 +1434,42 @@ query: v.object({
   commonResponses: CommonResponseErrors,
 });
 
+// 城市相关 API
+export const citiesContract = c.router({
+  list: {
+    method: 'GET',
+    path: '/cities',
+    responses: {
+      200: v.array(CitySchema),
+    },
+    summary: '城市列表（含区县，按名称排序）',
+    metadata: { permission: null },
+  },
+  create: {
+    method: 'POST',
+    path: '/cities',
+    body: CityCreateSchema,
+    responses: {
+      201: CitySchema,
+    },
+    summary: '创建城市及其区县（admin）',
+    metadata: { permission: ['admin'] },
+  },
+  createDistrict: {
+    method: 'POST',
+    path: '/cities/:id/districts',
+    pathParams: v.object({ id: ParamIdSchema }),
+    body: DistrictCreateSchema,
+    responses: {
+      201: DistrictSchema,
+    },
+    summary: '为城市添加区县（admin）',
+    metadata: { permission: ['admin'] },
+  },
+}, {
+  commonResponses: CommonResponseErrors,
+});
+
 // 完整API合约
 // 使用 commonResponses 为所有 API 添加统一的错误响应定义
 export const contract = c.router({
@@ -738,10 +1483,22 @@ export const contract = c.router({
   promotions: promotionsContract,
   // 预订相关 API（新增预订系统）
   bookings: bookingsContract,
+  // 支付相关 API
+  payments: paymentsContract,
+  // 候补相关 API
+  waitlist: waitlistContract,
+  // 站内通知 API
+  notifications: notificationsContract,
+  // 日历导出 API
+  calendar: calendarContract,
+  // 文件上传 API
+  uploads: uploadsContract,
   // 评分相关 API
   ratings: ratingsContract,
   // 轮播图相关 API
   carousel: carouselContract,
+  // 城市相关 API
+  cities: citiesContract,
 }, {
   // 通用错误响应定义，所有子路由都会继承这些响应状态码
   commonResponses: CommonResponseErrors,